@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { listAssignableAdmins } from '@/lib/assignments';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const admins = await listAssignableAdmins(getFirestoreDb());
+    return NextResponse.json({ admins, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch admins:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
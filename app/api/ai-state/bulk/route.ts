@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission, MAX_TIMED_PAUSE_MINUTES } from '@/lib/permissions';
+import { writeAuditLogs } from '@/lib/audit';
+import { clearSnoozeMode, getStoredSnoozeInfo, normalizeSenderNumber, parsePauseReason, setSnoozeMode } from '@/lib/snooze';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_BULK_CONVERSATIONS = 500;
+
+/**
+ * Menjeda atau menyalakan AI untuk banyak percakapan sekaligus, berdasarkan
+ * daftar `senderNumbers` pilihan admin atau semua percakapan dengan `label` tertentu.
+ */
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { enabled, durationMinutes, senderNumbers, label } = body || {};
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled (boolean) is required.' }, { status: 400 });
+    }
+
+    const { reason, error: reasonError } = parsePauseReason(body?.reason);
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 });
+    }
+
+    const hasDuration = typeof durationMinutes === 'number' && durationMinutes > 0;
+    const requiredPermission = !enabled && !hasDuration ? 'ai:disable' : 'ai:pause';
+    if (!hasPermission(admin.role, requiredPermission)) {
+      return forbiddenResponse();
+    }
+    const canDisable = hasPermission(admin.role, 'ai:disable');
+    const pauseMinutes = !hasDuration ? 60 : canDisable ? durationMinutes : Math.min(durationMinutes, MAX_TIMED_PAUSE_MINUTES);
+
+    const db = getFirestoreDb();
+    let targets: string[] = [];
+
+    if (typeof label === 'string' && label) {
+      const snapshot = await db
+        .collection('directMessages')
+        .where('customerLabel', '==', label)
+        .limit(MAX_BULK_CONVERSATIONS + 1)
+        .get();
+      targets = snapshot.docs.map((doc) => doc.id);
+    } else if (Array.isArray(senderNumbers)) {
+      targets = senderNumbers.filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+    } else {
+      return NextResponse.json(
+        { error: 'Isi "senderNumbers" atau "label" untuk memilih percakapan.' },
+        { status: 400 }
+      );
+    }
+
+    const uniqueTargets = Array.from(new Set(targets.map((value) => normalizeSenderNumber(value))));
+    if (!uniqueTargets.length) {
+      return NextResponse.json({ error: 'Tidak ada percakapan yang cocok.' }, { status: 400 });
+    }
+    if (uniqueTargets.length > MAX_BULK_CONVERSATIONS) {
+      return NextResponse.json(
+        { error: `Maksimal ${MAX_BULK_CONVERSATIONS} percakapan per aksi massal.` },
+        { status: 400 }
+      );
+    }
+
+    // Percakapan yang AI-nya dimatikan manual dilewati bila admin tidak boleh mematikan AI.
+    const storedSnoozes = canDisable ? {} : await getStoredSnoozeInfo(db, uniqueTargets);
+    const skipped = uniqueTargets.filter((senderNumber) => storedSnoozes[senderNumber]?.manual);
+    const updatedTargets = uniqueTargets.filter((senderNumber) => !storedSnoozes[senderNumber]?.manual);
+
+    await Promise.all(
+      updatedTargets.map((senderNumber) =>
+        enabled
+          ? clearSnoozeMode(db, senderNumber).catch(() => undefined)
+          : setSnoozeMode(db, senderNumber, pauseMinutes, {
+            manual: !hasDuration,
+            reason: reason || (hasDuration ? 'timed-toggle' : 'manual-toggle'),
+            updatedBy: admin.email,
+          })
+      )
+    );
+
+    // Satu entri per percakapan supaya aksi massal ikut muncul di riwayat audit tiap percakapan.
+    await writeAuditLogs(
+      db,
+      updatedTargets.map((senderNumber) => ({
+        actor: admin,
+        action: 'ai.bulk' as const,
+        senderNumber,
+        before: null,
+        after: {
+          enabled,
+          durationMinutes: hasDuration ? pauseMinutes : null,
+          reason,
+          label: typeof label === 'string' && label ? label : null,
+          count: updatedTargets.length,
+        },
+      }))
+    );
+
+    return NextResponse.json({
+      updated: updatedTargets.length,
+      senderNumbers: updatedTargets,
+      skipped,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update AI state in bulk:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { getGlobalAiPause, setGlobalAiPause } from '@/lib/snooze';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const db = getFirestoreDb();
+    const globalPause = await getGlobalAiPause(db);
+
+    return NextResponse.json({ ...globalPause, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch global AI state:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'ai:disable')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { paused, reason } = body || {};
+    if (typeof paused !== 'boolean') {
+      return NextResponse.json({ error: 'paused (boolean) is required.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const previous = await getGlobalAiPause(db);
+    await setGlobalAiPause(db, paused, {
+      reason: typeof reason === 'string' ? reason : 'global-kill-switch',
+      updatedBy: admin.email,
+    });
+    const globalPause = await getGlobalAiPause(db);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'ai.global',
+      before: previous,
+      after: globalPause,
+    });
+
+    return NextResponse.json({ ...globalPause, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update global AI state:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
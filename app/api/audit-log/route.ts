@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { serializeAuditEntry } from '@/lib/audit';
+import { normalizeSenderNumber } from '@/lib/identity';
+import { decodeTimestampCursor, encodeCursor, parseLimit } from '@/lib/pagination';
+import type { TimestampCursor } from '@/lib/pagination';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Filter diterapkan di memori agar tidak butuh composite index untuk tiap kombinasi;
+// batas ini menjaga satu request tetap murah walau filternya sangat sempit.
+const MAX_SCANNED_DOCS = 1000;
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'audit:read')) {
+      return forbiddenResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+    const cursorParam = searchParams.get('cursor');
+    const cursor = decodeTimestampCursor(cursorParam);
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Cursor tidak valid.' }, { status: 400 });
+    }
+
+    const actorFilter = searchParams.get('actor')?.trim().toLowerCase() || '';
+    const actionFilter = searchParams.get('action')?.trim() || '';
+    const senderParam = searchParams.get('senderNumber')?.trim() || '';
+    const senderFilter = senderParam ? normalizeSenderNumber(senderParam) : '';
+
+    const db = getFirestoreDb();
+    const entries: ReturnType<typeof serializeAuditEntry>[] = [];
+    let startAfter = cursor
+      ? [new Timestamp(cursor.seconds, cursor.nanoseconds), cursor.id] as const
+      : null;
+    let scanned = 0;
+    let exhausted = false;
+    let lastScanned: TimestampCursor | null = null;
+
+    while (entries.length < limit && scanned < MAX_SCANNED_DOCS && !exhausted) {
+      let query = db
+        .collection('auditLog')
+        .orderBy('createdAt', 'desc')
+        .orderBy(FieldPath.documentId(), 'desc')
+        .limit(limit);
+
+      if (startAfter) {
+        query = query.startAfter(...startAfter);
+      }
+
+      const snapshot = await query.get();
+      exhausted = snapshot.docs.length < limit;
+
+      for (const doc of snapshot.docs) {
+        scanned += 1;
+        const createdAt = doc.get('createdAt') as Timestamp | undefined;
+        if (createdAt) {
+          lastScanned = { seconds: createdAt.seconds, nanoseconds: createdAt.nanoseconds, id: doc.id };
+          startAfter = [createdAt, doc.id] as const;
+        }
+
+        const entry = serializeAuditEntry(doc);
+        const actorMatch = !actorFilter
+          || String(entry.actorEmail || '').toLowerCase().includes(actorFilter)
+          || String(entry.actorName || '').toLowerCase().includes(actorFilter);
+        const actionMatch = !actionFilter || entry.action === actionFilter;
+        const senderMatch = !senderFilter || entry.senderNumber === senderFilter;
+
+        if (actorMatch && actionMatch && senderMatch) {
+          entries.push(entry);
+          if (entries.length >= limit) break;
+        }
+      }
+    }
+
+    const nextCursor = !exhausted || entries.length >= limit
+      ? lastScanned ? encodeCursor(lastScanned) : null
+      : null;
+
+    return NextResponse.json({
+      entries,
+      count: entries.length,
+      nextCursor,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch audit log:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
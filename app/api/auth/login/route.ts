@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { authenticateAdmin, setSessionCookie } from '@/lib/auth';
+import { createSessionToken } from '@/lib/session';
+import {
+  clearLoginFailures,
+  getLoginLockRemaining,
+  getLoginThrottleKeys,
+  recordLoginFailure,
+} from '@/lib/loginThrottle';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { email, password } = body || {};
+
+    if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Email dan password wajib diisi.' },
+        { status: 400 }
+      );
+    }
+
+    const db = getFirestoreDb();
+    const throttleKeys = getLoginThrottleKeys(request, email);
+    const lockRemaining = await getLoginLockRemaining(db, throttleKeys);
+    if (lockRemaining > 0) {
+      return NextResponse.json(
+        { error: `Terlalu banyak percobaan login. Coba lagi dalam ${Math.ceil(lockRemaining / 60000)} menit.` },
+        { status: 429 }
+      );
+    }
+
+    const admin = await authenticateAdmin(db, email, password);
+
+    if (!admin) {
+      await recordLoginFailure(db, throttleKeys);
+      return NextResponse.json(
+        { error: 'Email atau password salah.' },
+        { status: 401 }
+      );
+    }
+
+    await clearLoginFailures(db, throttleKeys);
+
+    const token = await createSessionToken({
+      uid: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role,
+    });
+
+    const response = NextResponse.json({
+      admin: { id: admin.id, email: admin.email, name: admin.name, role: admin.role },
+      status: 'success',
+    });
+    setSessionCookie(response, token);
+    return response;
+  } catch (error) {
+    console.error('[admin-ui] Failed to log in admin:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Terjadi kesalahan internal.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const response = NextResponse.json({ status: 'success' });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { getRolePermissions } from '@/lib/permissions';
+import { backendBase } from '@/lib/backend';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json({
+    admin: {
+      id: admin.uid,
+      email: admin.email,
+      name: admin.name,
+      role: admin.role,
+      permissions: getRolePermissions(admin.role),
+    },
+    // Pengiriman balasan lewat route lokal hanya berjalan bila backend bot dikonfigurasi di server.
+    messagingEnabled: Boolean(backendBase),
+    status: 'success',
+  });
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { backendResultResponse, callBackend } from '@/lib/backend';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { findBooking } from '@/lib/bookings';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { normalizeSenderNumber } from '@/lib/identity';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const BOOKING_STATUSES = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled'];
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'bookings:update')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { status, notes } = body || {};
+
+    if (!params.id) {
+      return NextResponse.json({ error: 'ID booking wajib diisi.' }, { status: 400 });
+    }
+
+    if (!BOOKING_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Status booking tidak valid.' }, { status: 400 });
+    }
+
+    // State sebelumnya untuk audit dibaca dari backend, bukan dari console, supaya tidak bisa dipalsukan.
+    const { booking, error: lookupError } = await findBooking(params.id);
+    if (!booking) {
+      return NextResponse.json(
+        { error: lookupError || 'Booking tidak ditemukan.' },
+        { status: lookupError ? 502 : 404 }
+      );
+    }
+
+    const result = await callBackend(`/bookings/${encodeURIComponent(params.id)}/status`, {
+      method: 'PATCH',
+      body: { status, notes: typeof notes === 'string' ? notes : '', updatedBy: admin.email },
+    });
+
+    if (result.ok) {
+      await writeAuditLog(getFirestoreDb(), {
+        actor: admin,
+        action: 'booking.update',
+        senderNumber: booking.customerPhone ? normalizeSenderNumber(booking.customerPhone) : null,
+        targetId: params.id,
+        before: { status: booking.status, notes: booking.notes },
+        after: { status, notes: typeof notes === 'string' ? notes : '' },
+      });
+    }
+
+    return backendResultResponse(result, 'Gagal memperbarui booking di backend.');
+  } catch (error) {
+    console.error('[admin-ui] Failed to update booking status:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Terjadi kesalahan internal.' },
+      { status: 500 }
+    );
+  }
+}
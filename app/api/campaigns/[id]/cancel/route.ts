@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { CAMPAIGN_COLLECTION, cancelCampaign, serializeCampaign } from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const campaignRef = db.collection(CAMPAIGN_COLLECTION).doc(params.id);
+    const snapshot = await campaignRef.get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Kampanye tidak ditemukan.' }, { status: 404 });
+    }
+
+    const previous = serializeCampaign(snapshot);
+    if (previous.status !== 'sending') {
+      return NextResponse.json({ error: 'Hanya kampanye yang sedang dikirim yang bisa dihentikan.' }, { status: 409 });
+    }
+
+    // Pesan yang sudah masuk outbox tetap dikirim; penerima `pending` saja yang tidak diproses lagi.
+    await cancelCampaign(db, params.id);
+    const campaign = serializeCampaign(await campaignRef.get());
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'campaign.update',
+      targetId: params.id,
+      before: previous,
+      after: campaign,
+    });
+
+    return NextResponse.json({ campaign, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to cancel campaign:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  CAMPAIGN_COLLECTION,
+  RECIPIENT_STATUSES,
+  getRecipientStats,
+  listRecipients,
+  serializeCampaign,
+} from '@/lib/campaigns';
+import type { RecipientStatus } from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(CAMPAIGN_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Kampanye tidak ditemukan.' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') as RecipientStatus | null;
+    const status = statusParam && RECIPIENT_STATUSES.includes(statusParam) ? statusParam : null;
+
+    const [stats, recipients] = await Promise.all([
+      getRecipientStats(db, params.id),
+      listRecipients(db, params.id, status),
+    ]);
+
+    return NextResponse.json({ campaign: serializeCampaign(snapshot), stats, recipients, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch campaign:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(CAMPAIGN_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Kampanye tidak ditemukan.' }, { status: 404 });
+    }
+    // Kampanye yang sudah berjalan disimpan sebagai catatan pengiriman; yang bisa dihapus hanya draf.
+    if (snapshot.get('status') !== 'draft') {
+      return NextResponse.json({ error: 'Hanya draf kampanye yang bisa dihapus.' }, { status: 409 });
+    }
+
+    await snapshot.ref.delete();
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'campaign.update',
+      targetId: params.id,
+      before: serializeCampaign(snapshot),
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to delete campaign:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  CAMPAIGN_COLLECTION,
+  persistKeywordOptOuts,
+  resolveCampaignAudience,
+  serializeCampaign,
+  startCampaign,
+} from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const campaignRef = db.collection(CAMPAIGN_COLLECTION).doc(params.id);
+    const snapshot = await campaignRef.get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Kampanye tidak ditemukan.' }, { status: 404 });
+    }
+
+    const previous = serializeCampaign(snapshot);
+    if (previous.status !== 'draft') {
+      return NextResponse.json({ error: 'Kampanye ini sudah dijalankan.' }, { status: 409 });
+    }
+
+    // Penerima ditetapkan saat kampanye dimulai, jadi hasilnya bisa berbeda dari pratinjau sebelumnya.
+    const { members, optedOut, keywordOptOuts } = await resolveCampaignAudience(db, previous.audience);
+    await persistKeywordOptOuts(db, keywordOptOuts);
+    if (!members.length) {
+      return NextResponse.json({ error: 'Tidak ada penerima yang cocok dengan segmen ini.' }, { status: 400 });
+    }
+
+    await startCampaign(db, params.id, members, previous.content.type === 'template');
+    const campaign = serializeCampaign(await campaignRef.get());
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'campaign.update',
+      targetId: params.id,
+      before: previous,
+      after: { ...campaign, optedOut },
+    });
+
+    return NextResponse.json({ campaign, optedOut, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to start campaign:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { parseCampaignAudience, resolveCampaignAudience } from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const SAMPLE_SIZE = 20;
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { audience, error } = parseCampaignAudience(body?.audience);
+    if (!audience) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const { members, optedOut, outsideSession, truncated } = await resolveCampaignAudience(db, audience);
+
+    return NextResponse.json({
+      count: members.length,
+      optedOut,
+      // Kampanye teks melewati penerima ini; kampanye template tetap bisa menjangkau mereka.
+      outsideSession,
+      truncated,
+      sample: members.slice(0, SAMPLE_SIZE).map(({ sessionExpired, ...member }) => member),
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to preview campaign audience:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
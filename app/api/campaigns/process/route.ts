@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { isCronRequest } from '@/lib/cron';
+import { processSendingCampaigns } from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const db = getFirestoreDb();
+    const results = await processSendingCampaigns(db);
+
+    return NextResponse.json({
+      processed: results.length,
+      sent: results.reduce((sum, item) => sum + item.sent, 0),
+      completed: results.filter((item) => item.completed).length,
+      failed: results.filter((item) => item.error).length,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to process campaigns:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
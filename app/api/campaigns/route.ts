@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  createCampaign,
+  getRecipientStats,
+  listCampaigns,
+  parseCampaignAudience,
+  parseCampaignContent,
+} from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const campaigns = await listCampaigns(db);
+    // Statistik hanya untuk kampanye yang sudah punya penerima; draf belum punya subkoleksi.
+    const withStats = await Promise.all(
+      campaigns.map(async (campaign) => ({
+        ...campaign,
+        stats: campaign.status === 'draft' ? null : await getRecipientStats(db, campaign.id),
+      }))
+    );
+
+    return NextResponse.json({ campaigns: withStats, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch campaigns:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'campaigns:manage')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'Nama kampanye wajib diisi.' }, { status: 400 });
+    }
+
+    const { audience, error: audienceError } = parseCampaignAudience(body?.audience);
+    if (!audience) {
+      return NextResponse.json({ error: audienceError }, { status: 400 });
+    }
+    const { content, error: contentError } = await parseCampaignContent(body?.content);
+    if (!content) {
+      return NextResponse.json({ error: contentError }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const campaign = await createCampaign(db, { name, audience, content }, admin);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'campaign.update',
+      targetId: campaign.id,
+      before: null,
+      after: campaign,
+    });
+
+    return NextResponse.json({ campaign, status: 'success' }, { status: 201 });
+  } catch (error) {
+    console.error('[admin-ui] Failed to create campaign:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
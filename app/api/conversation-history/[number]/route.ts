@@ -1,29 +1,38 @@
 import { NextResponse } from 'next/server';
-import type { Timestamp } from 'firebase-admin/firestore';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
 import { getFirestoreDb } from '@/lib/firebaseAdmin';
-import { getSnoozeInfo, normalizeSenderNumber } from '@/lib/snooze';
-import { parseSenderIdentity } from '@/lib/identity';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { getSnoozeInfo } from '@/lib/snooze';
+import { getSenderKey, parseSenderIdentity } from '@/lib/identity';
+import { serializeMessage } from '@/lib/conversations';
+import { decodeTimestampCursor, encodeCursor, parseLimit } from '@/lib/pagination';
+import { serializeLabelLock } from '@/lib/labels';
+import { getUndeliveredOutboundMessages } from '@/lib/outbox';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-function serializeTimestamp(timestamp: Timestamp | null | undefined) {
-  if (!timestamp) return null;
-  return {
-    seconds: timestamp.seconds,
-    nanoseconds: timestamp.nanoseconds,
-  };
-}
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 500;
 
 export async function GET(
   request: Request,
   { params }: { params: { number: string } }
 ) {
   try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
     const { searchParams } = new URL(request.url);
-    const limitParam = searchParams.get('limit');
-    const parsedLimit = limitParam ? parseInt(limitParam, 10) : 200;
-    const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : 200;
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+    const beforeParam = searchParams.get('before');
+    const before = decodeTimestampCursor(beforeParam);
+
+    if (beforeParam && !before) {
+      return NextResponse.json({ error: 'Cursor tidak valid.' }, { status: 400 });
+    }
 
     const rawNumber = params.number;
     const identity = parseSenderIdentity(rawNumber);
@@ -36,26 +45,53 @@ export async function GET(
     const db = getFirestoreDb();
     const messagesRef = db.collection('directMessages').doc(docId).collection('messages');
 
-    const snapshot = await messagesRef.orderBy('timestamp', 'desc').limit(limit).get();
+    let query = messagesRef
+      .orderBy('timestamp', 'desc')
+      .orderBy(FieldPath.documentId(), 'desc')
+      .limit(limit + 1);
 
-    const history = snapshot.docs.map((doc) => {
-      const data = doc.data();
-      const timestamp = serializeTimestamp(data.timestamp as Timestamp | undefined);
+    if (before) {
+      query = query.startAfter(new Timestamp(before.seconds, before.nanoseconds), before.id);
+    }
 
-      return {
-        text: data.text || '',
-        sender: data.sender || 'user',
-        timestamp,
-      };
-    });
+    const snapshot = await query.get();
+    const hasMore = snapshot.docs.length > limit;
+    const pageDocs = hasMore ? snapshot.docs.slice(0, limit) : snapshot.docs;
+
+    const history = pageDocs.map(serializeMessage);
 
     history.reverse();
 
+    // Pesan tertua di halaman ini menjadi titik awal halaman berikutnya ("load older").
+    const oldestDoc = pageDocs[pageDocs.length - 1];
+    const oldestTimestamp = oldestDoc?.get('timestamp') as Timestamp | undefined;
+    const nextCursor = hasMore && oldestDoc && oldestTimestamp
+      ? encodeCursor({
+        seconds: oldestTimestamp.seconds,
+        nanoseconds: oldestTimestamp.nanoseconds,
+        id: oldestDoc.id,
+      })
+      : null;
+
+    // Halaman lama hanya butuh pesan; status AI dan label sudah ada di halaman terbaru.
+    if (before) {
+      return NextResponse.json({
+        senderNumber: identity.docId,
+        channel: identity.channel,
+        platformId: identity.platformId,
+        messageCount: history.length,
+        history,
+        nextCursor,
+        status: 'success',
+      });
+    }
+
     // Fetch parent doc for label info
     const parentDoc = await db.collection('directMessages').doc(docId).get();
     const parentData = parentDoc.exists ? parentDoc.data() : {};
 
-    const snoozeInfo = await getSnoozeInfo(db, normalizeSenderNumber(identity.normalizedAddress));
+    const snoozeInfo = await getSnoozeInfo(db, getSenderKey(identity));
+    const outbox = await getUndeliveredOutboundMessages(db, docId);
 
     return NextResponse.json({
       senderNumber: identity.docId,
@@ -63,10 +99,13 @@ export async function GET(
       platformId: identity.platformId,
       messageCount: history.length,
       history,
+      nextCursor,
       aiPaused: snoozeInfo.active,
       aiPauseInfo: snoozeInfo,
       label: parentData?.customerLabel || null,
       labelReason: parentData?.labelReason || null,
+      labelLockedUntil: serializeLabelLock(parentData),
+      outbox,
       status: 'success',
     });
   } catch (error) {
@@ -1,27 +1,30 @@
 import { NextResponse } from 'next/server';
 import { getFirestoreDb } from '@/lib/firebaseAdmin';
-import {
-  clearSnoozeMode,
-  getSnoozeInfo,
-  normalizeSenderNumber,
-  setSnoozeMode,
-} from '@/lib/snooze';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission, MAX_TIMED_PAUSE_MINUTES } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { clearSnoozeMode, getSnoozeInfo, getStoredSnoozeInfo, parsePauseReason, setSnoozeMode } from '@/lib/snooze';
+import { getSenderKey, parseSenderIdentity } from '@/lib/identity';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: { number: string } }
 ) {
   try {
-    const rawNumber = params.number;
-    const numeric = rawNumber.replace(/[^0-9]/g, '');
-    if (!numeric) {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
       return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
     }
 
-    const senderNumber = normalizeSenderNumber(numeric);
+    const senderNumber = getSenderKey(identity);
 
     const db = getFirestoreDb();
     const info = await getSnoozeInfo(db, senderNumber);
@@ -43,9 +46,14 @@ export async function POST(
   { params }: { params: { number: string } }
 ) {
   try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
     const rawNumber = params.number;
     const body = await request.json().catch(() => ({}));
-    const { enabled, durationMinutes, reason } = body || {};
+    const { enabled, durationMinutes } = body || {};
 
     if (!rawNumber) {
       return NextResponse.json({ error: 'Number is required.' }, { status: 400 });
@@ -55,28 +63,58 @@ export async function POST(
       return NextResponse.json({ error: 'enabled (boolean) is required.' }, { status: 400 });
     }
 
-    const numeric = rawNumber.replace(/[^0-9]/g, '');
-    if (!numeric) {
+    const { reason, error: reasonError } = parsePauseReason(body?.reason);
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 });
+    }
+
+    const identity = parseSenderIdentity(rawNumber);
+    if (!identity.docId) {
       return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
     }
 
-    const senderNumber = normalizeSenderNumber(numeric);
+    const senderNumber = getSenderKey(identity);
+    const hasDuration = typeof durationMinutes === 'number' && durationMinutes > 0;
+    // Mematikan AI tanpa durasi berarti permanen (manual) dan butuh hak lebih tinggi.
+    const requiredPermission = !enabled && !hasDuration ? 'ai:disable' : 'ai:pause';
+    if (!hasPermission(admin.role, requiredPermission)) {
+      return forbiddenResponse();
+    }
+    const canDisable = hasPermission(admin.role, 'ai:disable');
+
     const db = getFirestoreDb();
+    const [previousInfo, storedSnoozes] = await Promise.all([
+      getSnoozeInfo(db, senderNumber),
+      getStoredSnoozeInfo(db, [senderNumber]),
+    ]);
+
+    // AI yang dimatikan manual hanya boleh diubah oleh role yang juga boleh mematikannya.
+    if (storedSnoozes[senderNumber]?.manual && !canDisable) {
+      return forbiddenResponse();
+    }
 
     if (enabled) {
       await clearSnoozeMode(db, senderNumber).catch(() => undefined);
     } else {
-      const hasDuration = typeof durationMinutes === 'number' && durationMinutes > 0;
       const manual = !hasDuration;
-      const effectiveDuration = hasDuration ? durationMinutes : 60;
+      const effectiveDuration = !hasDuration ? 60 : canDisable ? durationMinutes : Math.min(durationMinutes, MAX_TIMED_PAUSE_MINUTES);
       await setSnoozeMode(db, senderNumber, effectiveDuration, {
         manual,
         reason: reason || (manual ? 'manual-toggle' : 'timed-toggle'),
+        updatedBy: admin.email,
       });
     }
 
     const info = await getSnoozeInfo(db, senderNumber);
 
+    await writeAuditLog(db, {
+      actor: admin,
+      action: enabled ? 'ai.enable' : hasDuration ? 'ai.pause' : 'ai.disable',
+      senderNumber,
+      before: previousInfo,
+      after: info,
+    });
+
     return NextResponse.json({
       senderNumber,
       aiPaused: info.active,
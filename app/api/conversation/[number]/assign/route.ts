@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission, MAX_TIMED_PAUSE_MINUTES } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { getSenderKey, parseSenderIdentity } from '@/lib/identity';
+import { clearSnoozeMode, getSnoozeInfo, getStoredSnoozeInfo, setSnoozeMode } from '@/lib/snooze';
+import { ASSIGNED_SNOOZE_REASON, assignConversation, listAssignableAdmins } from '@/lib/assignments';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const assigneeId = typeof body?.assigneeId === 'string' && body.assigneeId ? body.assigneeId : null;
+
+    const db = getFirestoreDb();
+    const conversation = await db.collection('directMessages').doc(identity.docId).get();
+    if (!conversation.exists) {
+      return NextResponse.json({ error: 'Percakapan tidak ditemukan.' }, { status: 404 });
+    }
+
+    // Mengambil atau melepas percakapan sendiri cukup dengan hak membalas;
+    // menugaskan atau mencabut milik admin lain butuh `conversations:assign`.
+    const currentAssigneeId = (conversation.get('assignedTo.uid') as string) || null;
+    const touchesOthers =
+      (assigneeId && assigneeId !== admin.uid) || (currentAssigneeId && currentAssigneeId !== admin.uid);
+    const requiredPermission = touchesOthers ? 'conversations:assign' : 'messages:send';
+    if (!hasPermission(admin.role, requiredPermission)) {
+      return forbiddenResponse();
+    }
+
+    let assignee = null;
+    if (assigneeId) {
+      const admins = await listAssignableAdmins(db);
+      const match = admins.find((candidate) => candidate.uid === assigneeId);
+      if (!match) {
+        return NextResponse.json({ error: 'Admin tujuan tidak ditemukan.' }, { status: 400 });
+      }
+      assignee = { uid: match.uid, email: match.email, name: match.name };
+    }
+
+    const result = await assignConversation(db, identity.docId, assignee, admin);
+    if (!result) {
+      return NextResponse.json({ error: 'Percakapan tidak ditemukan.' }, { status: 404 });
+    }
+
+    // AI dijeda selama percakapan ditangani admin, dan hanya jeda karena penugasan yang dicabut lagi.
+    // Jeda lain yang masih aktif (manual atau timer) dibiarkan apa adanya supaya tidak tertimpa.
+    const senderKey = getSenderKey(identity);
+    const storedSnooze = (await getStoredSnoozeInfo(db, [senderKey]))[senderKey];
+    const isAssignmentSnooze = storedSnooze?.reason === ASSIGNED_SNOOZE_REASON;
+    // Tanpa `ai:disable`, jeda penugasan dibatasi waktu seperti jeda AI biasa.
+    const canDisable = hasPermission(admin.role, 'ai:disable');
+    if (assignee) {
+      if (!storedSnooze?.active || (isAssignmentSnooze && (canDisable || !storedSnooze.manual))) {
+        await setSnoozeMode(db, senderKey, MAX_TIMED_PAUSE_MINUTES, {
+          manual: canDisable,
+          reason: ASSIGNED_SNOOZE_REASON,
+          updatedBy: admin.email,
+        });
+      }
+    } else if (isAssignmentSnooze) {
+      await clearSnoozeMode(db, senderKey);
+    }
+
+    const info = await getSnoozeInfo(db, senderKey);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'conversation.assign',
+      senderNumber: senderKey,
+      before: { assignedTo: result.previous },
+      after: { assignedTo: assignee, aiPaused: info.active },
+    });
+
+    return NextResponse.json({
+      senderNumber: identity.docId,
+      assignedTo: assignee,
+      aiPaused: info.active,
+      aiPauseInfo: info,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to assign conversation:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
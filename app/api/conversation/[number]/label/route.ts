@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { getSenderKey, parseSenderIdentity } from '@/lib/identity';
+import {
+  getLabelHistory,
+  listLabelDefinitions,
+  parseLockMinutes,
+  serializeLabelLock,
+  setConversationLabel,
+} from '@/lib/labels';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const [snapshot, history] = await Promise.all([
+      db.collection('directMessages').doc(identity.docId).get(),
+      getLabelHistory(db, identity.docId),
+    ]);
+    const data = snapshot.exists ? snapshot.data() : undefined;
+
+    return NextResponse.json({
+      senderNumber: identity.docId,
+      label: data?.customerLabel || null,
+      labelReason: data?.labelReason || null,
+      labelLockedUntil: serializeLabelLock(data),
+      history,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch label history:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'labels:update')) {
+      return forbiddenResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const db = getFirestoreDb();
+    const label = body?.label === null || body?.label === '' ? null : body?.label;
+    if (label !== null) {
+      const definitions = await listLabelDefinitions(db);
+      if (typeof label !== 'string' || !definitions.some((definition) => definition.key === label)) {
+        return NextResponse.json({ error: 'Label tidak dikenal.' }, { status: 400 });
+      }
+    }
+
+    const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+    if (!reason) {
+      return NextResponse.json({ error: 'Alasan perubahan label wajib diisi.' }, { status: 400 });
+    }
+
+    const lockMinutes = parseLockMinutes(body?.lockMinutes);
+    if (lockMinutes === null) {
+      return NextResponse.json({ error: 'Durasi kunci label tidak valid.' }, { status: 400 });
+    }
+
+    const result = await setConversationLabel(db, identity.docId, { label, reason, lockMinutes, actor: admin });
+    if (!result) {
+      return NextResponse.json({ error: 'Percakapan tidak ditemukan.' }, { status: 404 });
+    }
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'label.update',
+      senderNumber: getSenderKey(identity),
+      before: { label: result.previousLabel, reason: result.previousReason },
+      after: { label, reason, lockedUntil: result.lockedUntil },
+    });
+
+    return NextResponse.json({
+      senderNumber: identity.docId,
+      label,
+      labelReason: reason,
+      labelLockedUntil: result.lockedUntil,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update label:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
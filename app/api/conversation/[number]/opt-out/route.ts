@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { normalizeSenderNumber, parseSenderIdentity } from '@/lib/identity';
+import { getBroadcastOptOut, setBroadcastOptOut } from '@/lib/campaigns';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: { params: { number: string } }) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const optOut = await getBroadcastOptOut(db, identity.docId);
+
+    return NextResponse.json({ senderNumber: identity.docId, optedOut: Boolean(optOut), optOut, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch broadcast opt-out:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+async function updateOptOut(request: Request, number: string, optedOut: boolean) {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+  if (!hasPermission(admin.role, 'customers:update')) {
+    return forbiddenResponse();
+  }
+
+  const identity = parseSenderIdentity(number);
+  if (!identity.docId) {
+    return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+  }
+
+  const db = getFirestoreDb();
+  const previous = await getBroadcastOptOut(db, identity.docId);
+  await setBroadcastOptOut(db, identity.docId, optedOut, { source: 'admin', updatedBy: admin.email });
+
+  await writeAuditLog(db, {
+    actor: admin,
+    action: 'customer.optout',
+    senderNumber: normalizeSenderNumber(number),
+    targetId: identity.docId,
+    before: { optedOut: Boolean(previous) },
+    after: { optedOut },
+  });
+
+  return NextResponse.json({ senderNumber: identity.docId, optedOut, status: 'success' });
+}
+
+export async function POST(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateOptOut(request, params.number, true);
+  } catch (error) {
+    console.error('[admin-ui] Failed to opt out of broadcasts:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateOptOut(request, params.number, false);
+  } catch (error) {
+    console.error('[admin-ui] Failed to opt back in to broadcasts:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { parseSenderIdentity } from '@/lib/identity';
+import { markConversationRead, markConversationUnread } from '@/lib/readMarkers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Penanda baca bersifat pribadi per admin, jadi cukup butuh sesi login tanpa izin khusus.
+async function updateReadMarker(request: Request, number: string, read: boolean) {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+
+  const identity = parseSenderIdentity(number);
+  if (!identity.docId) {
+    return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+  }
+
+  const db = getFirestoreDb();
+  if (read) {
+    await markConversationRead(db, admin.uid, identity.docId);
+  } else {
+    await markConversationUnread(db, admin.uid, identity.docId);
+  }
+
+  return NextResponse.json({ senderNumber: identity.docId, read, status: 'success' });
+}
+
+export async function POST(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateReadMarker(request, params.number, true);
+  } catch (error) {
+    console.error('[admin-ui] Failed to mark conversation as read:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateReadMarker(request, params.number, false);
+  } catch (error) {
+    console.error('[admin-ui] Failed to mark conversation as unread:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
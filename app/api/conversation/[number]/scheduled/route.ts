@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { normalizeSenderNumber, parseSenderIdentity } from '@/lib/identity';
+import { createScheduledMessage, listScheduledMessages, parseScheduledMessageInput } from '@/lib/scheduledMessages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: { params: { number: string } }) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const scheduled = await listScheduledMessages(db, identity.docId);
+
+    return NextResponse.json({ senderNumber: identity.docId, scheduled, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch scheduled messages:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: { params: { number: string } }) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'messages:send')) {
+      return forbiddenResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { input, error } = parseScheduledMessageInput(body);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const scheduled = await createScheduledMessage(
+      db,
+      {
+        number: params.number,
+        channel: typeof body?.channel === 'string' ? body.channel : null,
+        platformId: typeof body?.platformId === 'string' ? body.platformId : null,
+      },
+      input,
+      admin
+    );
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'message.schedule',
+      senderNumber: normalizeSenderNumber(params.number),
+      targetId: scheduled.id,
+      before: null,
+      after: { kind: input.kind, dueAt: scheduled.dueAt, message: input.message || null, note: input.note || null },
+    });
+
+    return NextResponse.json({ scheduled, status: 'success' }, { status: 201 });
+  } catch (error) {
+    console.error('[admin-ui] Failed to schedule message:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
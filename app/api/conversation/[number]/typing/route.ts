@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { parseSenderIdentity } from '@/lib/identity';
+import { clearTyping, recordTyping } from '@/lib/assignments';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function updateTyping(request: Request, number: string, typing: boolean) {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+  if (!hasPermission(admin.role, 'messages:send')) {
+    return forbiddenResponse();
+  }
+
+  const identity = parseSenderIdentity(number);
+  if (!identity.docId) {
+    return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+  }
+
+  const db = getFirestoreDb();
+  if (typing) {
+    await recordTyping(db, identity.docId, admin);
+  } else {
+    await clearTyping(db, identity.docId, admin.uid);
+  }
+
+  return NextResponse.json({ senderNumber: identity.docId, typing, status: 'success' });
+}
+
+export async function POST(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateTyping(request, params.number, true);
+  } catch (error) {
+    console.error('[admin-ui] Failed to record typing indicator:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { number: string } }) {
+  try {
+    return await updateTyping(request, params.number, false);
+  } catch (error) {
+    console.error('[admin-ui] Failed to clear typing indicator:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
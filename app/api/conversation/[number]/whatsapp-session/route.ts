@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { parseSenderIdentity } from '@/lib/identity';
+import { getLastCustomerMessageAt } from '@/lib/whatsappHsm';
+import { getWhatsappSessionState } from '@/lib/whatsappTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: { params: { number: string } }) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const lastCustomerMessageAt = await getLastCustomerMessageAt(db, identity.docId);
+
+    return NextResponse.json({
+      senderNumber: identity.docId,
+      lastCustomerMessageAt,
+      ...getWhatsappSessionState(lastCustomerMessageAt),
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch WhatsApp session state:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
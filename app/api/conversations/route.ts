@@ -1,75 +1,120 @@
 import { NextResponse } from 'next/server';
-import type { Timestamp } from 'firebase-admin/firestore';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
 import { getFirestoreDb } from '@/lib/firebaseAdmin';
-import { getSnoozeInfo, normalizeSenderNumber } from '@/lib/snooze';
-import { parseSenderIdentity } from '@/lib/identity';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { getSnoozeInfoBulk, normalizeSenderNumber } from '@/lib/snooze';
+import type { SnoozeInfo } from '@/lib/snooze';
+import { getCustomerSummariesByIdentity } from '@/lib/customers';
+import type { CustomerSummary } from '@/lib/customers';
+import { getReadStates } from '@/lib/readMarkers';
+import { serializeConversation } from '@/lib/conversations';
+import { decodeTimestampCursor, encodeCursor, parseLimit } from '@/lib/pagination';
+import type { TimestampCursor } from '@/lib/pagination';
+import { getActivityRange, matchesConversationFilters, parseConversationFilters } from '@/lib/conversationFilters';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-function serializeTimestamp(timestamp: Timestamp | Date | null | undefined) {
-  if (!timestamp) return null;
-  if (timestamp instanceof Date) {
-    return timestamp.toISOString();
-  }
-  if ('toDate' in timestamp && typeof timestamp.toDate === 'function') {
-    return timestamp.toDate().toISOString();
-  }
-  return null;
-}
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Batas dokumen yang diperiksa per request saat filter aktif; sisa hasil diambil lewat cursor.
+const MAX_SCANNED_DOCS = 1000;
 
 export async function GET(request: Request) {
   try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
     const { searchParams } = new URL(request.url);
-    const limitParam = searchParams.get('limit');
-    const parsedLimit = limitParam ? parseInt(limitParam, 10) : 100;
-    const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? parsedLimit : 100;
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+    const cursorParam = searchParams.get('cursor');
+    const cursor = decodeTimestampCursor(cursorParam);
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Cursor tidak valid.' }, { status: 400 });
+    }
+
+    const filters = parseConversationFilters(searchParams);
+    const { fromMillis, toMillis } = getActivityRange(filters);
 
     const db = getFirestoreDb();
-    const snapshot = await db.collection('directMessages').get();
-
-    const conversations = await Promise.all(
-      snapshot.docs.map(async (doc) => {
-        const data = doc.data() || {};
-        const updatedAt = serializeTimestamp(data.updatedAt);
-        const lastMessageAt = serializeTimestamp(data.lastMessageAt);
-        const identity = parseSenderIdentity(doc.id);
-        const effectiveChannel = (data.channel as string) && data.channel !== 'unknown'
-          ? String(data.channel)
-          : identity.channel;
-        const platformId = (data.platformId as string) || identity.platformId || identity.docId;
-        const snoozeInfo = await getSnoozeInfo(db, normalizeSenderNumber(doc.id));
-
-        return {
-          id: doc.id,
-          senderNumber: doc.id,
-          name: data.name || null,
-          lastMessage: data.lastMessage || null,
-          lastMessageSender: data.lastMessageSender || null,
-          lastMessageAt,
-          updatedAt,
-          messageCount: typeof data.messageCount === 'number' ? data.messageCount : null,
-          channel: effectiveChannel,
-          platformId,
-          aiPaused: snoozeInfo.active,
-          aiPausedUntil: snoozeInfo.expiresAt,
-          aiPausedManual: snoozeInfo.manual,
-          aiPausedReason: snoozeInfo.reason,
-          label: data.customerLabel || null,
-          labelReason: data.labelReason || null,
-        };
-      })
-    );
+    const matches: { doc: QueryDocumentSnapshot; snoozeInfo: SnoozeInfo; customer?: CustomerSummary }[] = [];
+    let startAfter = cursor
+      ? [new Timestamp(cursor.seconds, cursor.nanoseconds), cursor.id] as const
+      : null;
+    let scanned = 0;
+    let exhausted = false;
+    let lastScanned: TimestampCursor | null = null;
 
-    conversations.sort((a, b) => {
-      const timeA = a.updatedAt ? Date.parse(a.updatedAt) : 0;
-      const timeB = b.updatedAt ? Date.parse(b.updatedAt) : 0;
-      return timeB - timeA;
-    });
+    // Rentang tanggal memakai field urutan yang sama sehingga tidak butuh composite index;
+    // filter lain diterapkan di memori per batch, dibatasi MAX_SCANNED_DOCS.
+    while (matches.length < limit && scanned < MAX_SCANNED_DOCS && !exhausted) {
+      // Dokumen tanpa `updatedAt` tidak ikut terurut; percakapan lama diisi lewat
+      // `/api/maintenance/conversation-updated-at`.
+      let query = db
+        .collection('directMessages')
+        .orderBy('updatedAt', 'desc')
+        .orderBy(FieldPath.documentId(), 'desc')
+        .limit(limit);
 
-    const limited = conversations.slice(0, limit);
+      if (fromMillis !== null) {
+        query = query.where('updatedAt', '>=', Timestamp.fromMillis(fromMillis));
+      }
+      if (toMillis !== null) {
+        query = query.where('updatedAt', '<=', Timestamp.fromMillis(toMillis));
+      }
+      if (startAfter) {
+        query = query.startAfter(...startAfter);
+      }
 
-    return NextResponse.json({ conversations: limited, count: limited.length, status: 'success' });
+      const snapshot = await query.get();
+      exhausted = snapshot.docs.length < limit;
+      scanned += snapshot.docs.length;
+
+      const [snoozeInfoByNumber, customersByIdentity] = await Promise.all([
+        getSnoozeInfoBulk(
+          db,
+          snapshot.docs.map((doc) => normalizeSenderNumber(doc.id))
+        ),
+        getCustomerSummariesByIdentity(db, snapshot.docs.map((doc) => doc.id)),
+      ]);
+
+      for (const doc of snapshot.docs) {
+        const updatedAt = doc.get('updatedAt') as Timestamp | undefined;
+        if (updatedAt) {
+          lastScanned = { seconds: updatedAt.seconds, nanoseconds: updatedAt.nanoseconds, id: doc.id };
+          startAfter = [updatedAt, doc.id] as const;
+        }
+
+        const snoozeInfo = snoozeInfoByNumber[normalizeSenderNumber(doc.id)];
+        const customer = customersByIdentity[doc.id];
+        const conversation = serializeConversation(doc, snoozeInfo, { customer });
+        if (matchesConversationFilters(conversation, filters, admin.uid)) {
+          matches.push({ doc, snoozeInfo, customer });
+          if (matches.length >= limit) break;
+        }
+      }
+    }
+
+    // Status baca hanya dihitung untuk percakapan yang lolos filter.
+    const readStates = await getReadStates(db, admin.uid, matches.map(({ doc }) => doc));
+    const conversations = matches.map(({ doc, snoozeInfo, customer }) =>
+      serializeConversation(doc, snoozeInfo, { customer, readState: readStates[doc.id] })
+    );
+
+    const nextCursor = !exhausted || conversations.length >= limit
+      ? lastScanned ? encodeCursor(lastScanned) : null
+      : null;
+
+    return NextResponse.json({
+      conversations,
+      count: conversations.length,
+      nextCursor,
+      status: 'success',
+    });
   } catch (error) {
     console.error('[admin-ui] Failed to fetch conversations:', error);
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { parseSenderIdentity } from '@/lib/identity';
+import { getCustomerForIdentity, getMergedCustomerHistory } from '@/lib/customers';
+import { parseLimit } from '@/lib/pagination';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 300;
+
+export async function GET(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor pelanggan tidak valid.' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+
+    const db = getFirestoreDb();
+    const customer = await getCustomerForIdentity(db, identity.docId);
+    const history = await getMergedCustomerHistory(db, customer, limit);
+
+    return NextResponse.json({ customer, history, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch merged customer history:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
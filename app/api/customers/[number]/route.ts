@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { normalizeSenderNumber, parseSenderIdentity } from '@/lib/identity';
+import { getCustomerForIdentity, parseCustomerProfileInput, saveCustomerProfile } from '@/lib/customers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor pelanggan tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const customer = await getCustomerForIdentity(db, identity.docId);
+
+    return NextResponse.json({ customer, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch customer:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'customers:update')) {
+      return forbiddenResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor pelanggan tidak valid.' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Body profil tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const previous = await getCustomerForIdentity(db, identity.docId);
+    const profile = parseCustomerProfileInput(body, previous);
+    const customer = await saveCustomerProfile(db, identity.docId, profile, { updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'customer.update',
+      senderNumber: normalizeSenderNumber(identity.docId),
+      targetId: customer.id,
+      before: { name: previous.name, notes: previous.notes, vehicle: previous.vehicle, tags: previous.tags },
+      after: profile,
+    });
+
+    return NextResponse.json({ customer, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update customer profile:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
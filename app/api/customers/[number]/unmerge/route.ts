@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { normalizeSenderNumber, parseSenderIdentity } from '@/lib/identity';
+import { getCustomerForIdentity, unmergeCustomerIdentity } from '@/lib/customers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { number: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'customers:update')) {
+      return forbiddenResponse();
+    }
+
+    const identity = parseSenderIdentity(params.number);
+    if (!identity.docId) {
+      return NextResponse.json({ error: 'Nomor pelanggan tidak valid.' }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const previous = await getCustomerForIdentity(db, identity.docId);
+    if (!previous.id) {
+      return NextResponse.json({ error: 'Percakapan ini belum digabung ke profil mana pun.' }, { status: 409 });
+    }
+
+    const customer = await unmergeCustomerIdentity(db, identity.docId, { updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'customer.unmerge',
+      senderNumber: normalizeSenderNumber(identity.docId),
+      targetId: previous.id,
+      before: previous,
+      after: customer,
+    });
+
+    return NextResponse.json({ customer, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to unmerge customer identity:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLogs } from '@/lib/audit';
+import { mergeCustomerIdentities, parseMergeIdentities } from '@/lib/customers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'customers:update')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { docIds, error } = parseMergeIdentities(body?.senderNumbers);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const customer = await mergeCustomerIdentities(db, docIds, {
+      name: typeof body?.name === 'string' ? body.name.trim() : null,
+      updatedBy: admin.email,
+    });
+
+    // Dicatat per percakapan supaya penggabungan muncul di riwayat audit masing-masing.
+    await writeAuditLogs(
+      db,
+      docIds.map((senderNumber) => ({
+        actor: admin,
+        action: 'customer.merge' as const,
+        senderNumber,
+        targetId: customer.id,
+        before: { senderNumbers: docIds },
+        after: customer,
+      }))
+    );
+
+    return NextResponse.json({ customer, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to merge customers:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
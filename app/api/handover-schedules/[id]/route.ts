@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  HANDOVER_SCHEDULE_COLLECTION,
+  deleteHandoverSchedule,
+  parseScheduleInput,
+  saveHandoverSchedule,
+  serializeSchedule,
+} from '@/lib/handoverSchedule';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'ai:disable')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(HANDOVER_SCHEDULE_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Jadwal tidak ditemukan.' }, { status: 404 });
+    }
+
+    const previous = serializeSchedule(snapshot);
+    const body = await request.json().catch(() => ({}));
+    const { input, error } = parseScheduleInput({ ...previous, ...body });
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const schedule = await saveHandoverSchedule(db, input, { id: params.id, updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'ai.schedule',
+      targetId: params.id,
+      before: previous,
+      after: schedule,
+    });
+
+    return NextResponse.json({ schedule, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update handover schedule:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'ai:disable')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(HANDOVER_SCHEDULE_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Jadwal tidak ditemukan.' }, { status: 404 });
+    }
+
+    await deleteHandoverSchedule(db, params.id);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'ai.schedule',
+      targetId: params.id,
+      before: serializeSchedule(snapshot),
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to delete handover schedule:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  evaluateSchedules,
+  listHandoverSchedules,
+  parseScheduleInput,
+  saveHandoverSchedule,
+  selectSchedulesForChannel,
+} from '@/lib/handoverSchedule';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const db = getFirestoreDb();
+    const schedules = await listHandoverSchedules(db);
+    const channels = Array.from(
+      new Set(schedules.map((schedule) => schedule.channel).filter((channel): channel is string => Boolean(channel)))
+    );
+
+    // Status efektif jadwal umum dan tiap kanal yang punya jadwal sendiri, untuk ringkasan di console.
+    const effective = [null, ...channels].map((channel) => ({
+      channel,
+      ...evaluateSchedules(selectSchedulesForChannel(schedules, channel)),
+    }));
+
+    return NextResponse.json({ schedules, effective, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch handover schedules:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'ai:disable')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { input, error } = parseScheduleInput(body);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    const schedule = await saveHandoverSchedule(db, input, { updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'ai.schedule',
+      targetId: schedule.id,
+      before: null,
+      after: schedule,
+    });
+
+    return NextResponse.json({ schedule, status: 'success' }, { status: 201 });
+  } catch (error) {
+    console.error('[admin-ui] Failed to create handover schedule:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { listLabelDefinitions } from '@/lib/labels';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const labels = await listLabelDefinitions(getFirestoreDb());
+    return NextResponse.json({ labels, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch label definitions:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { backfillCustomerActivity } from '@/lib/conversationBackfill';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Backfill penghitung dan waktu pesan pelanggan terakhir untuk percakapan lama, satu halaman per pemanggilan.
+ * Ulangi dengan `?cursor=<nextCursor>` sampai `nextCursor` bernilai `null`; `?dryRun=1` hanya melaporkan.
+ */
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'maintenance:run')) {
+      return forbiddenResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === '1' || searchParams.get('dryRun') === 'true';
+    const startAfter = searchParams.get('cursor') || null;
+
+    const db = getFirestoreDb();
+    const result = await backfillCustomerActivity(db, { dryRun, startAfter });
+
+    return NextResponse.json({ ...result, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to backfill customer activity:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { migrateMisKeyedSnoozes } from '@/lib/snoozeMigration';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Migrasi satu kali untuk dokumen `handoverSnoozes` yang salah kunci.
+ * Jalankan dengan `?dryRun=1` lebih dulu untuk melihat apa yang akan dipindahkan.
+ */
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'maintenance:run')) {
+      return forbiddenResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === '1' || searchParams.get('dryRun') === 'true';
+
+    const db = getFirestoreDb();
+    const result = await migrateMisKeyedSnoozes(db, { dryRun });
+
+    return NextResponse.json({ ...result, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to migrate snooze keys:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
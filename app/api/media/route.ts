@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getStorageBucket } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path')?.replace(/^\/+/, '') || '';
+
+    if (!path || path.split('/').includes('..')) {
+      return NextResponse.json({ error: 'Path media tidak valid.' }, { status: 400 });
+    }
+
+    const file = getStorageBucket().file(path);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return NextResponse.json({ error: 'Media tidak ditemukan.' }, { status: 404 });
+    }
+
+    const [signedUrl] = await file.getSignedUrl({
+      action: 'read',
+      expires: Date.now() + SIGNED_URL_TTL_MS,
+    });
+
+    return NextResponse.redirect(signedUrl);
+  } catch (error) {
+    console.error('[admin-ui] Failed to resolve media:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { deliverOutboundMessage, requeueOutboundMessage } from '@/lib/outbox';
+import { normalizeSenderNumber } from '@/lib/identity';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'messages:send')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const requeued = await requeueOutboundMessage(db, params.id);
+    if (!requeued) {
+      return NextResponse.json(
+        { error: 'Pesan tidak ditemukan atau tidak berstatus gagal.' },
+        { status: 409 }
+      );
+    }
+
+    const outboundMessage = await deliverOutboundMessage(db, params.id);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'message.resend',
+      senderNumber: outboundMessage.senderNumber
+        ? normalizeSenderNumber(outboundMessage.senderNumber)
+        : null,
+      targetId: params.id,
+      before: { status: 'failed' },
+      after: { status: outboundMessage.status, error: outboundMessage.lastError },
+    });
+
+    return NextResponse.json({ outboundMessage, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to retry outbound message:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { isCronRequest } from '@/lib/cron';
+import { processDueOutboundMessages } from '@/lib/outbox';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const db = getFirestoreDb();
+    const results = await processDueOutboundMessages(db);
+
+    return NextResponse.json({
+      processed: results.length,
+      sent: results.filter((item) => item.status === 'sent').length,
+      failed: results.filter((item) => item.status === 'failed').length,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to process outbox:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
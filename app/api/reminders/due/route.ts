@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { getSnoozeInfoBulk, normalizeSenderNumber } from '@/lib/snooze';
+import { getCustomerSummariesByIdentity } from '@/lib/customers';
+import { getReadStates } from '@/lib/readMarkers';
+import { serializeConversation } from '@/lib/conversations';
+import { listDueReminders } from '@/lib/scheduledMessages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Pengingat follow-up yang sudah jatuh tempo beserta ringkasan percakapannya, supaya console
+ * bisa menyematkannya di atas sidebar walau percakapan itu belum termuat di halaman daftar.
+ */
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const db = getFirestoreDb();
+    const reminders = await listDueReminders(db);
+    const docIds = Array.from(new Set(reminders.map((item) => item.senderNumber).filter(Boolean))) as string[];
+
+    const snapshots = docIds.length
+      ? await db.getAll(...docIds.map((docId) => db.collection('directMessages').doc(docId)))
+      : [];
+    const docs = snapshots.filter((doc) => doc.exists);
+
+    const [snoozeInfoByNumber, customersByIdentity, readStates] = await Promise.all([
+      getSnoozeInfoBulk(db, docs.map((doc) => normalizeSenderNumber(doc.id))),
+      getCustomerSummariesByIdentity(db, docs.map((doc) => doc.id)),
+      getReadStates(db, admin.uid, docs),
+    ]);
+
+    const conversationsById = new Map(
+      docs.map((doc) => [
+        doc.id,
+        serializeConversation(doc, snoozeInfoByNumber[normalizeSenderNumber(doc.id)], {
+          customer: customersByIdentity[doc.id],
+          readState: readStates[doc.id],
+        }),
+      ])
+    );
+
+    return NextResponse.json({
+      reminders: reminders.map((reminder) => ({
+        ...reminder,
+        conversation: (reminder.senderNumber && conversationsById.get(reminder.senderNumber)) || null,
+      })),
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch due reminders:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  REPLY_TEMPLATE_COLLECTION,
+  deleteReplyTemplate,
+  isShortcutTaken,
+  parseReplyTemplateInput,
+  saveReplyTemplate,
+  serializeReplyTemplate,
+} from '@/lib/replyTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'templates:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(REPLY_TEMPLATE_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Template tidak ditemukan.' }, { status: 404 });
+    }
+
+    const previous = serializeReplyTemplate(snapshot);
+    const body = await request.json().catch(() => ({}));
+    const { input, error } = parseReplyTemplateInput({ ...previous, ...body });
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (await isShortcutTaken(db, input.shortcut, params.id)) {
+      return NextResponse.json({ error: `Shortcut /${input.shortcut} sudah dipakai.` }, { status: 409 });
+    }
+
+    const template = await saveReplyTemplate(db, input, { id: params.id, updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'template.update',
+      targetId: params.id,
+      before: previous,
+      after: template,
+    });
+
+    return NextResponse.json({ template, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to update reply template:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'templates:manage')) {
+      return forbiddenResponse();
+    }
+
+    const db = getFirestoreDb();
+    const snapshot = await db.collection(REPLY_TEMPLATE_COLLECTION).doc(params.id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: 'Template tidak ditemukan.' }, { status: 404 });
+    }
+
+    await deleteReplyTemplate(db, params.id);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'template.update',
+      targetId: params.id,
+      before: serializeReplyTemplate(snapshot),
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to delete reply template:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
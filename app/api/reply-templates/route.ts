@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import {
+  isShortcutTaken,
+  listReplyTemplates,
+  parseReplyTemplateInput,
+  saveReplyTemplate,
+} from '@/lib/replyTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const db = getFirestoreDb();
+    const templates = await listReplyTemplates(db);
+
+    return NextResponse.json({ templates, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch reply templates:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'templates:manage')) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { input, error } = parseReplyTemplateInput(body);
+    if (!input) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const db = getFirestoreDb();
+    if (await isShortcutTaken(db, input.shortcut)) {
+      return NextResponse.json({ error: `Shortcut /${input.shortcut} sudah dipakai.` }, { status: 409 });
+    }
+
+    const template = await saveReplyTemplate(db, input, { updatedBy: admin.email });
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'template.update',
+      targetId: template.id,
+      before: null,
+      after: template,
+    });
+
+    return NextResponse.json({ template, status: 'success' }, { status: 201 });
+  } catch (error) {
+    console.error('[admin-ui] Failed to create reply template:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
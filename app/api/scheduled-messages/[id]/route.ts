@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { normalizeSenderNumber } from '@/lib/identity';
+import { closeScheduledMessage } from '@/lib/scheduledMessages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function closeSchedule(request: Request, id: string, status: 'cancelled' | 'done') {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+  if (!hasPermission(admin.role, 'messages:send')) {
+    return forbiddenResponse();
+  }
+
+  const db = getFirestoreDb();
+  const previous = await closeScheduledMessage(db, id, status);
+  if (!previous) {
+    return NextResponse.json(
+      { error: status === 'done' ? 'Pengingat belum jatuh tempo atau sudah ditutup.' : 'Jadwal sudah diproses atau tidak ditemukan.' },
+      { status: 409 }
+    );
+  }
+
+  await writeAuditLog(db, {
+    actor: admin,
+    action: 'message.schedule',
+    senderNumber: previous.senderNumber ? normalizeSenderNumber(previous.senderNumber) : null,
+    targetId: id,
+    before: { kind: previous.kind, status: previous.status, dueAt: previous.dueAt },
+    after: { kind: previous.kind, status, dueAt: previous.dueAt },
+  });
+
+  return NextResponse.json({ id, status: 'success' });
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (body?.status !== 'done') {
+      return NextResponse.json({ error: 'Status hanya bisa diubah menjadi "done".' }, { status: 400 });
+    }
+
+    return await closeSchedule(request, params.id, 'done');
+  } catch (error) {
+    console.error('[admin-ui] Failed to complete reminder:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    return await closeSchedule(request, params.id, 'cancelled');
+  } catch (error) {
+    console.error('[admin-ui] Failed to cancel scheduled message:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { isCronRequest } from '@/lib/cron';
+import { processDueScheduledMessages } from '@/lib/scheduledMessages';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const db = getFirestoreDb();
+    const results = await processDueScheduledMessages(db);
+
+    return NextResponse.json({
+      processed: results.length,
+      dispatched: results.filter((item) => item.status === 'dispatched').length,
+      reminders: results.filter((item) => item.status === 'due').length,
+      failed: results.filter((item) => item.status === 'failed').length,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to process scheduled messages:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { parseSenderIdentity } from '@/lib/identity';
+import { getCustomerSummariesByIdentity } from '@/lib/customers';
+import { parseLimit } from '@/lib/pagination';
+import { getSearchIndexStats, searchConversationMessages, searchMessages } from '@/lib/search';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+const MIN_QUERY_LENGTH = 2;
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Kata kunci minimal ${MIN_QUERY_LENGTH} karakter.` },
+        { status: 400 }
+      );
+    }
+
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+    const numberParam = searchParams.get('number');
+    const senderNumber = numberParam ? parseSenderIdentity(numberParam).docId : null;
+
+    const db = getFirestoreDb();
+    // Indeks global diperbarui oleh cron; pencarian di satu percakapan membaca pesannya langsung.
+    const [matches, indexStats] = await Promise.all([
+      senderNumber
+        ? searchConversationMessages(db, senderNumber, query, { limit })
+        : searchMessages(db, query, { limit }),
+      getSearchIndexStats(db),
+    ]);
+
+    const senderNumbers = Array.from(new Set(matches.map((match) => match.senderNumber)));
+    const [conversationDocs, customersByIdentity] = await Promise.all([
+      senderNumbers.length
+        ? db.getAll(...senderNumbers.map((number) => db.collection('directMessages').doc(number)))
+        : Promise.resolve([]),
+      getCustomerSummariesByIdentity(db, senderNumbers),
+    ]);
+    const namesByNumber = new Map(conversationDocs.map((doc) => [doc.id, (doc.get('name') as string) || null]));
+
+    const results = matches.map((match) => ({
+      ...match,
+      name: customersByIdentity[match.senderNumber]?.name || namesByNumber.get(match.senderNumber) || null,
+      channel: parseSenderIdentity(match.senderNumber).channel,
+    }));
+
+    return NextResponse.json({
+      query,
+      results,
+      count: results.length,
+      index: indexStats,
+      status: 'success',
+    });
+  } catch (error) {
+    console.error('[admin-ui] Failed to search messages:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
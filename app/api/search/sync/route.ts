@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { isCronRequest } from '@/lib/cron';
+import { syncSearchIndex } from '@/lib/search';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+    }
+
+    const db = getFirestoreDb();
+    const result = await syncSearchIndex(db);
+
+    return NextResponse.json({ ...result, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to sync search index:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
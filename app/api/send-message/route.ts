@@ -1,19 +1,65 @@
 import { NextResponse } from 'next/server';
-
-const backendBase = [
-  process.env.API_BASE_URL,
-  process.env.NEXT_PUBLIC_API_BASE_URL,
-]
-  .find((value) => typeof value === 'string' && value.trim().length > 0)
-  ?.replace(/\/$/, '');
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { deliverOutboundMessage, enqueueOutboundMessage } from '@/lib/outbox';
+import type { OutboundMedia } from '@/lib/outbox';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { normalizeSenderNumber } from '@/lib/identity';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// Batas ukuran media WhatsApp Business API.
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+const MAX_MEDIA_ITEMS = 10;
+
+function parseMediaPayload(value: unknown): { media: OutboundMedia[]; error: string | null } {
+  if (typeof value === 'undefined' || value === null) {
+    return { media: [], error: null };
+  }
+  if (!Array.isArray(value)) {
+    return { media: [], error: 'Parameter "media" harus berupa array.' };
+  }
+  if (value.length > MAX_MEDIA_ITEMS) {
+    return { media: [], error: `Maksimal ${MAX_MEDIA_ITEMS} lampiran per pesan.` };
+  }
+
+  const media: OutboundMedia[] = [];
+  for (const item of value) {
+    const { type, mimetype, base64, fileName, caption } = (item ?? {}) as Record<string, unknown>;
+    if (typeof base64 !== 'string' || !base64 || typeof mimetype !== 'string' || !mimetype) {
+      return { media: [], error: 'Setiap lampiran wajib memiliki "mimetype" dan "base64".' };
+    }
+    // Panjang base64 kira-kira 4/3 dari ukuran file aslinya.
+    if (Math.floor((base64.length * 3) / 4) > MAX_MEDIA_BYTES) {
+      return { media: [], error: 'Ukuran lampiran melebihi 16 MB.' };
+    }
+    media.push({
+      type: typeof type === 'string' && type ? type : 'document',
+      mimetype,
+      base64,
+      fileName: typeof fileName === 'string' ? fileName : null,
+      caption: typeof caption === 'string' ? caption : null,
+    });
+  }
+
+  return { media, error: null };
+}
+
 export async function POST(request: Request) {
   try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'messages:send')) {
+      return forbiddenResponse();
+    }
+
     const payload = await request.json();
     const { number, message, channel, platformId } = payload ?? {};
+    const { media, error: mediaError } = parseMediaPayload(payload?.media);
 
     if (!number || typeof number !== 'string') {
       return NextResponse.json(
@@ -22,45 +68,55 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json(
-        { error: 'Parameter "message" wajib diisi.' },
-        { status: 400 }
-      );
+    if (mediaError) {
+      return NextResponse.json({ error: mediaError }, { status: 400 });
     }
 
-    if (!backendBase) {
+    const hasMessage = typeof message === 'string' && message.trim().length > 0;
+    if (!hasMessage && !media.length) {
       return NextResponse.json(
-        { error: 'API backend belum dikonfigurasi.' },
-        { status: 500 }
+        { error: 'Parameter "message" wajib diisi.' },
+        { status: 400 }
       );
     }
 
-    const targetUrl = `${backendBase}/send-message`;
-    const response = await fetch(targetUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ number, message, channel, platformId }),
+    // Setiap balasan dicatat di outbox dulu supaya tidak hilang saat backend sedang down;
+    // percobaan pertama langsung dijalankan, sisanya diulang oleh cron dengan backoff.
+    const db = getFirestoreDb();
+    const outboxId = await enqueueOutboundMessage(db, {
+      number,
+      message: hasMessage ? message : '',
+      channel: typeof channel === 'string' ? channel : null,
+      platformId: typeof platformId === 'string' ? platformId : null,
+      media,
+      createdBy: admin,
     });
+    const outboundMessage = await deliverOutboundMessage(db, outboxId);
 
-    const contentType = response.headers.get('content-type') ?? '';
-    const isJson = contentType.includes('application/json');
-    const raw = isJson ? await response.json() : await response.text();
-
-    if (!response.ok) {
-      const errorMessage =
-        typeof raw === 'string' ? raw : raw?.error || 'Gagal mengirim pesan ke backend.';
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: response.status }
-      );
-    }
-
-    if (typeof raw === 'string') {
-      return NextResponse.json({ success: true, message: raw });
-    }
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'message.send',
+      senderNumber: normalizeSenderNumber(number),
+      targetId: outboxId,
+      before: null,
+      after: {
+        message: hasMessage ? message : '',
+        media: media.map(({ type, mimetype, fileName }) => ({ type, mimetype, fileName })),
+        channel: channel || null,
+        delivered: outboundMessage.status === 'sent',
+        status: outboundMessage.status,
+        error: outboundMessage.lastError,
+      },
+    });
 
-    return NextResponse.json(raw);
+    return NextResponse.json(
+      {
+        success: outboundMessage.status === 'sent',
+        outboundMessage,
+        status: 'success',
+      },
+      { status: outboundMessage.status === 'sent' ? 200 : 202 }
+    );
   } catch (error) {
     console.error('[admin-ui] Failed to proxy send-message:', error);
     return NextResponse.json(
@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import { forbiddenResponse, getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { deliverOutboundMessage, enqueueOutboundMessage } from '@/lib/outbox';
+import { hasPermission } from '@/lib/permissions';
+import { writeAuditLog } from '@/lib/audit';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { normalizeSenderNumber, parseSenderIdentity } from '@/lib/identity';
+import { findApprovedWhatsappTemplate } from '@/lib/whatsappHsm';
+import { renderWhatsappTemplate } from '@/lib/whatsappTemplates';
+import type { WhatsappTemplate } from '@/lib/whatsappTemplates';
+import { readRecord } from '@/lib/values';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function parseParameterList(value: unknown, expected: number, part: string): { values: string[]; error: string | null } {
+  const values = Array.isArray(value) ? value.map((item) => (typeof item === 'string' ? item.trim() : '')) : [];
+  if (values.length !== expected || values.some((item) => !item)) {
+    return { values: [], error: `Template membutuhkan ${expected} parameter ${part} yang terisi.` };
+  }
+  // Cloud API menolak parameter berisi baris baru atau tab.
+  if (values.some((item) => /[\n\t]/.test(item))) {
+    return { values: [], error: 'Parameter template tidak boleh berisi baris baru atau tab.' };
+  }
+  return { values, error: null };
+}
+
+function parseTemplateParameters(body: unknown, template: WhatsappTemplate) {
+  const parameters = readRecord(readRecord(body).parameters);
+  const header = parseParameterList(parameters.header ?? [], template.headerParameterCount, 'header');
+  if (header.error) return { parameters: null, error: header.error };
+  const content = parseParameterList(parameters.body ?? [], template.bodyParameterCount, 'isi');
+  if (content.error) return { parameters: null, error: content.error };
+  return { parameters: { header: header.values, body: content.values }, error: null };
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+    if (!hasPermission(admin.role, 'messages:send')) {
+      return forbiddenResponse();
+    }
+
+    const payload = await request.json().catch(() => ({}));
+    const { number, platformId, templateName, language } = payload ?? {};
+
+    if (!number || typeof number !== 'string') {
+      return NextResponse.json({ error: 'Parameter "number" wajib diisi.' }, { status: 400 });
+    }
+    if (parseSenderIdentity(number).channel !== 'whatsapp') {
+      return NextResponse.json({ error: 'Template hanya bisa dikirim ke percakapan WhatsApp.' }, { status: 400 });
+    }
+    if (typeof templateName !== 'string' || !templateName || typeof language !== 'string' || !language) {
+      return NextResponse.json({ error: 'Parameter "templateName" dan "language" wajib diisi.' }, { status: 400 });
+    }
+
+    // Template selalu dicek ulang ke daftar yang disetujui, bukan dipercaya dari browser.
+    const { template, error: catalogError } = await findApprovedWhatsappTemplate(templateName, language);
+    if (!template) {
+      return NextResponse.json(
+        { error: catalogError || 'Template tidak ditemukan atau belum disetujui.' },
+        { status: catalogError ? 502 : 400 }
+      );
+    }
+
+    const { parameters, error } = parseTemplateParameters(payload, template);
+    if (!parameters) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const message = renderWhatsappTemplate(template, parameters);
+    const db = getFirestoreDb();
+    const outboxId = await enqueueOutboundMessage(db, {
+      number,
+      message,
+      channel: 'whatsapp',
+      platformId: typeof platformId === 'string' ? platformId : null,
+      media: [],
+      template: {
+        name: template.name,
+        language: template.language,
+        headerParameters: parameters.header,
+        bodyParameters: parameters.body,
+      },
+      createdBy: admin,
+    });
+    const outboundMessage = await deliverOutboundMessage(db, outboxId);
+
+    await writeAuditLog(db, {
+      actor: admin,
+      action: 'message.send',
+      senderNumber: normalizeSenderNumber(number),
+      targetId: outboxId,
+      before: null,
+      after: {
+        message,
+        template: template.name,
+        language: template.language,
+        channel: 'whatsapp',
+        delivered: outboundMessage.status === 'sent',
+        status: outboundMessage.status,
+        error: outboundMessage.lastError,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: outboundMessage.status === 'sent',
+        outboundMessage,
+        status: 'success',
+      },
+      { status: outboundMessage.status === 'sent' ? 200 : 202 }
+    );
+  } catch (error) {
+    console.error('[admin-ui] Failed to proxy send-template:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || 'Terjadi kesalahan internal.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import type { DocumentSnapshot } from 'firebase-admin/firestore';
+import { getFirestoreDb } from '@/lib/firebaseAdmin';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { getGlobalAiPause, getSnoozeInfo, getSnoozeInfoBulk, globalAiPauseRef, normalizeSenderNumber } from '@/lib/snooze';
+import { getSenderKey, parseSenderIdentity } from '@/lib/identity';
+import { getCustomerSummariesByIdentity } from '@/lib/customers';
+import { getReadStates } from '@/lib/readMarkers';
+import { getTypingAdmins, typingIndicatorRef } from '@/lib/assignments';
+import { serializeConversation, serializeMessage } from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Jumlah percakapan teratas yang dipantau. Perubahan di luar jendela ini tetap
+// terlihat karena dokumen yang baru diperbarui selalu naik ke urutan teratas.
+const CONVERSATION_WINDOW = 50;
+const HISTORY_WINDOW = 50;
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export async function GET(request: Request) {
+  const admin = await getRequestAdmin(request);
+  if (!admin) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const identity = parseSenderIdentity(searchParams.get('number'));
+  const db = getFirestoreDb();
+  const encoder = new TextEncoder();
+
+  let cleanup: () => void = () => undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const unsubscribers: Array<() => void> = [];
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+        try {
+          controller.close();
+        } catch {
+          // Stream sudah ditutup oleh klien.
+        }
+      };
+
+      const handleListenerError = (error: Error) => {
+        console.error('[admin-ui] Stream listener failed:', error);
+        send('error', { error: error.message });
+        close();
+      };
+
+      cleanup = close;
+      request.signal.addEventListener('abort', close);
+
+      // Snapshot pertama dilewati: klien sudah memegang data awal dari endpoint REST.
+      let isInitialConversationSnapshot = true;
+      unsubscribers.push(
+        db
+          .collection('directMessages')
+          .orderBy('updatedAt', 'desc')
+          .limit(CONVERSATION_WINDOW)
+          .onSnapshot(async (snapshot) => {
+            if (isInitialConversationSnapshot) {
+              isInitialConversationSnapshot = false;
+              return;
+            }
+
+            const changedDocs: DocumentSnapshot[] = snapshot
+              .docChanges()
+              .filter((change) => change.type !== 'removed')
+              .map((change) => change.doc);
+            if (!changedDocs.length) return;
+
+            try {
+              const [snoozeInfoByNumber, customersByIdentity, readStates] = await Promise.all([
+                getSnoozeInfoBulk(
+                  db,
+                  changedDocs.map((doc) => normalizeSenderNumber(doc.id))
+                ),
+                getCustomerSummariesByIdentity(db, changedDocs.map((doc) => doc.id)),
+                getReadStates(db, admin.uid, changedDocs),
+              ]);
+              send('conversations', {
+                conversations: changedDocs.map((doc) =>
+                  serializeConversation(doc, snoozeInfoByNumber[normalizeSenderNumber(doc.id)], {
+                    customer: customersByIdentity[doc.id],
+                    readState: readStates[doc.id],
+                  })
+                ),
+              });
+            } catch (error) {
+              handleListenerError(error as Error);
+            }
+          }, handleListenerError)
+      );
+
+      let isInitialGlobalSnapshot = true;
+      unsubscribers.push(
+        globalAiPauseRef(db).onSnapshot(async () => {
+          if (isInitialGlobalSnapshot) {
+            isInitialGlobalSnapshot = false;
+            return;
+          }
+
+          try {
+            send('ai-global', await getGlobalAiPause(db));
+          } catch (error) {
+            handleListenerError(error as Error);
+          }
+        }, handleListenerError)
+      );
+
+      if (identity.docId) {
+        let isInitialHistorySnapshot = true;
+        unsubscribers.push(
+          db
+            .collection('directMessages')
+            .doc(identity.docId)
+            .collection('messages')
+            .orderBy('timestamp', 'desc')
+            .limit(HISTORY_WINDOW)
+            .onSnapshot((snapshot) => {
+              if (isInitialHistorySnapshot) {
+                isInitialHistorySnapshot = false;
+                return;
+              }
+
+              const messages = snapshot
+                .docChanges()
+                .filter((change) => change.type !== 'removed')
+                .map((change) => serializeMessage(change.doc));
+              if (!messages.length) return;
+
+              send('history', { senderNumber: identity.docId, messages });
+            }, handleListenerError)
+        );
+
+        // Snapshot awal ikut dikirim supaya indikator langsung muncul saat percakapan dibuka.
+        unsubscribers.push(
+          typingIndicatorRef(db, identity.docId).onSnapshot((snapshot) => {
+            send('typing', {
+              senderNumber: identity.docId,
+              admins: getTypingAdmins(snapshot.data(), admin.uid),
+            });
+          }, handleListenerError)
+        );
+
+        let isInitialSnoozeSnapshot = true;
+        unsubscribers.push(
+          db
+            .collection('handoverSnoozes')
+            .doc(getSenderKey(identity))
+            .onSnapshot(async () => {
+              if (isInitialSnoozeSnapshot) {
+                isInitialSnoozeSnapshot = false;
+                return;
+              }
+
+              try {
+                // Dihitung ulang lewat getSnoozeInfo supaya jadwal handover ikut diperhitungkan.
+                const info = await getSnoozeInfo(db, getSenderKey(identity));
+                send('ai-state', { senderNumber: identity.docId, aiPaused: info.active, aiPauseInfo: info });
+              } catch (error) {
+                handleListenerError(error as Error);
+              }
+            }, handleListenerError)
+        );
+      }
+
+      send('ready', { senderNumber: identity.docId || null });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
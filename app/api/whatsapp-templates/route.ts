@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getRequestAdmin, unauthorizedResponse } from '@/lib/auth';
+import { listApprovedWhatsappTemplates } from '@/lib/whatsappHsm';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const admin = await getRequestAdmin(request);
+    if (!admin) {
+      return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { templates, error } = await listApprovedWhatsappTemplates({ force: searchParams.get('refresh') === '1' });
+    if (error && !templates.length) {
+      return NextResponse.json({ error }, { status: 502 });
+    }
+
+    return NextResponse.json({ templates, status: 'success' });
+  } catch (error) {
+    console.error('[admin-ui] Failed to fetch WhatsApp templates:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+
+function getNextPath() {
+  if (typeof window === 'undefined') return '/';
+  const next = new URLSearchParams(window.location.search).get('next');
+  // Hanya izinkan redirect ke path internal.
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function LoginPage() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!email.trim() || !password) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Login gagal.');
+      }
+
+      window.location.replace(getNextPath());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login gagal.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="login">
+      <form className="login-card" onSubmit={handleSubmit}>
+        <img src="/logo.png" alt="Bosmat Studio" className="sidebar__logo" />
+        <h1>Masuk ke Admin Console</h1>
+        <label htmlFor="login-email">Email</label>
+        <input
+          id="login-email"
+          type="email"
+          autoComplete="username"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          required
+        />
+        <label htmlFor="login-password">Password</label>
+        <input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          required
+        />
+        {error && <div className="notice">{error}</div>}
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Memproses...' : 'Masuk'}
+        </button>
+      </form>
+    </main>
+  );
+}
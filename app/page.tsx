@@ -1,7 +1,23 @@
 'use client';
 
-import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useState, useMemo, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import useSWR from 'swr';
+import useSWRInfinite from 'swr/infinite';
+import { hasPermission, ROLE_LABELS } from '@/lib/permissions';
+import type { AdminRole, Permission } from '@/lib/permissions';
+import {
+  conversationFiltersToParams,
+  EMPTY_CONVERSATION_FILTERS,
+  hasConversationFilters,
+  matchesConversationFilters,
+  parseConversationFilters,
+} from '@/lib/conversationFilters';
+import type { ConversationFilters } from '@/lib/conversationFilters';
+import { extractTemplateVariables, fillTemplate, TEMPLATE_VARIABLES } from '@/lib/templateVariables';
+import type { TemplateValues, TemplateVariable } from '@/lib/templateVariables';
+import { getWhatsappSessionState, renderWhatsappTemplate } from '@/lib/whatsappTemplates';
+import type { WhatsappTemplate, WhatsappTemplateParameters } from '@/lib/whatsappTemplates';
+import { readRecord, readString } from '@/lib/values';
 
 const API_BASE = (process.env.NEXT_PUBLIC_API_BASE_URL || '').replace(/\/$/, '');
 
@@ -20,6 +36,36 @@ const buildApiUrl = (path: string) => {
   return `/api${normalizedPath}`;
 };
 
+const CONVERSATION_PAGE_SIZE = 50;
+const HISTORY_PAGE_SIZE = 50;
+// Batas halaman riwayat yang dimuat saat melompat ke pesan hasil pencarian.
+const SEARCH_JUMP_MAX_PAGES = 20;
+const MESSAGE_SEARCH_MIN_LENGTH = 3;
+// Selaras dengan TYPING_TTL_MS di server; sinyal mengetik dikirim ulang lebih sering dari batas ini.
+const TYPING_TTL_MS = 8000;
+const TYPING_SIGNAL_INTERVAL_MS = 3000;
+// Durasi jeda AI untuk role yang tidak boleh mematikan AI secara permanen.
+const TIMED_PAUSE_MINUTES = 60;
+
+// `null` berarti memakai durasi kunci default dari server.
+const LABEL_LOCK_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Kunci default' },
+  { value: 24 * 60, label: 'Kunci 1 hari' },
+  { value: 7 * 24 * 60, label: 'Kunci 7 hari' },
+  { value: 30 * 24 * 60, label: 'Kunci 30 hari' },
+  { value: 0, label: 'Tanpa kunci (AI boleh mengubah)' },
+];
+
+function redirectToLogin() {
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.href = `/login?next=${encodeURIComponent(next)}`;
+}
+
+async function logout() {
+  await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+  window.location.href = '/login';
+}
+
 const fetcher = async (url: string) => {
   console.log(`[Fetcher] Requesting: ${url}`);
   const res = await fetch(url, {
@@ -27,6 +73,9 @@ const fetcher = async (url: string) => {
       'ngrok-skip-browser-warning': 'true',
     },
   });
+  if (res.status === 401 && typeof window !== 'undefined') {
+    redirectToLogin();
+  }
   if (!res.ok) {
     const text = await res.text();
     // Deteksi jika respons adalah HTML (biasanya 404 Not Found atau 500 Error dari server web)
@@ -51,10 +100,54 @@ interface FirestoreTimestamp {
   nanoseconds?: number;
 }
 
+interface MessageAttachment {
+  type: 'image' | 'video' | 'audio' | 'document';
+  mimetype: string | null;
+  url: string | null;
+  storagePath: string | null;
+  caption: string | null;
+  fileName: string | null;
+  size: number | null;
+}
+
 interface ConversationMessage {
+  id?: string;
   text: string;
   sender: 'ai' | 'user' | 'admin';
   timestamp?: FirestoreTimestamp | string | null;
+  attachments?: MessageAttachment[];
+}
+
+interface ComposerAttachment {
+  file: File;
+  preview: string;
+  type: MessageAttachment['type'];
+}
+
+function getAttachmentType(mimetype: string): MessageAttachment['type'] {
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('video/')) return 'video';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]); // Remove data:mime;base64,
+    };
+    reader.onerror = (error) => reject(error);
+  });
+}
+
+function formatFileSize(bytes: number | null) {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 interface AiPauseInfo {
@@ -65,18 +158,58 @@ interface AiPauseInfo {
   reason: string | null;
   createdAt: string | null;
   updatedAt: string | null;
+  source?: 'global' | 'manual' | 'timer' | 'schedule' | null;
+  scheduleId?: string | null;
+  scheduleName?: string | null;
+  nextChangeAt?: string | null;
+}
+
+type OutboundStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+interface OutboundMessage {
+  id: string;
+  senderNumber: string | null;
+  message: string;
+  channel: string | null;
+  media: { type: string; mimetype: string; fileName: string | null; caption: string | null }[];
+  templateName?: string | null;
+  status: OutboundStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  createdByEmail: string | null;
+  createdAt: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
 }
 
+const OUTBOUND_STATUS_LABELS: Record<OutboundStatus, string> = {
+  pending: 'Menunggu percobaan ulang',
+  sending: 'Mengirim...',
+  sent: 'Terkirim',
+  failed: 'Gagal terkirim',
+};
+
 interface ConversationResponse {
   senderNumber: string;
   messageCount: number;
   history: ConversationMessage[];
+  nextCursor?: string | null;
   aiPaused?: boolean;
   aiPauseInfo?: AiPauseInfo;
   channel?: string | null;
   platformId?: string | null;
   label?: string | null;
   labelReason?: string | null;
+  labelLockedUntil?: string | null;
+  outbox?: OutboundMessage[];
+}
+
+interface GlobalAiPause {
+  paused: boolean;
+  reason: string | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
 }
 
 interface ConversationSummary {
@@ -96,11 +229,122 @@ interface ConversationSummary {
   platformId?: string | null;
   label?: string | null;
   labelReason?: string | null;
+  labelLockedUntil?: string | null;
+  customer?: CustomerSummary | null;
+  unreadCount?: number;
+  lastReadAt?: string | null;
+  markedUnread?: boolean;
+  assignedTo?: ConversationAssignee | null;
+  assignedAt?: string | null;
+}
+
+interface ConversationAssignee {
+  uid: string;
+  email: string;
+  name: string | null;
+}
+
+interface AssignableAdmin extends ConversationAssignee {
+  role: AdminRole;
+}
+
+interface TypingAdmin extends ConversationAssignee {
+  at: string;
 }
 
 interface ConversationListResponse {
   conversations: ConversationSummary[];
   count: number;
+  nextCursor: string | null;
+}
+
+interface CustomerIdentity {
+  senderNumber: string;
+  channel: string;
+  platformId: string | null;
+}
+
+interface CustomerVehicle {
+  make: string | null;
+  model: string | null;
+  color: string | null;
+  plate: string | null;
+}
+
+interface CustomerSummary {
+  id: string;
+  name: string | null;
+  tags: string[];
+  vehicle: CustomerVehicle;
+  identityCount: number;
+}
+
+interface Customer {
+  id: string;
+  name: string | null;
+  notes: string | null;
+  vehicle: CustomerVehicle;
+  tags: string[];
+  identities: CustomerIdentity[];
+  updatedBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+interface CustomerHistoryResponse {
+  customer: Customer;
+  history: (ConversationMessage & { senderNumber: string; channel: string })[];
+}
+
+interface LabelDefinition {
+  key: string;
+  displayName: string;
+  color: string | null;
+  emoji: string | null;
+  sortOrder: number;
+}
+
+interface MessageSearchResult {
+  senderNumber: string;
+  messageId: string;
+  sender: string;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+  timestamp: FirestoreTimestamp | null;
+  name: string | null;
+  channel: string;
+}
+
+interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  count: number;
+}
+
+interface LabelHistoryEntry {
+  id: string;
+  label: string | null;
+  previousLabel: string | null;
+  reason: string | null;
+  source: string;
+  actorEmail: string | null;
+  actorName: string | null;
+  lockedUntil: string | null;
+  createdAt: string | null;
+}
+
+interface LabelHistoryResponse {
+  label: string | null;
+  labelReason: string | null;
+  labelLockedUntil: string | null;
+  history: LabelHistoryEntry[];
+}
+
+interface AdminProfile {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  permissions: Permission[];
 }
 
 interface NotificationItem {
@@ -126,6 +370,151 @@ interface Booking {
   estimatedEndDate?: string;
 }
 
+function getTimestampMillis(ts?: FirestoreTimestamp | string | null) {
+  if (!ts) return 0;
+  if (typeof ts === 'string') {
+    const parsed = Date.parse(ts);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return ts.seconds * 1000 + (ts.nanoseconds ?? 0) / 1_000_000;
+}
+
+// Label yang belum terdaftar di taksonomi (mis. baru dipasang AI) tetap ditampilkan dari key-nya.
+function getLabelDefinition(labels: LabelDefinition[], key: string): LabelDefinition {
+  return (
+    labels.find((label) => label.key === key) ?? {
+      key,
+      displayName: key.split('_').join(' '),
+      color: null,
+      emoji: null,
+      sortOrder: Number.MAX_SAFE_INTEGER,
+    }
+  );
+}
+
+function formatLabel(labels: LabelDefinition[], key: string) {
+  const definition = getLabelDefinition(labels, key);
+  return definition.emoji ? `${definition.displayName} ${definition.emoji}` : definition.displayName;
+}
+
+function LabelBadge({ labels, labelKey, title }: { labels: LabelDefinition[]; labelKey: string; title?: string }) {
+  const definition = getLabelDefinition(labels, labelKey);
+  return (
+    <span
+      className="pill label-badge"
+      style={definition.color ? { color: definition.color, borderColor: definition.color } : undefined}
+      title={title}
+    >
+      {formatLabel(labels, labelKey)}
+    </span>
+  );
+}
+
+function patchConversationPages(
+  pages: ConversationListResponse[] | undefined,
+  senderNumber: string,
+  patch: (conversation: ConversationSummary) => Partial<ConversationSummary>
+) {
+  return pages?.map((page) => ({
+    ...page,
+    conversations: page.conversations.map((conversation) =>
+      conversation.senderNumber === senderNumber ? { ...conversation, ...patch(conversation) } : conversation
+    ),
+  }));
+}
+
+// Menggabungkan ringkasan percakapan hasil push ke halaman SWR: entri lama dibuang
+// dari halaman mana pun lalu versi terbarunya diletakkan di halaman pertama.
+function mergeConversationPages(
+  pages: ConversationListResponse[] | undefined,
+  updates: ConversationSummary[]
+) {
+  if (!pages?.length || !updates.length) return pages;
+
+  const updatedNumbers = new Set(updates.map((conversation) => conversation.senderNumber));
+  const stripped = pages.map((page) => {
+    const conversations = page.conversations.filter(
+      (conversation) => !updatedNumbers.has(conversation.senderNumber)
+    );
+    return { ...page, conversations, count: conversations.length };
+  });
+
+  const firstPageConversations = [...updates, ...stripped[0].conversations].sort((a, b) => {
+    const timeA = a.updatedAt ? Date.parse(a.updatedAt) : 0;
+    const timeB = b.updatedAt ? Date.parse(b.updatedAt) : 0;
+    return timeB - timeA;
+  });
+
+  stripped[0] = {
+    ...stripped[0],
+    conversations: firstPageConversations,
+    count: firstPageConversations.length,
+  };
+
+  return stripped;
+}
+
+function mergeHistoryMessages(
+  current: ConversationResponse | undefined,
+  messages: ConversationMessage[]
+) {
+  if (!current || !messages.length) return current;
+
+  const byId = new Map<string, ConversationMessage>();
+  const withoutId: ConversationMessage[] = [];
+  current.history.forEach((msg) => {
+    if (msg.id) {
+      byId.set(msg.id, msg);
+    } else {
+      withoutId.push(msg);
+    }
+  });
+  messages.forEach((msg) => {
+    if (msg.id) byId.set(msg.id, msg);
+  });
+
+  const history = [...withoutId, ...Array.from(byId.values())].sort(
+    (a, b) => getTimestampMillis(a.timestamp) - getTimestampMillis(b.timestamp)
+  );
+
+  return {
+    ...current,
+    history,
+    messageCount: history.length,
+    outbox: reconcileOutbox(current.outbox, messages),
+  };
+}
+
+// Balasan yang sudah terkirim cukup tampil sekali: begitu salinan server masuk riwayat, gelembung outbox dibuang.
+function reconcileOutbox(outbox: OutboundMessage[] | undefined, messages: ConversationMessage[]) {
+  if (!outbox?.length) return outbox;
+
+  const deliveredTexts = new Set(
+    messages.filter((msg) => msg.sender === 'admin').map((msg) => msg.text.trim())
+  );
+  return outbox.filter((item) => item.status !== 'sent' || !deliveredTexts.has(item.message.trim()));
+}
+
+function updateLatestHistoryPage(
+  pages: ConversationResponse[] | undefined,
+  updater: (current: ConversationResponse | undefined) => ConversationResponse | undefined
+) {
+  return pages?.length ? [updater(pages[0]) ?? pages[0], ...pages.slice(1)] : pages;
+}
+
+function replaceOutboxItem(
+  current: ConversationResponse | undefined,
+  id: string,
+  replacement: OutboundMessage | null
+) {
+  if (!current) return current;
+
+  // Salinan server bisa saja sudah masuk lewat revalidasi lebih dulu, jadi buang keduanya lalu tambahkan ulang.
+  const outbox = (current.outbox ?? []).filter((item) => item.id !== id && item.id !== replacement?.id);
+  if (replacement) outbox.push(replacement);
+  return { ...current, outbox: reconcileOutbox(outbox, current.history) };
+}
+
 function formatTimestamp(ts?: FirestoreTimestamp | string | null) {
   if (!ts) return '';
 
@@ -199,10 +588,15 @@ type ConversationLike = {
   senderNumber: string;
   platformId?: string | null;
   channel?: string | null;
+  customer?: { name: string | null } | null;
 };
 
 function getConversationDisplayName(conversation: ConversationLike | null | undefined) {
   if (!conversation) return '';
+  // Nama yang diisi admin di profil pelanggan mengalahkan nama dari kanal.
+  const customerName = conversation.customer?.name?.trim();
+  if (customerName) return customerName;
+
   const name = conversation.name?.trim();
   const senderId = conversation.senderNumber;
   const platformId = conversation.platformId?.trim();
@@ -218,82 +612,722 @@ function getConversationDisplayName(conversation: ConversationLike | null | unde
   return conversation.senderNumber;
 }
 
-type ViewMode = 'chat' | 'calendar';
+function matchesSearchKeyword(conversation: ConversationSummary, keyword: string) {
+  const numberMatch = conversation.senderNumber.toLowerCase().includes(keyword);
+  const nameMatch = conversation.name?.toLowerCase().includes(keyword);
+  const messageMatch = conversation.lastMessage?.toLowerCase().includes(keyword);
+  const profile = conversation.customer;
+  const profileMatch = profile
+    ? [profile.name, profile.vehicle.make, profile.vehicle.model, profile.vehicle.color, profile.vehicle.plate, ...profile.tags]
+      .some((value) => value?.toLowerCase().includes(keyword))
+    : false;
+  return numberMatch || nameMatch || messageMatch || profileMatch;
+}
+
+type ViewMode = 'chat' | 'calendar' | 'audit' | 'schedules' | 'templates' | 'campaigns';
+
+type CampaignStatus = 'draft' | 'sending' | 'completed' | 'cancelled';
+type RecipientStatus = 'pending' | 'queued' | 'sent' | 'failed' | 'skipped';
+
+interface Campaign {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  audience: { labels: string[]; channels: string[]; from: string; to: string };
+  content:
+    | { type: 'text'; message: string }
+    | { type: 'template'; templateName: string; language: string; headerParameters: string[]; bodyParameters: string[] };
+  recipientCount: number | null;
+  createdBy: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  stats: Record<RecipientStatus, number> | null;
+  lastError: string | null;
+}
+
+interface CampaignRecipient {
+  id: string;
+  senderNumber: string;
+  name: string | null;
+  channel: string | null;
+  status: RecipientStatus;
+  error: string | null;
+  updatedAt: string | null;
+}
+
+const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draf',
+  sending: 'Mengirim',
+  completed: 'Selesai',
+  cancelled: 'Dihentikan',
+};
+
+const RECIPIENT_STATUS_LABELS: Record<RecipientStatus, string> = {
+  pending: 'Menunggu giliran',
+  queued: 'Antre kirim ulang',
+  sent: 'Terkirim',
+  failed: 'Gagal',
+  skipped: 'Dilewati',
+};
+
+type ScheduledKind = 'message' | 'reminder';
+type ScheduledStatus = 'scheduled' | 'dispatched' | 'failed' | 'due' | 'done' | 'cancelled';
+
+interface ScheduledMessage {
+  id: string;
+  senderNumber: string | null;
+  kind: ScheduledKind;
+  message: string;
+  note: string;
+  status: ScheduledStatus;
+  dueAt: string | null;
+  error: string | null;
+  createdByEmail: string | null;
+}
+
+interface DueReminder extends ScheduledMessage {
+  conversation: ConversationSummary | null;
+}
+
+// Pilihan cepat untuk kasus umum seperti "kirim penawaran besok pagi".
+const SCHEDULE_PRESETS: { label: string; resolve: (now: Date) => Date }[] = [
+  { label: '+1 jam', resolve: (now) => new Date(now.getTime() + 60 * 60 * 1000) },
+  {
+    label: 'Besok 09:00',
+    resolve: (now) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9, 0),
+  },
+  {
+    label: '+3 hari',
+    resolve: (now) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + 3, 9, 0),
+  },
+];
+
+/** Format `YYYY-MM-DDTHH:mm` untuk input `datetime-local`, mengikuti zona waktu browser. */
+function toDateTimeLocalValue(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+}
+
+interface ReplyTemplate {
+  id: string;
+  shortcut: string;
+  title: string;
+  body: string;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+const TEMPLATE_VARIABLE_LABELS: Record<TemplateVariable, string> = {
+  name: 'Nama pelanggan',
+  bookingDate: 'Tanggal booking',
+  bookingTime: 'Jam booking',
+  serviceName: 'Layanan',
+};
+
+// Contoh nilai untuk pratinjau di halaman kelola template.
+const TEMPLATE_SAMPLE_VALUES: TemplateValues = {
+  name: 'Budi',
+  bookingDate: 'Sabtu, 12 Oktober 2024',
+  bookingTime: '10:00',
+  serviceName: 'Repaint Full Body',
+};
+
+/** Mengembalikan kata kunci setelah `/` bila composer sedang berisi perintah template. */
+function parseTemplateCommand(message: string) {
+  const match = /^\/(\S*)$/.exec(message);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function filterReplyTemplates(templates: ReplyTemplate[], query: string) {
+  if (!query) return templates;
+  return templates
+    .filter((template) => template.shortcut.includes(query) || template.title.toLowerCase().includes(query))
+    .sort((a, b) => Number(!b.shortcut.startsWith(query)) - Number(!a.shortcut.startsWith(query)));
+}
+
+// Nomor di booking bisa ditulis `08xx` maupun `628xx`; keduanya disamakan ke format internasional.
+function normalizePhoneDigits(value?: string | null) {
+  const digits = (value || '').split('@')[0].replace(/[^0-9]/g, '');
+  return digits.startsWith('0') ? `62${digits.slice(1)}` : digits;
+}
+
+/** Booking terdekat yang akan datang untuk nomor ini, atau booking terakhir bila tidak ada. */
+function findConversationBooking(bookings: Booking[], senderNumber: string) {
+  const phone = normalizePhoneDigits(senderNumber);
+  if (!phone) return null;
+
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' });
+  const matches = bookings
+    .filter((booking) => booking.status !== 'cancelled' && normalizePhoneDigits(booking.customerPhone) === phone)
+    .sort((a, b) => `${a.bookingDate} ${a.bookingTime}`.localeCompare(`${b.bookingDate} ${b.bookingTime}`));
+
+  return matches.find((booking) => booking.bookingDate >= today) || matches[matches.length - 1] || null;
+}
+
+function formatBookingDate(date: string) {
+  const parsed = new Date(`${date}T00:00:00+07:00`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Asia/Jakarta',
+  });
+}
+
+interface HandoverSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  mode: 'pause' | 'active';
+  days: number[];
+  start: string;
+  end: string;
+  timezone: string;
+  channel: string | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+interface HandoverScheduleResponse {
+  schedules: HandoverSchedule[];
+  effective: {
+    channel: string | null;
+    paused: boolean;
+    schedule: HandoverSchedule | null;
+    nextChangeAt: string | null;
+  }[];
+}
+
+const WEEKDAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+function describeSchedule(schedule: HandoverSchedule) {
+  const days = schedule.days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+  const action = schedule.mode === 'pause' ? 'AI mati' : 'AI hanya aktif';
+  return `${action} ${schedule.start}–${schedule.end} (${days}) · ${schedule.timezone}`;
+}
+
+// Isi `before`/`after` berbeda per aksi dan bisa berasal dari versi lama, jadi dibaca sebagai data mentah.
+type AuditSnapshot = Record<string, unknown>;
+
+interface AuditEntry {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorName: string | null;
+  actorRole: string | null;
+  action: string | null;
+  senderNumber: string | null;
+  targetId: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+  createdAt: string | null;
+}
+
+interface AuditLogResponse {
+  entries: AuditEntry[];
+  count: number;
+  nextCursor: string | null;
+}
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'ai.enable': 'AI diaktifkan',
+  'ai.pause': 'AI dijeda',
+  'ai.disable': 'AI dimatikan',
+  'ai.schedule': 'Jadwal AI',
+  'ai.bulk': 'Status AI massal',
+  'ai.global': 'Saklar AI global',
+  'message.send': 'Balasan manual',
+  'message.resend': 'Kirim ulang balasan',
+  'message.schedule': 'Jadwal pesan',
+  'booking.update': 'Update booking',
+  'customer.update': 'Profil pelanggan',
+  'customer.merge': 'Gabung profil',
+  'customer.unmerge': 'Lepas profil',
+  'customer.optout': 'Berhenti broadcast',
+  'campaign.update': 'Kampanye broadcast',
+  'label.update': 'Ubah label',
+  'conversation.assign': 'Penugasan',
+  'template.update': 'Template balasan',
+};
+
+function readAuditNumber(value: unknown) {
+  return typeof value === 'number' ? value : 0;
+}
+
+function describeAiState(value: unknown) {
+  const state = readRecord(value);
+  if (!state.active) return 'AI aktif';
+  if (state.manual) return 'AI mati (manual)';
+  if (state.source === 'schedule') return `AI dijeda jadwal ${readString(state.scheduleName) ?? ''}`.trim();
+  const until = formatIsoTimestamp(readString(state.expiresAt));
+  return until ? `AI dijeda hingga ${until}` : 'AI dijeda';
+}
+
+function describeAuditChange(entry: AuditEntry) {
+  const before = entry.before;
+  const after = entry.after;
+  const beforeText = (key: string) => readString(before?.[key]) ?? '';
+  const afterText = (key: string) => readString(after?.[key]) ?? '';
+  const target = entry.targetId || '';
+
+  switch (entry.action) {
+    case 'ai.enable':
+    case 'ai.pause':
+    case 'ai.disable':
+      return `${describeAiState(before)} → ${describeAiState(after)}`;
+    case 'message.send': {
+      const text = afterText('message');
+      const preview = text.length > 120 ? `${text.slice(0, 120)}…` : text;
+      const quoted = after?.template ? `template ${afterText('template')} "${preview}"` : `"${preview}"`;
+      if (after?.delivered !== false) return quoted;
+      return after?.status === 'failed'
+        ? `Gagal terkirim: ${quoted}`
+        : `Masuk antrean kirim ulang: ${quoted}`;
+    }
+    case 'ai.bulk': {
+      const label = afterText('label');
+      const scope = label ? `label ${label}` : 'percakapan terpilih';
+      const state = after?.enabled ? 'AI diaktifkan' : 'AI dijeda';
+      return `${state} untuk ${readAuditNumber(after?.count)} ${scope}`;
+    }
+    case 'ai.global':
+      return after?.paused ? 'AI dimatikan untuk semua percakapan' : 'AI global dinyalakan kembali';
+    case 'label.update': {
+      const reason = afterText('reason');
+      return `Label ${beforeText('label') || '-'} → ${afterText('label') || '-'}${reason ? ` (${reason})` : ''}`;
+    }
+    case 'conversation.assign': {
+      const describeAssignee = (value: unknown) => {
+        const assignee = readRecord(value);
+        return readString(assignee.name) || readString(assignee.email) || 'belum ditugaskan';
+      };
+      return `${describeAssignee(before?.assignedTo)} → ${describeAssignee(after?.assignedTo)}`;
+    }
+    case 'template.update':
+      if (!before) return `Template dibuat: /${afterText('shortcut') || target}`;
+      if (!after) return `Template dihapus: /${beforeText('shortcut') || target}`;
+      return `Template diubah: /${afterText('shortcut') || target}`;
+    case 'customer.update':
+      return `Profil diperbarui: ${afterText('name') || entry.senderNumber || target}`;
+    case 'customer.merge': {
+      const identities = after?.identities;
+      return `${Array.isArray(identities) ? identities.length : 0} percakapan digabung ke satu profil`;
+    }
+    case 'customer.unmerge':
+      return `${entry.senderNumber || ''} dilepas dari profil ${beforeText('name') || target}`.trim();
+    case 'customer.optout':
+      return after?.optedOut ? 'Tidak lagi menerima broadcast' : 'Kembali menerima broadcast';
+    case 'campaign.update': {
+      const name = afterText('name') || beforeText('name') || target;
+      if (!before) return `Kampanye dibuat: ${name}`;
+      if (!after) return `Kampanye dihapus: ${name}`;
+      if (after.status === 'sending') return `Kampanye dimulai: ${name} (${readAuditNumber(after.recipientCount)} penerima)`;
+      return `Kampanye ${name}: ${beforeText('status')} → ${afterText('status')}`;
+    }
+    case 'ai.schedule':
+      if (!before) return `Jadwal dibuat: ${afterText('name') || target}`;
+      if (!after) return `Jadwal dihapus: ${beforeText('name') || target}`;
+      return `Jadwal diubah: ${afterText('name') || target}`;
+    case 'message.schedule': {
+      const subject = after?.kind === 'reminder' ? 'Pengingat follow-up' : 'Pesan terjadwal';
+      const dueAt = formatIsoTimestamp(afterText('dueAt'));
+      if (!before) return `${subject} dibuat untuk ${dueAt || '-'}`;
+      if (after?.status === 'done') return `${subject} ditandai selesai`;
+      return `${subject}${dueAt ? ` ${dueAt}` : ''} dibatalkan`;
+    }
+    case 'message.resend': {
+      const error = afterText('error');
+      return after?.status === 'sent'
+        ? 'Pesan dari outbox terkirim'
+        : `Kirim ulang gagal${error ? `: ${error}` : ''}`;
+    }
+    case 'booking.update':
+      return `Booking ${target}: ${beforeText('status') || '?'} → ${afterText('status') || '?'}`;
+    default:
+      return '';
+  }
+}
 
 export default function AdminConsole() {
   const [viewMode, setViewMode] = useState<ViewMode>('chat');
   const [selectedNumber, setSelectedNumber] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterLabel, setFilterLabel] = useState(''); // New filter state
+  const [filters, setFilters] = useState<ConversationFilters>(EMPTY_CONVERSATION_FILTERS);
+  // Daftar baru dimuat setelah filter dari URL terbaca, supaya tidak ada fetch tanpa filter lebih dulu.
+  const [areFiltersReady, setAreFiltersReady] = useState(false);
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const filterLabel = filters.label;
   const [message, setMessage] = useState('');
-  const [isSending, setIsSending] = useState(false);
+  const [templatePickerIndex, setTemplatePickerIndex] = useState(0);
+  // Perintah `/...` yang ditutup dengan Esc tidak memunculkan pemilih lagi sampai isinya berubah.
+  const [dismissedTemplateCommand, setDismissedTemplateCommand] = useState<string | null>(null);
+  const templateCommand =
+    viewMode === 'chat' && message !== dismissedTemplateCommand ? parseTemplateCommand(message) : null;
+  const [composerAttachments, setComposerAttachments] = useState<ComposerAttachment[]>([]);
+  const attachmentInputRef = useRef<HTMLInputElement | null>(null);
+  const [retryingOutboundId, setRetryingOutboundId] = useState<string | null>(null);
   const [isTogglingAi, setIsTogglingAi] = useState(false);
+  const [isSelectingConversations, setIsSelectingConversations] = useState(false);
+  const [selectedConversationNumbers, setSelectedConversationNumbers] = useState<string[]>([]);
+  const [isApplyingBulkAi, setIsApplyingBulkAi] = useState(false);
+  const [showCustomerPanel, setShowCustomerPanel] = useState(false);
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const [isMobile, setIsMobile] = useState(false);
   const [showMobileContent, setShowMobileContent] = useState(false);
-  const canSendMessages = Boolean(API_BASE);
+  const [isStreamConnected, setIsStreamConnected] = useState(false);
+  const [typingAdmins, setTypingAdmins] = useState<TypingAdmin[]>([]);
+  const lastTypingSignalRef = useRef(0);
+  // Polling hanya dipakai sebagai cadangan saat stream SSE terputus.
+  const refreshInterval = isStreamConnected ? 0 : 15000;
+
+  const getConversationPageKey = useCallback(
+    (pageIndex: number, previousPage: ConversationListResponse | null) => {
+      if (!areFiltersReady) return null;
+      if (previousPage && !previousPage.nextCursor) return null;
+      const params = conversationFiltersToParams(
+        filters,
+        new URLSearchParams({ limit: String(CONVERSATION_PAGE_SIZE) })
+      );
+      if (pageIndex > 0 && previousPage?.nextCursor) {
+        params.set('cursor', previousPage.nextCursor);
+      }
+      return `/api/conversations?${params.toString()}`;
+    },
+    [filters, areFiltersReady]
+  );
+
+  useEffect(() => {
+    setFilters(parseConversationFilters(new URLSearchParams(window.location.search)));
+    setAreFiltersReady(true);
+  }, []);
+
+  // Filter disimpan di URL halaman supaya tampilan daftar bisa dibagikan ke admin lain.
+  useEffect(() => {
+    if (!areFiltersReady) return;
+    const query = conversationFiltersToParams(filters).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [filters, areFiltersReady]);
 
   const {
-    data: listData,
+    data: listPages,
     error: listError,
     mutate: mutateConversations,
     isValidating: isLoadingList,
-  } = useSWR<ConversationListResponse>(buildApiUrl('/conversations'), fetcher, {
-    refreshInterval: 15000,
+    size: listPageCount,
+    setSize: setListPageCount,
+  } = useSWRInfinite<ConversationListResponse>(getConversationPageKey, fetcher, {
+    refreshInterval,
   });
 
-  const shouldFetchHistory = Boolean(selectedNumber);
+  // Halaman bisa tumpang tindih saat urutan `updatedAt` bergeser di antara dua fetch.
+  const conversations = useMemo(() => {
+    if (!listPages?.length) return [];
+    const seen = new Set<string>();
+    const merged: ConversationSummary[] = [];
+    listPages.forEach((page) => {
+      page?.conversations?.forEach((conversation) => {
+        if (seen.has(conversation.senderNumber)) return;
+        seen.add(conversation.senderNumber);
+        merged.push(conversation);
+      });
+    });
+    return merged;
+  }, [listPages]);
+
+  const hasMoreConversations = Boolean(listPages?.[listPages.length - 1]?.nextCursor);
+  const isLoadingMoreConversations =
+    listPageCount > 0 && typeof listPages?.[listPageCount - 1] === 'undefined' && !listError;
+
+  const handleConversationListScroll = useCallback(
+    (event: React.UIEvent<HTMLDivElement>) => {
+      const target = event.currentTarget;
+      const nearBottom = target.scrollTop + target.clientHeight >= target.scrollHeight - 120;
+      if (nearBottom && hasMoreConversations && !isLoadingMoreConversations) {
+        setListPageCount((count) => count + 1);
+      }
+    },
+    [hasMoreConversations, isLoadingMoreConversations, setListPageCount]
+  );
+
+  // Halaman pertama berisi pesan terbaru; halaman berikutnya semakin lama.
+  const getHistoryPageKey = useCallback(
+    (pageIndex: number, previousPage: ConversationResponse | null) => {
+      if (!selectedNumber) return null;
+      if (previousPage && !previousPage.nextCursor) return null;
+      const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+      if (pageIndex > 0 && previousPage?.nextCursor) {
+        params.set('before', previousPage.nextCursor);
+      }
+      return `/api/conversation-history/${encodeURIComponent(selectedNumber)}?${params.toString()}`;
+    },
+    [selectedNumber]
+  );
+
   const {
-    data: historyData,
+    data: historyPages,
     error: historyError,
-    mutate: mutateHistory,
+    mutate: mutateHistoryPages,
     isValidating: isLoadingHistory,
-  } = useSWR<ConversationResponse>(
-    shouldFetchHistory ? buildApiUrl(`/conversation-history/${selectedNumber}`) : null,
-    fetcher,
-    { refreshInterval: 15000 }
-  );
+    size: historyPageCount,
+    setSize: setHistoryPageCount,
+  } = useSWRInfinite<ConversationResponse>(getHistoryPageKey, fetcher, { refreshInterval });
 
-  // Fetch Bookings
-  const { data: bookingsData, mutate: mutateBookings } = useSWR<{ bookings: Booking[] }>(
-    viewMode === 'calendar' ? buildApiUrl('/bookings') : null,
-    fetcher
+  const historyData = historyPages?.[0];
+  const historyMessages = useMemo(() => {
+    if (!historyPages?.length) return [];
+    return [...historyPages].reverse().flatMap((page) => page?.history ?? []);
+  }, [historyPages]);
+  const outboxMessages = historyData?.outbox ?? [];
+  const hasOlderMessages = Boolean(historyPages?.[historyPages.length - 1]?.nextCursor);
+  const isLoadingOlderMessages =
+    historyPageCount > 1 && typeof historyPages?.[historyPageCount - 1] === 'undefined' && !historyError;
+
+  // Pembaruan dari stream dan aksi admin hanya menyentuh halaman terbaru.
+  const mutateHistory = useCallback(
+    (
+      updater?: (current: ConversationResponse | undefined) => ConversationResponse | undefined,
+      options?: { revalidate?: boolean }
+    ) => {
+      if (!updater) return mutateHistoryPages();
+      return mutateHistoryPages((pages) => updateLatestHistoryPage(pages, updater), options);
+    },
+    [mutateHistoryPages]
   );
 
+  const messageListRef = useRef<HTMLDivElement | null>(null);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+
   useEffect(() => {
-    if (!listData?.conversations?.length) return;
-    if (selectedNumber) return;
+    stickToBottomRef.current = true;
+    scrollRestoreRef.current = null;
+  }, [selectedNumber]);
 
-    if (isMobile) {
-      setShowMobileContent(false);
+  useLayoutEffect(() => {
+    const list = messageListRef.current;
+    if (!list) return;
+
+    // Setelah halaman lama dimuat, pertahankan posisi pesan yang sedang dibaca.
+    if (scrollRestoreRef.current) {
+      const { height, top } = scrollRestoreRef.current;
+      list.scrollTop = list.scrollHeight - height + top;
+      scrollRestoreRef.current = null;
       return;
     }
 
-    setSelectedNumber(listData.conversations[0].senderNumber);
-  }, [isMobile, listData, selectedNumber]);
+    if (stickToBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [historyMessages, outboxMessages.length]);
+
+  const handleMessageListScroll = useCallback(
+    (event: React.UIEvent<HTMLDivElement>) => {
+      const list = event.currentTarget;
+      stickToBottomRef.current = list.scrollTop + list.clientHeight >= list.scrollHeight - 40;
 
-  useEffect(() => {
-    const updateViewport = () => {
-      const mobile = typeof window !== 'undefined' && window.innerWidth <= 768;
-      setIsMobile(mobile);
-      if (!mobile) {
-        setShowMobileContent(true);
-      } else if (!selectedNumber) {
-        setShowMobileContent(false);
+      if (list.scrollTop < 80 && hasOlderMessages && !isLoadingOlderMessages && !scrollRestoreRef.current) {
+        scrollRestoreRef.current = { height: list.scrollHeight, top: list.scrollTop };
+        setHistoryPageCount((count) => count + 1);
       }
-    };
+    },
+    [hasOlderMessages, isLoadingOlderMessages, setHistoryPageCount]
+  );
 
-    updateViewport();
-    window.addEventListener('resize', updateViewport);
-    return () => window.removeEventListener('resize', updateViewport);
-  }, [selectedNumber]);
+  const { data: globalAiPause, mutate: mutateGlobalAiPause } = useSWR<GlobalAiPause>(
+    '/api/ai-state/global',
+    fetcher,
+    { refreshInterval }
+  );
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.EventSource === 'undefined') return;
+
+    const params = new URLSearchParams();
+    if (selectedNumber) params.set('number', selectedNumber);
+    const source = new EventSource(`/api/stream?${params.toString()}`);
+
+    source.addEventListener('open', () => {
+      setIsStreamConnected(true);
+      // Tutup celah perubahan yang terlewat selama stream terputus.
+      mutateConversations();
+      if (selectedNumber) mutateHistory();
+    });
+
+    source.addEventListener('error', () => {
+      // EventSource akan mencoba menyambung ulang sendiri; sementara itu kembali ke polling.
+      setIsStreamConnected(false);
+    });
+
+    source.addEventListener('conversations', (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        conversations: ConversationSummary[];
+      };
+      mutateConversations((pages) => mergeConversationPages(pages, payload.conversations), {
+        revalidate: false,
+      });
+    });
+
+    source.addEventListener('history', (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        senderNumber: string;
+        messages: ConversationMessage[];
+      };
+      mutateHistory((current) => mergeHistoryMessages(current, payload.messages), {
+        revalidate: false,
+      });
+    });
+
+    source.addEventListener('ai-global', (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as GlobalAiPause;
+      mutateGlobalAiPause(payload, { revalidate: false });
+      // Status AI tiap percakapan ikut berubah, jadi muat ulang daftar dan riwayat aktif.
+      mutateConversations();
+      if (selectedNumber) mutateHistory();
+    });
+
+    setTypingAdmins([]);
+    source.addEventListener('typing', (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        senderNumber: string;
+        admins: TypingAdmin[];
+      };
+      if (payload.senderNumber === selectedNumber) setTypingAdmins(payload.admins);
+    });
+
+    source.addEventListener('ai-state', (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        senderNumber: string;
+        aiPaused: boolean;
+        aiPauseInfo: AiPauseInfo;
+      };
+      mutateHistory(
+        (current) =>
+          current ? { ...current, aiPaused: payload.aiPaused, aiPauseInfo: payload.aiPauseInfo } : current,
+        { revalidate: false }
+      );
+      mutateConversations(
+        (pages) =>
+          pages?.map((page) => ({
+            ...page,
+            conversations: page.conversations.map((conversation) =>
+              conversation.senderNumber === payload.senderNumber
+                ? {
+                  ...conversation,
+                  aiPaused: payload.aiPaused,
+                  aiPausedUntil: payload.aiPauseInfo.expiresAt,
+                  aiPausedManual: payload.aiPauseInfo.manual,
+                  aiPausedReason: payload.aiPauseInfo.reason,
+                }
+                : conversation
+            ),
+          })),
+        { revalidate: false }
+      );
+    });
+
+    return () => {
+      source.close();
+      setIsStreamConnected(false);
+    };
+  }, [selectedNumber, mutateConversations, mutateHistory, mutateGlobalAiPause]);
+
+  // Sesi admin selalu dibaca dari route lokal, bukan dari backend bot.
+  const { data: sessionData } = useSWR<{ admin: AdminProfile; messagingEnabled: boolean }>('/api/auth/me', fetcher);
+  // Balasan dikirim lewat `/api/send-message`, yang meneruskan ke backend bot yang dikonfigurasi di server.
+  const canSendMessages = Boolean(sessionData?.messagingEnabled);
+  const { data: labelData } = useSWR<{ labels: LabelDefinition[] }>('/api/labels', fetcher, {
+    revalidateOnFocus: false,
+  });
+  const labelDefinitions = useMemo(() => labelData?.labels ?? [], [labelData]);
+  const currentAdmin = sessionData?.admin ?? null;
+  const canReply = hasPermission(currentAdmin?.role, 'messages:send');
+  const canPauseAi = hasPermission(currentAdmin?.role, 'ai:pause');
+  const canDisableAi = hasPermission(currentAdmin?.role, 'ai:disable');
+  const canUpdateBookings = hasPermission(currentAdmin?.role, 'bookings:update');
+  const canUpdateCustomers = hasPermission(currentAdmin?.role, 'customers:update');
+  const canUpdateLabels = hasPermission(currentAdmin?.role, 'labels:update');
+  const canAssignOthers = hasPermission(currentAdmin?.role, 'conversations:assign');
+  const { data: adminsData } = useSWR<{ admins: AssignableAdmin[] }>(
+    canAssignOthers ? '/api/admins' : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+  const canManageTemplates = hasPermission(currentAdmin?.role, 'templates:manage');
+  const canManageCampaigns = hasPermission(currentAdmin?.role, 'campaigns:manage');
+  const { data: templateData } = useSWR<{ templates: ReplyTemplate[] }>(
+    canReply ? '/api/reply-templates' : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+  // Pengingat yang jatuh tempo disematkan di atas daftar; cron menandainya per menit.
+  const { data: dueReminderData, mutate: mutateDueReminders } = useSWR<{ reminders: DueReminder[] }>(
+    currentAdmin ? '/api/reminders/due' : null,
+    fetcher,
+    { refreshInterval: 60000 }
+  );
+  const dueRemindersByNumber = useMemo(() => {
+    const result = new Map<string, DueReminder>();
+    (dueReminderData?.reminders ?? []).forEach((reminder) => {
+      if (reminder.senderNumber && !result.has(reminder.senderNumber)) {
+        result.set(reminder.senderNumber, reminder);
+      }
+    });
+    return result;
+  }, [dueReminderData]);
+  const canUsePlayground = hasPermission(currentAdmin?.role, 'playground:use');
+  const canReadAudit = hasPermission(currentAdmin?.role, 'audit:read');
+  const [auditSenderFilter, setAuditSenderFilter] = useState('');
+
+  const openAuditForConversation = useCallback((senderNumber: string) => {
+    setAuditSenderFilter(senderNumber);
+    setViewMode('audit');
+  }, []);
+
+  // Fetch Bookings (juga saat pemilih template terbuka, untuk mengisi variabel booking)
+  const { data: bookingsData, mutate: mutateBookings } = useSWR<{ bookings: Booking[] }>(
+    viewMode === 'calendar' || templateCommand !== null ? buildApiUrl('/bookings') : null,
+    fetcher
+  );
+
+  useEffect(() => {
+    if (!conversations.length) return;
+    if (selectedNumber) return;
+
+    if (isMobile) {
+      setShowMobileContent(false);
+      return;
+    }
+
+    setSelectedNumber(conversations[0].senderNumber);
+  }, [isMobile, conversations, selectedNumber]);
+
+  useEffect(() => {
+    const updateViewport = () => {
+      const mobile = typeof window !== 'undefined' && window.innerWidth <= 768;
+      setIsMobile(mobile);
+      if (!mobile) {
+        setShowMobileContent(true);
+      } else if (!selectedNumber) {
+        setShowMobileContent(false);
+      }
+    };
+
+    updateViewport();
+    window.addEventListener('resize', updateViewport);
+    return () => window.removeEventListener('resize', updateViewport);
+  }, [selectedNumber]);
 
   const hasInitializedConversationsRef = useRef(false);
   const previousCountsRef = useRef<Record<string, number>>({});
   const messageInputRef = useRef<HTMLTextAreaElement | null>(null);
 
   useEffect(() => {
-    if (!listData?.conversations) {
+    if (!listPages) {
       return;
     }
 
@@ -301,7 +1335,7 @@ export default function AdminConsole() {
     const nextCounts: Record<string, number> = {};
     const newNotifications: NotificationItem[] = [];
 
-    listData.conversations.forEach((conversation) => {
+    conversations.forEach((conversation) => {
       const count = conversation.messageCount ?? 0;
       nextCounts[conversation.senderNumber] = count;
 
@@ -309,7 +1343,12 @@ export default function AdminConsole() {
         return;
       }
 
-      const previousCount = previousCounts[conversation.senderNumber] ?? 0;
+      // Percakapan yang baru masuk dari halaman berikutnya bukan pesan baru.
+      if (!(conversation.senderNumber in previousCounts)) {
+        return;
+      }
+
+      const previousCount = previousCounts[conversation.senderNumber];
       const hasNewMessage = count > previousCount;
       const isFromUser = (conversation.lastMessageSender || 'user') === 'user';
       const isSelected = conversation.senderNumber === selectedNumber;
@@ -338,7 +1377,7 @@ export default function AdminConsole() {
         return filtered.length === prev.length ? prev : filtered;
       });
     }
-  }, [listData, selectedNumber]);
+  }, [conversations, listPages, selectedNumber]);
 
   useEffect(() => {
     if (isMobile && selectedNumber) {
@@ -347,33 +1386,57 @@ export default function AdminConsole() {
   }, [isMobile, selectedNumber]);
 
   const filteredConversations = useMemo(() => {
-    if (!listData?.conversations?.length) return [];
+    if (!conversations.length) return [];
 
-    let result = listData.conversations;
+    let result = conversations;
 
-    // Filter by Label
-    if (filterLabel) {
-      result = result.filter((c) => c.label === filterLabel);
+    // Server sudah memfilter; dicek ulang untuk percakapan yang diperbarui lewat stream.
+    if (hasConversationFilters(filters)) {
+      result = result.filter((conversation) => matchesConversationFilters(conversation, filters, currentAdmin?.id));
     }
 
     // Filter by Search Term
     if (searchTerm.trim()) {
       const keyword = searchTerm.trim().toLowerCase();
-      result = result.filter((conversation) => {
-        const numberMatch = conversation.senderNumber.toLowerCase().includes(keyword);
-        const nameMatch = conversation.name?.toLowerCase().includes(keyword);
-        const messageMatch = conversation.lastMessage?.toLowerCase().includes(keyword);
-        return numberMatch || nameMatch || messageMatch;
-      });
+      result = result.filter((conversation) => matchesSearchKeyword(conversation, keyword));
     }
 
     return result;
-  }, [listData, searchTerm, filterLabel]);
+  }, [conversations, searchTerm, filters, currentAdmin?.id]);
+
+  // Percakapan dengan pengingat jatuh tempo, memakai salinan dari daftar bila sudah termuat agar ikut update stream.
+  const reminderConversations = useMemo(() => {
+    const keyword = searchTerm.trim().toLowerCase();
+    const result: ConversationSummary[] = [];
+
+    dueRemindersByNumber.forEach((reminder, senderNumber) => {
+      const conversation =
+        conversations.find((item) => item.senderNumber === senderNumber) || reminder.conversation;
+      if (!conversation) return;
+      if (hasConversationFilters(filters) && !matchesConversationFilters(conversation, filters, currentAdmin?.id)) return;
+      if (keyword && !matchesSearchKeyword(conversation, keyword)) return;
+      result.push(conversation);
+    });
+
+    return result;
+  }, [conversations, dueRemindersByNumber, searchTerm, filters, currentAdmin?.id]);
+
+  const listedConversations = useMemo(() => {
+    if (!reminderConversations.length) return filteredConversations;
+    return [
+      ...reminderConversations,
+      ...filteredConversations.filter((conversation) => !dueRemindersByNumber.has(conversation.senderNumber)),
+    ];
+  }, [dueRemindersByNumber, filteredConversations, reminderConversations]);
 
   const activeConversation = useMemo(() => {
-    if (!selectedNumber || !listData?.conversations) return null;
-    return listData.conversations.find((conversation) => conversation.senderNumber === selectedNumber) || null;
-  }, [listData, selectedNumber]);
+    if (!selectedNumber) return null;
+    return (
+      conversations.find((conversation) => conversation.senderNumber === selectedNumber) ||
+      reminderConversations.find((conversation) => conversation.senderNumber === selectedNumber) ||
+      null
+    );
+  }, [conversations, reminderConversations, selectedNumber]);
 
   const activeChannelMeta = useMemo(
     () => getChannelMeta(activeConversation?.channel ?? activeConversation?.senderNumber),
@@ -386,6 +1449,42 @@ export default function AdminConsole() {
   const isWhatsappConversation = activeChannelKey === 'whatsapp';
   const isSupportedChannel = ['whatsapp', 'instagram', 'messenger'].includes(activeChannelKey);
 
+  const templateSuggestions = useMemo(
+    () => (templateCommand === null ? [] : filterReplyTemplates(templateData?.templates ?? [], templateCommand)),
+    [templateCommand, templateData]
+  );
+
+  const templateValues = useMemo<TemplateValues>(() => {
+    if (!activeConversation) return {};
+    // Nama yang sama dengan nomor atau ID kanal tidak berguna sebagai sapaan.
+    const displayName = getConversationDisplayName(activeConversation);
+    const hasName = displayName !== activeConversation.senderNumber && displayName !== activeConversation.platformId;
+    const booking = findConversationBooking(bookingsData?.bookings ?? [], activeConversation.senderNumber);
+
+    return {
+      name: hasName ? displayName : null,
+      bookingDate: booking ? formatBookingDate(booking.bookingDate) : null,
+      bookingTime: booking?.bookingTime || null,
+      serviceName: booking ? booking.serviceName || booking.services?.join(', ') || null : null,
+    };
+  }, [activeConversation, bookingsData]);
+
+  const unresolvedTemplateVariables = useMemo(() => extractTemplateVariables(message), [message]);
+
+  const { data: whatsappSessionData } = useSWR<{ lastCustomerMessageAt: string | null }>(
+    selectedNumber && isWhatsappConversation && canReply
+      ? `/api/conversation/${encodeURIComponent(selectedNumber)}/whatsapp-session`
+      : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+  // Dipakai hanya untuk memicu render ulang saat sesi 24 jam habis ketika percakapan sedang dibuka.
+  const [, setWhatsappSessionCheckAt] = useState(0);
+
+  useEffect(() => {
+    setTemplatePickerIndex(0);
+  }, [templateCommand]);
+
   const handleSelectConversation = useCallback(
     (senderNumber: string) => {
       setSelectedNumber(senderNumber);
@@ -400,23 +1499,238 @@ export default function AdminConsole() {
     [isMobile]
   );
 
+  // Percakapan yang baru ditandai belum dibaca tidak langsung ditandai dibaca lagi selama masih terbuka.
+  const keepUnreadNumberRef = useRef<string | null>(null);
+  const latestHistoryMessageId = historyMessages[historyMessages.length - 1]?.id;
+
+  // Pesan pelanggan yang baru masuk lewat stream lebih baru dari hasil route sesi, jadi keduanya dibandingkan.
+  const lastCustomerMessageAt = useMemo(() => {
+    const latestUserMessage = [...historyMessages].reverse().find((msg) => msg.sender === 'user');
+    const historyMillis = latestUserMessage ? getTimestampMillis(latestUserMessage.timestamp) : 0;
+    const serverMillis = whatsappSessionData?.lastCustomerMessageAt
+      ? Date.parse(whatsappSessionData.lastCustomerMessageAt)
+      : 0;
+    const latest = Math.max(historyMillis, serverMillis || 0);
+    return latest ? new Date(latest).toISOString() : null;
+  }, [historyMessages, whatsappSessionData]);
+  const whatsappSession = getWhatsappSessionState(lastCustomerMessageAt);
+  const isWhatsappSessionExpired =
+    isWhatsappConversation && Boolean(whatsappSessionData || lastCustomerMessageAt) && whatsappSession.expired;
+
+  useEffect(() => {
+    if (whatsappSession.expired || !whatsappSession.expiresAt) return;
+    const delay = Date.parse(whatsappSession.expiresAt) - Date.now();
+    const timer = window.setTimeout(() => setWhatsappSessionCheckAt(Date.now()), Math.max(delay, 0) + 1000);
+    return () => window.clearTimeout(timer);
+  }, [whatsappSession.expired, whatsappSession.expiresAt]);
+
+  const handleTemplateMessageSent = (outboundMessage: OutboundMessage) => {
+    stickToBottomRef.current = true;
+    mutateHistory((current) => replaceOutboxItem(current, outboundMessage.id, outboundMessage), {
+      revalidate: false,
+    });
+    mutateHistory();
+    mutateConversations();
+  };
+
+  useEffect(() => {
+    keepUnreadNumberRef.current = null;
+  }, [selectedNumber]);
+
+  useEffect(() => {
+    if (!selectedNumber || !historyData || keepUnreadNumberRef.current === selectedNumber) return;
+
+    mutateConversations(
+      (pages) => patchConversationPages(pages, selectedNumber, () => ({ unreadCount: 0, markedUnread: false })),
+      { revalidate: false }
+    );
+    fetch(`/api/conversation/${encodeURIComponent(selectedNumber)}/read`, { method: 'POST' }).catch((err) =>
+      console.error('[AdminConsole] Gagal menandai percakapan dibaca:', err)
+    );
+  }, [selectedNumber, latestHistoryMessageId, Boolean(historyData), mutateConversations]);
+
+  const [isAssigning, setIsAssigning] = useState(false);
+  const assignedToOther =
+    activeConversation?.assignedTo && activeConversation.assignedTo.uid !== currentAdmin?.id
+      ? activeConversation.assignedTo
+      : null;
+
+  const handleAssign = async (assigneeId: string | null) => {
+    if (!selectedNumber) return;
+
+    setIsAssigning(true);
+    try {
+      const res = await fetch(`/api/conversation/${encodeURIComponent(selectedNumber)}/assign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assigneeId }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal mengubah penugasan.');
+      }
+      await Promise.all([mutateHistory(), mutateConversations()]);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal mengubah penugasan:', err);
+      alert((err as Error).message || 'Gagal mengubah penugasan.');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  // Sinyal mengetik dikirim berkala, bukan di setiap ketukan, supaya Firestore tidak dibanjiri tulisan.
+  const signalTyping = (typing: boolean) => {
+    if (!selectedNumber || !canReply) return;
+    const now = Date.now();
+    if (typing && now - lastTypingSignalRef.current < TYPING_SIGNAL_INTERVAL_MS) return;
+    if (!typing && !lastTypingSignalRef.current) return;
+
+    lastTypingSignalRef.current = typing ? now : 0;
+    fetch(`/api/conversation/${encodeURIComponent(selectedNumber)}/typing`, {
+      method: typing ? 'POST' : 'DELETE',
+    }).catch((err) => console.error('[AdminConsole] Gagal mengirim status mengetik:', err));
+  };
+
+  useEffect(() => {
+    lastTypingSignalRef.current = 0;
+  }, [selectedNumber]);
+
+  // Variabel tanpa nilai dibiarkan sebagai `{{...}}` supaya admin melengkapinya sebelum mengirim.
+  const applyReplyTemplate = (template: ReplyTemplate) => {
+    setMessage(fillTemplate(template.body, templateValues).text);
+    signalTyping(true);
+    messageInputRef.current?.focus();
+  };
+
+  const handleComposerKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (templateCommand === null) return;
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      setDismissedTemplateCommand(message);
+      return;
+    }
+    if (!templateSuggestions.length) return;
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setTemplatePickerIndex((index) => (index + step + templateSuggestions.length) % templateSuggestions.length);
+    } else if ((event.key === 'Enter' && !event.shiftKey) || event.key === 'Tab') {
+      event.preventDefault();
+      applyReplyTemplate(templateSuggestions[Math.min(templatePickerIndex, templateSuggestions.length - 1)]);
+    }
+  };
+
+  // Stream tidak mengirim apa pun saat admin lain berhenti mengetik, jadi entri basi dibuang di sini.
+  useEffect(() => {
+    if (!typingAdmins.length) return;
+    const timer = window.setInterval(() => {
+      setTypingAdmins((current) => {
+        const fresh = current.filter((entry) => Date.now() - Date.parse(entry.at) < TYPING_TTL_MS);
+        return fresh.length === current.length ? current : fresh;
+      });
+    }, 2000);
+    return () => window.clearInterval(timer);
+  }, [typingAdmins.length]);
+
+  const handleMarkUnread = async () => {
+    if (!selectedNumber) return;
+
+    keepUnreadNumberRef.current = selectedNumber;
+    mutateConversations(
+      (pages) =>
+        patchConversationPages(pages, selectedNumber, (conversation) => ({
+          unreadCount: Math.max(conversation.unreadCount ?? 0, 1),
+          markedUnread: true,
+        })),
+      { revalidate: false }
+    );
+    try {
+      const res = await fetch(`/api/conversation/${encodeURIComponent(selectedNumber)}/read`, { method: 'DELETE' });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal menandai belum dibaca.');
+      }
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menandai percakapan belum dibaca:', err);
+      alert((err as Error).message || 'Gagal menandai belum dibaca.');
+      mutateConversations();
+    }
+  };
+
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const handleJumpToMessage = useCallback(
+    (result: MessageSearchResult) => {
+      handleSelectConversation(result.senderNumber);
+      setJumpToMessageId(result.messageId);
+    },
+    [handleSelectConversation]
+  );
+
+  // Pesan hasil pencarian bisa berada jauh di belakang; muat halaman lama sampai ketemu.
+  useEffect(() => {
+    if (!jumpToMessageId || !historyPages?.length) return;
+
+    if (historyMessages.some((msg) => msg.id === jumpToMessageId)) {
+      const element = document.getElementById(`message-${jumpToMessageId}`);
+      if (!element) return;
+      stickToBottomRef.current = false;
+      element.scrollIntoView({ block: 'center' });
+      setHighlightedMessageId(jumpToMessageId);
+      setJumpToMessageId(null);
+      return;
+    }
+
+    if (hasOlderMessages && historyPageCount < SEARCH_JUMP_MAX_PAGES) {
+      if (!isLoadingOlderMessages) setHistoryPageCount((count) => count + 1);
+      return;
+    }
+
+    setJumpToMessageId(null);
+    alert('Pesan tidak ditemukan di riwayat yang dimuat.');
+  }, [
+    jumpToMessageId,
+    historyPages,
+    historyMessages,
+    hasOlderMessages,
+    historyPageCount,
+    isLoadingOlderMessages,
+    setHistoryPageCount,
+  ]);
+
   const aiPaused = historyData?.aiPaused ?? false;
   const aiPauseInfo = historyData?.aiPauseInfo;
 
   const aiStatusDescription = useMemo(() => {
+    const nextChange = formatIsoTimestamp(aiPauseInfo?.nextChangeAt);
+
     if (!aiPaused) {
-      return 'AI aktif';
+      return nextChange ? `AI aktif · dijeda jadwal mulai ${nextChange}` : 'AI aktif';
     }
 
     const segments: string[] = [];
 
+    if (aiPauseInfo?.source === 'global') {
+      return 'AI dimatikan global untuk semua percakapan';
+    }
+
+    if (aiPauseInfo?.source === 'schedule') {
+      segments.push(`AI dijeda jadwal "${aiPauseInfo.scheduleName || 'handover'}"`);
+      if (nextChange) segments.push(`aktif lagi ${nextChange}`);
+      return segments.join(' · ');
+    }
+
     if (aiPauseInfo?.manual) {
       segments.push('AI dimatikan manual');
     } else {
       segments.push('AI dijeda sementara');
     }
 
-    if (aiPauseInfo?.expiresAt) {
+    if (nextChange) {
+      segments.push(`aktif lagi ${nextChange}`);
+    } else if (aiPauseInfo?.expiresAt) {
       const formatted = formatIsoTimestamp(aiPauseInfo.expiresAt);
       if (formatted) {
         segments.push(`hingga ${formatted}`);
@@ -432,6 +1746,8 @@ export default function AdminConsole() {
             return 'manual';
           case 'timed-toggle':
             return 'otomatis';
+          case 'assigned':
+            return 'ditangani admin';
           default:
             return aiPauseInfo.reason;
         }
@@ -442,34 +1758,114 @@ export default function AdminConsole() {
     return segments.join(' · ') || 'AI dijeda';
   }, [aiPaused, aiPauseInfo]);
 
+  // Jadwal handover berubah tanpa ada dokumen Firestore yang ikut berubah, jadi segarkan sendiri saat batasnya lewat.
+  useEffect(() => {
+    const nextChangeAt = aiPauseInfo?.nextChangeAt;
+    if (!nextChangeAt) return;
+
+    const delay = Date.parse(nextChangeAt) - Date.now() + 1000;
+    if (!Number.isFinite(delay) || delay > 24 * 60 * 60 * 1000) return;
+
+    const timer = window.setTimeout(() => {
+      mutateHistory();
+      mutateConversations();
+    }, Math.max(delay, 1000));
+    return () => window.clearTimeout(timer);
+  }, [aiPauseInfo?.nextChangeAt, mutateHistory, mutateConversations]);
+
+  const handleAttachmentChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    const nextAttachments = Array.from(files).map((file) => ({
+      file,
+      preview: URL.createObjectURL(file),
+      type: getAttachmentType(file.type),
+    }));
+
+    setComposerAttachments((prev) => [...prev, ...nextAttachments]);
+    if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+  };
+
+  const removeComposerAttachment = (index: number) => {
+    setComposerAttachments((prev) => {
+      const updated = [...prev];
+      URL.revokeObjectURL(updated[index].preview);
+      updated.splice(index, 1);
+      return updated;
+    });
+  };
+
   const handleSendMessage = async () => {
     const trimmed = message.trim();
-    if (!trimmed || !selectedNumber) return;
+    if ((!trimmed && !composerAttachments.length) || !selectedNumber) return;
     if (!canSendMessages) {
-      alert('Pengiriman pesan membutuhkan konfigurasi NEXT_PUBLIC_API_BASE_URL yang mengarah ke backend.');
+      alert('Pengiriman pesan membutuhkan konfigurasi API_BASE_URL backend bot di server admin UI.');
       return;
     }
     if (!isSupportedChannel) {
       alert('Balasan untuk kanal ini belum didukung dari admin UI.');
       return;
     }
+    if (
+      unresolvedTemplateVariables.length &&
+      !confirm(
+        `Variabel ${unresolvedTemplateVariables.map((name) => `{{${name}}}`).join(', ')} belum terisi. Tetap kirim?`
+      )
+    ) {
+      return;
+    }
+
+    // Kosongkan composer segera supaya admin bisa langsung menulis balasan berikutnya.
+    const attachments = composerAttachments;
+    const localId = `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const optimisticMessage: OutboundMessage = {
+      id: localId,
+      senderNumber: selectedNumber,
+      message: trimmed,
+      channel: activeConversation?.channel ?? activeChannelKey,
+      media: attachments.map((attachment) => ({
+        type: attachment.type,
+        mimetype: attachment.file.type || 'application/octet-stream',
+        fileName: attachment.file.name,
+        caption: null,
+      })),
+      status: 'sending',
+      attempts: 0,
+      maxAttempts: 0,
+      lastError: null,
+      createdByEmail: currentAdmin?.email ?? null,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: null,
+      sentAt: null,
+    };
+    setMessage('');
+    signalTyping(false);
+    setComposerAttachments([]);
+    stickToBottomRef.current = true;
+
+    const sendMessage = async () => {
+      const media = await Promise.all(
+        attachments.map(async (attachment) => ({
+          type: attachment.type,
+          mimetype: attachment.file.type || 'application/octet-stream',
+          fileName: attachment.file.name,
+          base64: await fileToBase64(attachment.file),
+        }))
+      );
+      attachments.forEach((attachment) => URL.revokeObjectURL(attachment.preview));
 
-    setIsSending(true);
-    try {
-      const sendMessageUrl = buildApiUrl('/send-message');
       const payload = {
         number: selectedNumber,
         message: trimmed,
         channel: activeConversation?.channel ?? activeChannelKey,
         platformId: activeConversation?.platformId || null,
+        media: media.length ? media : undefined,
       };
 
-      const res = await fetch(sendMessageUrl, {
+      const res = await fetch('/api/send-message', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'ngrok-skip-browser-warning': 'true',
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
       });
 
@@ -486,13 +1882,140 @@ export default function AdminConsole() {
         }
       }
 
-      setMessage('');
-      await Promise.all([mutateHistory(), mutateConversations()]);
+      const data = (await res.json()) as { outboundMessage: OutboundMessage };
+      return data.outboundMessage;
+    };
+
+    // Tampilkan gelembung sementara tanpa menunggu server; beberapa balasan boleh antre bersamaan.
+    mutateHistory(
+      (current) => (current ? { ...current, outbox: [...(current.outbox ?? []), optimisticMessage] } : current),
+      { revalidate: false }
+    );
+
+    try {
+      // Status 202 berarti pesan sudah masuk outbox tetapi belum terkirim; gelembungnya tetap tampil dengan status dari server.
+      const outboundMessage = await sendMessage();
+      await mutateHistory((current) => replaceOutboxItem(current, localId, outboundMessage), {
+        revalidate: false,
+      });
+      mutateHistory();
+      mutateConversations();
     } catch (err) {
       console.error('[AdminConsole] Gagal mengirim pesan:', err);
+      mutateHistory((current) => replaceOutboxItem(current, localId, null), { revalidate: false });
+      setMessage((current) => current || trimmed);
       alert('Gagal mengirim pesan. Cek log server.');
+    }
+  };
+
+  const handleRetryOutbound = async (outboundId: string) => {
+    setRetryingOutboundId(outboundId);
+    try {
+      const res = await fetch(`/api/outbox/${encodeURIComponent(outboundId)}/retry`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Gagal mengirim ulang pesan.');
+      }
+      await Promise.all([mutateHistory(), mutateConversations()]);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal mengirim ulang pesan:', err);
+      alert((err as Error).message || 'Gagal mengirim ulang pesan.');
     } finally {
-      setIsSending(false);
+      setRetryingOutboundId(null);
+    }
+  };
+
+  const toggleConversationSelection = useCallback((senderNumber: string) => {
+    setSelectedConversationNumbers((current) =>
+      current.includes(senderNumber) ? current.filter((item) => item !== senderNumber) : [...current, senderNumber]
+    );
+  }, []);
+
+  const stopSelectingConversations = () => {
+    setIsSelectingConversations(false);
+    setSelectedConversationNumbers([]);
+  };
+
+  const handleBulkAi = async (enabled: boolean, target: { senderNumbers?: string[]; label?: string }) => {
+    const count = target.label ? `semua percakapan berlabel ${target.label}` : `${target.senderNumbers?.length ?? 0} percakapan`;
+    if (!confirm(`${enabled ? 'Aktifkan' : 'Jeda'} AI untuk ${count}?`)) return;
+
+    setIsApplyingBulkAi(true);
+    try {
+      const res = await fetch('/api/ai-state/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...target,
+          enabled,
+          reason: 'admin-ui-bulk',
+          durationMinutes: !enabled && !canDisableAi ? TIMED_PAUSE_MINUTES : undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Gagal memperbarui status AI.');
+      }
+
+      const data = await res.json().catch(() => ({}));
+      if (data.skipped?.length) {
+        alert(`${data.skipped.length} percakapan dilewati karena AI-nya dimatikan manual oleh owner atau admin.`);
+      }
+
+      stopSelectingConversations();
+      await Promise.all([mutateConversations(), selectedNumber ? mutateHistory() : undefined]);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal memperbarui status AI massal:', err);
+      alert((err as Error).message || 'Gagal memperbarui status AI. Coba lagi.');
+    } finally {
+      setIsApplyingBulkAi(false);
+    }
+  };
+
+  const handleMergeCustomers = async () => {
+    if (!confirm(`Gabungkan ${selectedConversationNumbers.length} percakapan menjadi satu profil pelanggan?`)) return;
+
+    setIsApplyingBulkAi(true);
+    try {
+      const res = await fetch('/api/customers/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ senderNumbers: selectedConversationNumbers }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Gagal menggabungkan profil.');
+      }
+
+      stopSelectingConversations();
+      await mutateConversations();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menggabungkan profil:', err);
+      alert((err as Error).message || 'Gagal menggabungkan profil.');
+    } finally {
+      setIsApplyingBulkAi(false);
+    }
+  };
+
+  const handleToggleGlobalAi = async () => {
+    const paused = !globalAiPause?.paused;
+    if (paused && !confirm('Matikan AI untuk SEMUA percakapan sampai dinyalakan kembali?')) return;
+
+    try {
+      const res = await fetch('/api/ai-state/global', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paused, reason: 'admin-ui-kill-switch' }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Gagal memperbarui saklar AI global.');
+      }
+
+      await Promise.all([mutateGlobalAiPause(), mutateConversations(), selectedNumber ? mutateHistory() : undefined]);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal memperbarui saklar AI global:', err);
+      alert((err as Error).message || 'Gagal memperbarui saklar AI global.');
     }
   };
 
@@ -506,16 +2029,26 @@ export default function AdminConsole() {
       const isPaused = conversation.aiPaused ?? false;
       const hasNotification = notifications.some((item) => item.senderNumber === conversation.senderNumber);
       const channelMeta = getChannelMeta(conversation.channel ?? conversation.senderNumber);
+      const isChecked = selectedConversationNumbers.includes(conversation.senderNumber);
+      const unreadCount = conversation.unreadCount ?? 0;
+      const dueReminder = dueRemindersByNumber.get(conversation.senderNumber);
 
       return (
         <button
           key={conversation.senderNumber}
           type="button"
-          className={`conversation-item${isActive ? ' active' : ''}${hasNotification ? ' new-message' : ''}`}
-          onClick={() => handleSelectConversation(conversation.senderNumber)}
+          className={`conversation-item${isActive ? ' active' : ''}${hasNotification ? ' new-message' : ''}${isChecked ? ' selected' : ''}${unreadCount ? ' unread' : ''}${dueReminder ? ' reminder-due' : ''}`}
+          onClick={() =>
+            isSelectingConversations
+              ? toggleConversationSelection(conversation.senderNumber)
+              : handleSelectConversation(conversation.senderNumber)
+          }
         >
           <div className="conversation-item__header">
             <div className="conversation-item__title">
+              {isSelectingConversations && (
+                <input type="checkbox" checked={isChecked} readOnly tabIndex={-1} aria-hidden="true" />
+              )}
               <span className="conversation-item__name">{displayName}</span>
               <span
                 className={`pill pill-channel ${channelMeta.pillClass}`}
@@ -524,23 +2057,55 @@ export default function AdminConsole() {
                 {channelMeta.tag}
               </span>
               {conversation.label && (
-                <span className={`pill label-badge ${conversation.label}`} title={conversation.labelReason || ''}>
-                  {conversation.label.replace('_', ' ')}
-                </span>
+                <LabelBadge
+                  labels={labelDefinitions}
+                  labelKey={conversation.label}
+                  title={conversation.labelReason || ''}
+                />
               )}
               {isPaused && <span className="pill pill-warning">AI OFF</span>}
+              {dueReminder && (
+                <span className="pill pill-reminder" title={dueReminder.note || 'Pengingat follow-up jatuh tempo'}>
+                  ⏰ Follow-up
+                </span>
+              )}
+              {conversation.assignedTo && (
+                <span className="pill pill-assignee" title={`Ditangani ${getAssigneeName(conversation.assignedTo)}`}>
+                  {conversation.assignedTo.uid === currentAdmin?.id ? 'Saya' : getAssigneeName(conversation.assignedTo)}
+                </span>
+              )}
+              {conversation.customer && conversation.customer.identityCount > 1 && (
+                <span className="pill" title="Tertaut dengan percakapan lain milik pelanggan yang sama">🔗</span>
+              )}
+            </div>
+            <div className="conversation-item__aside">
+              {formattedTimestamp ? (
+                <span className="conversation-item__time">{formattedTimestamp}</span>
+              ) : (
+                <span className="conversation-item__time muted">—</span>
+              )}
+              {unreadCount > 0 && (
+                <span className="unread-badge" title={conversation.markedUnread ? 'Ditandai belum dibaca' : undefined}>
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
             </div>
-            {formattedTimestamp ? (
-              <span className="conversation-item__time">{formattedTimestamp}</span>
-            ) : (
-              <span className="conversation-item__time muted">—</span>
-            )}
           </div>
           <div className="conversation-item__subtitle">{subtitle}</div>
         </button>
       );
     },
-    [handleSelectConversation, notifications, selectedNumber]
+    [
+      currentAdmin?.id,
+      dueRemindersByNumber,
+      handleSelectConversation,
+      isSelectingConversations,
+      labelDefinitions,
+      notifications,
+      selectedConversationNumbers,
+      selectedNumber,
+      toggleConversationSelection,
+    ]
   );
 
   const handleToggleAi = async () => {
@@ -548,10 +2113,11 @@ export default function AdminConsole() {
 
     setIsTogglingAi(true);
     try {
-      const url = buildApiUrl(`/conversation/${selectedNumber}/ai-state`);
+      const url = `/api/conversation/${encodeURIComponent(selectedNumber)}/ai-state`;
       const payload = {
         enabled: aiPaused,
         reason: 'admin-ui-toggle',
+        durationMinutes: !aiPaused && !canDisableAi ? TIMED_PAUSE_MINUTES : undefined,
       };
 
       const res = await fetch(url, {
@@ -579,17 +2145,28 @@ export default function AdminConsole() {
       await Promise.all([mutateHistory(), mutateConversations()]);
     } catch (err) {
       console.error('[AdminConsole] Gagal memperbarui status AI:', err);
-      alert('Gagal memperbarui status AI. Coba lagi.');
+      alert((err as Error).message || 'Gagal memperbarui status AI. Coba lagi.');
     } finally {
       setIsTogglingAi(false);
     }
   };
 
+  // Jeda dari jadwal atau saklar global tidak bisa dibatalkan dari toggle per percakapan.
+  const isExternalPause = aiPaused && (aiPauseInfo?.source === 'schedule' || aiPauseInfo?.source === 'global');
+  // AI yang dimatikan manual hanya bisa dinyalakan oleh role yang boleh mematikannya.
+  const isManualPauseLocked = aiPaused && aiPauseInfo?.source === 'manual' && !canDisableAi;
+  const isAiToggleLocked = isExternalPause || isManualPauseLocked;
   const toggleButtonLabel = isTogglingAi
     ? 'Memproses...'
-    : aiPaused
+    : isExternalPause
+      ? aiPauseInfo?.source === 'global' ? 'AI global mati' : 'Dijeda jadwal'
+      : isManualPauseLocked
+      ? 'AI dimatikan admin'
+      : aiPaused
       ? 'Aktifkan AI'
-      : 'Matikan AI';
+      : canDisableAi
+        ? 'Matikan AI'
+        : `Jeda AI ${TIMED_PAUSE_MINUTES} menit`;
 
   const toggleButtonClassName = aiPaused
     ? 'toggle-button toggle-button--resume'
@@ -644,15 +2221,27 @@ export default function AdminConsole() {
         </div>
       )}
 
-      {/* Booking Modal */}
+      {showCustomerPanel && selectedNumber && viewMode === 'chat' && (
+        <CustomerProfilePanel
+          senderNumber={selectedNumber}
+          canEdit={canUpdateCustomers}
+          canEditLabel={canUpdateLabels}
+          labels={labelDefinitions}
+          onClose={() => setShowCustomerPanel(false)}
+          onOpenConversation={handleSelectConversation}
+          onChange={() => mutateConversations()}
+        />
+      )}
+
+      {/* Booking Modal */}
       {selectedBooking && (
         <BookingModal
           booking={selectedBooking}
           onClose={() => setSelectedBooking(null)}
-          onUpdate={async (id, status, notes) => {
+          onUpdate={async (_id, status, notes) => {
             setIsUpdatingBooking(true);
             try {
-              await updateBookingStatus(id, status, notes);
+              await updateBookingStatus(selectedBooking, status, notes);
               await mutateBookings();
               setSelectedBooking(null);
             } finally {
@@ -660,6 +2249,7 @@ export default function AdminConsole() {
             }
           }}
           isUpdating={isUpdatingBooking}
+          canUpdate={canUpdateBookings}
         />
       )}
 
@@ -690,58 +2280,229 @@ export default function AdminConsole() {
               >
                 Agenda
               </button>
-              <a
-                href="/playground"
-                className="view-btn"
-                style={{ textAlign: 'center', textDecoration: 'none' }}
+              {canReadAudit && (
+                <button
+                  className={`view-btn ${viewMode === 'audit' ? 'active' : ''}`}
+                  onClick={() => {
+                    setAuditSenderFilter('');
+                    setViewMode('audit');
+                  }}
+                >
+                  Audit
+                </button>
+              )}
+              <button
+                className={`view-btn ${viewMode === 'schedules' ? 'active' : ''}`}
+                onClick={() => setViewMode('schedules')}
               >
-                🧪 Playground
-              </a>
+                Jadwal AI
+              </button>
+              {(canReply || canManageTemplates) && (
+                <button
+                  className={`view-btn ${viewMode === 'templates' ? 'active' : ''}`}
+                  onClick={() => setViewMode('templates')}
+                >
+                  Template
+                </button>
+              )}
+              {canManageCampaigns && (
+                <button
+                  className={`view-btn ${viewMode === 'campaigns' ? 'active' : ''}`}
+                  onClick={() => setViewMode('campaigns')}
+                >
+                  Broadcast
+                </button>
+              )}
+              {canUsePlayground && (
+                <a
+                  href="/playground"
+                  className="view-btn"
+                  style={{ textAlign: 'center', textDecoration: 'none' }}
+                >
+                  🧪 Playground
+                </a>
+              )}
             </div>
+            {currentAdmin && (
+              <div className="admin-session">
+                <span className="admin-session__name" title={currentAdmin.email}>
+                  {currentAdmin.name || currentAdmin.email} · {ROLE_LABELS[currentAdmin.role] ?? currentAdmin.role}
+                </span>
+                <button type="button" className="admin-session__logout" onClick={logout}>
+                  Keluar
+                </button>
+              </div>
+            )}
             {/* Filter Dropdown */}
             <div className="filter-container" style={{ marginTop: '0.5rem' }}>
               <select
                 value={filterLabel}
-                onChange={(e) => setFilterLabel(e.target.value)}
+                onChange={(e) => setFilters((current) => ({ ...current, label: e.target.value }))}
                 className="filter-select"
                 style={{ width: '100%', padding: '0.5rem', borderRadius: '8px', border: '1px solid var(--border-dim)', fontSize: '0.9rem' }}
               >
                 <option value="">Semua Chat</option>
-                <option value="hot_lead">Hot Lead 🔥</option>
-                <option value="cold_lead">Cold Lead ❄️</option>
-                <option value="booking_process">Booking 📅</option>
-                <option value="scheduling">Scheduling 🕒</option>
-                <option value="completed">Completed ✅</option>
-                <option value="follow_up">Follow Up 📌</option>
-                <option value="general">General 📝</option>
-                <option value="archive">Archive 🗄️</option>
+                {labelDefinitions.map((label) => (
+                  <option key={label.key} value={label.key}>{formatLabel(labelDefinitions, label.key)}</option>
+                ))}
               </select>
+              <button
+                type="button"
+                className={`toggle-button${showFilterPanel ? ' active' : ''}`}
+                onClick={() => setShowFilterPanel((current) => !current)}
+              >
+                Filter{hasConversationFilters({ ...filters, label: '', assignee: null }) ? ' •' : ''}
+              </button>
             </div>
+            {showFilterPanel && <ConversationFilterPanel filters={filters} onChange={setFilters} />}
           </div>
 
+          {globalAiPause?.paused ? (
+            <div className="notice global-ai">
+              <span>
+                AI dimatikan untuk semua percakapan
+                {globalAiPause.updatedBy ? ` oleh ${globalAiPause.updatedBy}` : ''}.
+              </span>
+              {canDisableAi && (
+                <button type="button" className="toggle-button toggle-button--resume" onClick={handleToggleGlobalAi}>
+                  Nyalakan AI
+                </button>
+              )}
+            </div>
+          ) : (
+            canDisableAi && (
+              <button type="button" className="toggle-button toggle-button--pause global-ai__switch" onClick={handleToggleGlobalAi}>
+                Matikan AI global
+              </button>
+            )
+          )}
+
           <label htmlFor="search" className="visually-hidden">
             Cari pelanggan
           </label>
-          <input
-            id="search"
-            placeholder="Cari nama, nomor, atau pesan..."
-            value={searchTerm}
-            onChange={(event) => setSearchTerm(event.target.value)}
-          />
+          <div className="search-row">
+            <input
+              id="search"
+              placeholder="Cari nama, nomor, atau pesan..."
+              value={searchTerm}
+              onChange={(event) => setSearchTerm(event.target.value)}
+            />
+            {canPauseAi && viewMode === 'chat' && (
+              <button
+                type="button"
+                className={`toggle-button${isSelectingConversations ? ' active' : ''}`}
+                onClick={() => (isSelectingConversations ? stopSelectingConversations() : setIsSelectingConversations(true))}
+              >
+                {isSelectingConversations ? 'Batal' : 'Pilih'}
+              </button>
+            )}
+          </div>
+
+          {isSelectingConversations && viewMode === 'chat' && (
+            <div className="bulk-actions">
+              <span className="muted">{selectedConversationNumbers.length} dipilih</span>
+              <button
+                type="button"
+                className="toggle-button toggle-button--pause"
+                disabled={!selectedConversationNumbers.length || isApplyingBulkAi}
+                onClick={() => handleBulkAi(false, { senderNumbers: selectedConversationNumbers })}
+              >
+                {canDisableAi ? 'Matikan AI' : `Jeda AI ${TIMED_PAUSE_MINUTES} menit`}
+              </button>
+              <button
+                type="button"
+                className="toggle-button toggle-button--resume"
+                disabled={!selectedConversationNumbers.length || isApplyingBulkAi}
+                onClick={() => handleBulkAi(true, { senderNumbers: selectedConversationNumbers })}
+              >
+                Aktifkan AI
+              </button>
+              {canUpdateCustomers && (
+                <button
+                  type="button"
+                  className="toggle-button"
+                  disabled={selectedConversationNumbers.length < 2 || isApplyingBulkAi}
+                  onClick={handleMergeCustomers}
+                >
+                  Gabungkan profil
+                </button>
+              )}
+              {filterLabel && (
+                <button
+                  type="button"
+                  className="toggle-button"
+                  disabled={isApplyingBulkAi}
+                  onClick={() => handleBulkAi(false, { label: filterLabel })}
+                >
+                  Jeda semua label {formatLabel(labelDefinitions, filterLabel)}
+                </button>
+              )}
+            </div>
+          )}
+
+          {viewMode === 'chat' && (
+            <div className="assignee-switch" role="group" aria-label="Filter penugasan">
+              {ASSIGNEE_FILTER_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  className={`view-btn ${filters.assignee === option.value ? 'active' : ''}`}
+                  onClick={() => setFilters((current) => ({ ...current, assignee: option.value }))}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
 
           {viewMode === 'chat' ? (
             <>
               {listError && <div className="notice">Gagal memuat daftar percakapan. {listError.message}</div>}
-              <div className="conversation-list">
-                {isLoadingList && !filteredConversations.length ? (
+              <div className="conversation-list" onScroll={handleConversationListScroll}>
+                <MessageSearchResults query={searchTerm} onSelect={handleJumpToMessage} />
+                {isLoadingList && !listedConversations.length ? (
                   <p className="muted">Memuat percakapan...</p>
-                ) : filteredConversations.length ? (
-                  filteredConversations.map(renderConversationItem)
+                ) : listedConversations.length ? (
+                  listedConversations.map(renderConversationItem)
                 ) : (
                   <p className="muted">Belum ada percakapan yang tersimpan.</p>
                 )}
+                {isLoadingMoreConversations && conversations.length > 0 && (
+                  <p className="muted conversation-list__more">Memuat percakapan lainnya...</p>
+                )}
+                {!isLoadingMoreConversations && hasMoreConversations && (
+                  <button
+                    type="button"
+                    className="conversation-list__load-more"
+                    onClick={() => setListPageCount((count) => count + 1)}
+                  >
+                    Muat lebih banyak
+                  </button>
+                )}
               </div>
             </>
+          ) : viewMode === 'audit' ? (
+            <div className="sidebar__info">
+              <p className="muted">Gunakan filter di panel audit untuk mencari siapa melakukan aksi apa.</p>
+            </div>
+          ) : viewMode === 'campaigns' ? (
+            <div className="sidebar__info">
+              <p className="muted">
+                Broadcast dikirim bertahap lewat outbox. Pelanggan yang membalas STOP atau ditandai berhenti tidak ikut dikirimi.
+              </p>
+            </div>
+          ) : viewMode === 'templates' ? (
+            <div className="sidebar__info">
+              <p className="muted">
+                Ketik <code>/</code> di kolom balasan untuk memilih template. Variabel diisi dari percakapan dan booking aktif.
+              </p>
+            </div>
+          ) : viewMode === 'schedules' ? (
+            <div className="sidebar__info">
+              <p className="muted">
+                Jadwal berkanal menggantikan jadwal umum untuk kanal tersebut. Jeda manual atau timer selalu didahulukan.
+              </p>
+            </div>
           ) : (
             <div className="sidebar__info">
               <p className="muted">Pilih tanggal di kalender untuk melihat detail booking.</p>
@@ -765,6 +2526,27 @@ export default function AdminConsole() {
               bookings={bookingsData?.bookings || []}
               onSelectBooking={setSelectedBooking}
             />
+          ) : viewMode === 'templates' ? (
+            <ReplyTemplateView canEdit={canManageTemplates} />
+          ) : viewMode === 'campaigns' ? (
+            <CampaignView labels={labelDefinitions} />
+          ) : viewMode === 'schedules' ? (
+            <HandoverScheduleView
+              canEdit={canDisableAi}
+              onChange={() => {
+                mutateHistory();
+                mutateConversations();
+              }}
+            />
+          ) : viewMode === 'audit' ? (
+            <AuditLogView
+              key={auditSenderFilter}
+              initialSenderNumber={auditSenderFilter}
+              onOpenConversation={(senderNumber) => {
+                setViewMode('chat');
+                handleSelectConversation(senderNumber);
+              }}
+            />
           ) : activeConversation ? (
             <>
               {isMobile ? (
@@ -784,27 +2566,30 @@ export default function AdminConsole() {
                     </div>
                   </div>
 
-                  <div className="header-info" onClick={() => {/* Maybe show contact info */ }}>
+                  <div className="header-info" onClick={() => setShowCustomerPanel(true)}>
                     <h2>{getConversationDisplayName(activeConversation)}</h2>
                     <p className="status-text">
                       {aiPaused ? 'AI Stopped' : 'AI Active'}
                       {activeConversation.label && (
                         <span style={{ marginLeft: '5px', fontWeight: 'bold', color: 'var(--accent-yellow)' }}>
-                          • {activeConversation.label.replace('_', ' ')}
+                          • {formatLabel(labelDefinitions, activeConversation.label)}
                         </span>
                       )}
                     </p>
                   </div>
 
                   <div className="header-actions">
-                    <button
-                      type="button"
-                      className={`header-btn header-btn--ai ${aiPaused ? 'is-off' : 'is-on'}`}
-                      onClick={handleToggleAi}
-                      title={toggleButtonLabel}
-                    >
-                      {aiPaused ? 'OFF' : 'ON'}
-                    </button>
+                    {canPauseAi && (
+                      <button
+                        type="button"
+                        className={`header-btn header-btn--ai ${aiPaused ? 'is-off' : 'is-on'}`}
+                        onClick={handleToggleAi}
+                        disabled={isAiToggleLocked}
+                        title={toggleButtonLabel}
+                      >
+                        {aiPaused ? 'OFF' : 'ON'}
+                      </button>
+                    )}
                   </div>
                 </header>
               ) : (
@@ -823,12 +2608,11 @@ export default function AdminConsole() {
                         {activeChannelMeta.tag}
                       </span>
                       {activeConversation.label && (
-                        <span
-                          className={`pill label-badge ${activeConversation.label}`}
+                        <LabelBadge
+                          labels={labelDefinitions}
+                          labelKey={activeConversation.label}
                           title={activeConversation.labelReason || ''}
-                        >
-                          {activeConversation.label.replace('_', ' ')}
-                        </span>
+                        />
                       )}
                     </div>
                     <div className="ai-status">
@@ -840,16 +2624,71 @@ export default function AdminConsole() {
                   </div>
                   <div className="content__header-actions">
                     <span className="badge">
-                      {isLoadingHistory ? 'Memuat...' : `${historyData?.messageCount || 0} pesan`}
+                      {isLoadingHistory && !historyData
+                        ? 'Memuat...'
+                        : `${activeConversation.messageCount ?? historyMessages.length} pesan`}
                     </span>
                     <button
                       type="button"
-                      className={toggleButtonClassName}
-                      onClick={handleToggleAi}
-                      disabled={!selectedNumber || isTogglingAi}
+                      className="toggle-button"
+                      onClick={() => setShowCustomerPanel((current) => !current)}
                     >
-                      {toggleButtonLabel}
+                      Profil
+                    </button>
+                    <button type="button" className="toggle-button" onClick={handleMarkUnread}>
+                      Tandai belum dibaca
                     </button>
+                    {canAssignOthers ? (
+                      <select
+                        className="assignee-select"
+                        value={activeConversation.assignedTo?.uid ?? ''}
+                        disabled={isAssigning}
+                        onChange={(event) => handleAssign(event.target.value || null)}
+                        aria-label="Tugaskan ke admin"
+                      >
+                        <option value="">Belum ditugaskan</option>
+                        {(adminsData?.admins ?? []).map((candidate) => (
+                          <option key={candidate.uid} value={candidate.uid}>{getAssigneeName(candidate)}</option>
+                        ))}
+                      </select>
+                    ) : canReply && (!activeConversation.assignedTo || activeConversation.assignedTo.uid === currentAdmin?.id) ? (
+                      <button
+                        type="button"
+                        className="toggle-button"
+                        disabled={isAssigning}
+                        onClick={() => handleAssign(activeConversation.assignedTo ? null : currentAdmin?.id ?? null)}
+                      >
+                        {activeConversation.assignedTo ? 'Lepas penugasan' : 'Ambil alih'}
+                      </button>
+                    ) : null}
+                    {canReadAudit && (
+                      <button
+                        type="button"
+                        className="toggle-button"
+                        onClick={() => openAuditForConversation(activeConversation.senderNumber)}
+                      >
+                        Riwayat aksi
+                      </button>
+                    )}
+                    {canPauseAi && (
+                      <button
+                        type="button"
+                        className={toggleButtonClassName}
+                        onClick={handleToggleAi}
+                        disabled={!selectedNumber || isTogglingAi || isAiToggleLocked}
+                        title={
+                          isExternalPause
+                            ? aiPauseInfo?.source === 'global'
+                              ? 'Nyalakan kembali AI global untuk mengaktifkan AI.'
+                              : 'Ubah atau nonaktifkan jadwal AI untuk menyalakan AI sekarang.'
+                            : isManualPauseLocked
+                              ? 'Hanya owner atau admin yang bisa menyalakan AI yang dimatikan manual.'
+                              : undefined
+                        }
+                      >
+                        {toggleButtonLabel}
+                      </button>
+                    )}
                   </div>
                 </header>
               )}
@@ -857,9 +2696,28 @@ export default function AdminConsole() {
               <div className="chat-panel">
                 {historyError && <div className="notice">Gagal memuat percakapan. {historyError.message}</div>}
 
-                <div className="message-list">
-                  {historyData?.history?.length ? (
-                    historyData.history.map((msg, index) => {
+                <div className="message-list" ref={messageListRef} onScroll={handleMessageListScroll}>
+                  {isLoadingOlderMessages && (
+                    <p className="muted message-list__older">Memuat pesan sebelumnya...</p>
+                  )}
+                  {!isLoadingOlderMessages && hasOlderMessages && (
+                    <button
+                      type="button"
+                      className="message-list__load-older"
+                      onClick={(event) => {
+                        const list = messageListRef.current;
+                        if (list) {
+                          scrollRestoreRef.current = { height: list.scrollHeight, top: list.scrollTop };
+                        }
+                        event.currentTarget.blur();
+                        setHistoryPageCount((count) => count + 1);
+                      }}
+                    >
+                      Muat pesan sebelumnya
+                    </button>
+                  )}
+                  {historyMessages.length ? (
+                    historyMessages.map((msg, index) => {
                       const timestampKey =
                         typeof msg.timestamp === 'object' && msg.timestamp
                           ? msg.timestamp.seconds
@@ -867,63 +2725,205 @@ export default function AdminConsole() {
 
                       return (
                         <div
-                          key={`${timestampKey}-${index}`}
-                          className={`message-item ${msg.sender}`}
+                          key={msg.id ?? `${timestampKey}-${index}`}
+                          id={msg.id ? `message-${msg.id}` : undefined}
+                          className={`message-item ${msg.sender}${
+                            msg.id && msg.id === highlightedMessageId ? ' message-item--search-hit' : ''
+                          }`}
                         >
                           <div className="message-item__meta">
                             <span className="message-item__sender">{getSenderLabel(msg.sender)}</span>
                             <span className="message-item__time">{formatTimestamp(msg.timestamp)}</span>
                           </div>
-                          <div dangerouslySetInnerHTML={formatWhatsappText(msg.text)} />
+                          {msg.attachments?.length ? (
+                            <MessageAttachments attachments={msg.attachments} text={msg.text} />
+                          ) : null}
+                          {msg.text && <div dangerouslySetInnerHTML={formatWhatsappText(msg.text)} />}
                         </div>
                       );
                     })
-                  ) : (
+                  ) : outboxMessages.length ? null : (
                     <p className="muted">Belum ada pesan untuk percakapan ini.</p>
                   )}
+                  {outboxMessages.map((item) => (
+                    <div key={item.id} className={`message-item admin outbound outbound--${item.status}`}>
+                      <div className="message-item__meta">
+                        <span className="message-item__sender">{getSenderLabel('admin')}</span>
+                        <span className="message-item__time">{formatIsoTimestamp(item.createdAt)}</span>
+                      </div>
+                      {item.media.length > 0 && (
+                        <div className="outbound__media">
+                          {item.media.map((media, index) => (
+                            <span key={`${item.id}-${index}`}>📎 {media.fileName || media.mimetype}</span>
+                          ))}
+                        </div>
+                      )}
+                      {item.templateName && <div className="outbound__template">Template {item.templateName}</div>}
+                      {item.message && <div dangerouslySetInnerHTML={formatWhatsappText(item.message)} />}
+                      <div className="outbound__status">
+                        <span title={item.lastError || ''}>
+                          {OUTBOUND_STATUS_LABELS[item.status]}
+                          {item.status === 'pending' && item.attempts > 0
+                            ? ` (${item.attempts}/${item.maxAttempts})`
+                            : ''}
+                        </span>
+                        {item.status === 'failed' && canReply && (
+                          <button
+                            type="button"
+                            className="outbound__retry"
+                            disabled={retryingOutboundId === item.id}
+                            onClick={() => handleRetryOutbound(item.id)}
+                          >
+                            {retryingOutboundId === item.id ? 'Mengirim...' : 'Kirim ulang'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
 
-              <div className="composer">
-                <textarea
-                  ref={messageInputRef}
-                  id="message"
-                  rows={1}
-                  aria-label="Balasan untuk pelanggan"
-                  placeholder="Tulis balasan untuk pelanggan..."
-                  value={message}
-                  onChange={(event) => setMessage(event.target.value)}
-                />
-                <div className="composer__actions">
-                  {!canSendMessages && (
-                    <span className="composer__hint">
-                      Setel <code>NEXT_PUBLIC_API_BASE_URL</code> agar admin bisa membalas via backend bot.
-                    </span>
-                  )}
-                  {canSendMessages && !isSupportedChannel && (
-                    <span className="composer__hint">
-                      Chat berasal dari kanal {activeChannelMeta.label}. Balasan admin UI untuk kanal ini belum didukung.
-                    </span>
-                  )}
-                  {canSendMessages && isSupportedChannel && !isWhatsappConversation && (
-                    <span className="composer__hint">
-                      Balasan admin akan dikirim melalui {activeChannelMeta.label}.
-                    </span>
+              {canReply ? (
+                <div className="composer-wrapper">
+                  {typingAdmins.length > 0 ? (
+                    <div className="composer-collision">
+                      {typingAdmins.map(getAssigneeName).join(', ')} sedang mengetik balasan di percakapan ini.
+                    </div>
+                  ) : assignedToOther ? (
+                    <div className="composer-collision">
+                      Percakapan ini ditangani {getAssigneeName(assignedToOther)}.
+                    </div>
+                  ) : null}
+                  <ScheduledMessagePanel
+                    key={selectedNumber}
+                    senderNumber={selectedNumber}
+                    channel={activeConversation.channel ?? activeChannelKey}
+                    platformId={activeConversation.platformId || null}
+                    draft={message}
+                    canScheduleMessages={canSendMessages && isSupportedChannel && !isWhatsappSessionExpired}
+                    onDraftScheduled={() => {
+                      setMessage('');
+                      signalTyping(false);
+                    }}
+                    onChange={() => mutateDueReminders()}
+                  />
+                  {isWhatsappSessionExpired ? (
+                    <WhatsappTemplateComposer
+                      key={selectedNumber}
+                      senderNumber={selectedNumber}
+                      platformId={activeConversation.platformId || null}
+                      lastCustomerMessageAt={lastCustomerMessageAt}
+                      onSent={handleTemplateMessageSent}
+                    />
+                  ) : (
+                    <>
+                      {templateCommand !== null && (
+                        <ReplyTemplatePicker
+                          templates={templateSuggestions}
+                          query={templateCommand}
+                          activeIndex={templatePickerIndex}
+                          values={templateValues}
+                          isLoading={!templateData}
+                          onHover={setTemplatePickerIndex}
+                          onSelect={applyReplyTemplate}
+                        />
+                      )}
+                      {templateCommand === null && unresolvedTemplateVariables.length > 0 && (
+                        <div className="composer-template-warning">
+                          Lengkapi {unresolvedTemplateVariables.map((name) => `{{${name}}}`).join(', ')} sebelum mengirim.
+                        </div>
+                      )}
+                      {composerAttachments.length > 0 && (
+                        <div className="composer-attachments">
+                          {composerAttachments.map((attachment, index) => (
+                            <div key={attachment.preview} className="composer-attachment">
+                              {attachment.type === 'image' ? (
+                                <img src={attachment.preview} alt={attachment.file.name} />
+                              ) : (
+                                <span className="composer-attachment__label">
+                                  {attachment.type === 'video' ? '🎬' : attachment.type === 'audio' ? '🎵' : '📄'}{' '}
+                                  {attachment.file.name}
+                                </span>
+                              )}
+                              <button
+                                type="button"
+                                className="composer-attachment__remove"
+                                onClick={() => removeComposerAttachment(index)}
+                                aria-label={`Hapus ${attachment.file.name}`}
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="composer">
+                        <input
+                          type="file"
+                          multiple
+                          accept="image/*,video/*,audio/*,application/pdf,.doc,.docx,.xls,.xlsx"
+                          ref={attachmentInputRef}
+                          onChange={handleAttachmentChange}
+                          style={{ display: 'none' }}
+                        />
+                        <button
+                          type="button"
+                          className="header-btn composer__attach"
+                          onClick={() => attachmentInputRef.current?.click()}
+                          disabled={!canSendMessages || !isSupportedChannel}
+                          title="Lampirkan file"
+                        >
+                          <svg viewBox="0 0 24 24" width="22" height="22" stroke="currentColor" strokeWidth="2" fill="none" strokeLinecap="round" strokeLinejoin="round"><path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>
+                        </button>
+                        <textarea
+                          ref={messageInputRef}
+                          id="message"
+                          rows={1}
+                          aria-label="Balasan untuk pelanggan"
+                          placeholder="Tulis balasan, atau ketik / untuk template..."
+                          value={message}
+                          onChange={(event) => {
+                            setMessage(event.target.value);
+                            signalTyping(Boolean(event.target.value.trim()));
+                          }}
+                          onKeyDown={handleComposerKeyDown}
+                        />
+                        <div className="composer__actions">
+                          {!canSendMessages && (
+                            <span className="composer__hint">
+                              Setel <code>API_BASE_URL</code> di server admin UI agar admin bisa membalas via backend bot.
+                            </span>
+                          )}
+                          {canSendMessages && !isSupportedChannel && (
+                            <span className="composer__hint">
+                              Chat berasal dari kanal {activeChannelMeta.label}. Balasan admin UI untuk kanal ini belum didukung.
+                            </span>
+                          )}
+                          {canSendMessages && isSupportedChannel && !isWhatsappConversation && (
+                            <span className="composer__hint">
+                              Balasan admin akan dikirim melalui {activeChannelMeta.label}.
+                            </span>
+                          )}
+                          <button
+                            type="button"
+                            disabled={!selectedNumber || !canSendMessages || !isSupportedChannel}
+                            onClick={handleSendMessage}
+                            className="send-btn"
+                          >
+                            <svg viewBox="0 0 24 24" width="24" height="24" fill="currentColor"><path d="M1.101 21.757 23.8 12.028 1.101 2.3l.011 7.912 13.623 1.816-13.623 1.817-.011 7.912z"></path></svg>
+                          </button>
+                        </div>
+                      </div>
+                    </>
                   )}
-                  <button
-                    type="button"
-                    disabled={!selectedNumber || isSending || !canSendMessages || !isSupportedChannel}
-                    onClick={handleSendMessage}
-                    className="send-btn"
-                  >
-                    {isSending ? (
-                      <div className="spinner" style={{ width: 20, height: 20, border: '2px solid white', borderTopColor: 'transparent', borderRadius: '50%', animation: 'spin 1s linear infinite' }} />
-                    ) : (
-                      <svg viewBox="0 0 24 24" width="24" height="24" fill="currentColor"><path d="M1.101 21.757 23.8 12.028 1.101 2.3l.011 7.912 13.623 1.816-13.623 1.817-.011 7.912z"></path></svg>
-                    )}
-                  </button>
                 </div>
-              </div>
+              ) : (
+                <div className="composer composer--readonly">
+                  <span className="composer__hint">
+                    Akun {currentAdmin ? ROLE_LABELS[currentAdmin.role] : ''} hanya dapat membaca percakapan.
+                  </span>
+                </div>
+              )}
             </>
           ) : (
             <div className="empty-state">
@@ -939,146 +2939,2086 @@ export default function AdminConsole() {
 
 // --- Calendar Components & Helpers ---
 
-async function updateBookingStatus(id: string, status: string, notes: string) {
-  const url = buildApiUrl(`/bookings/${id}/status`);
+async function updateBookingStatus(booking: Booking, status: string, notes: string) {
+  const url = `/api/bookings/${encodeURIComponent(booking.id)}/status`;
   const res = await fetch(url, {
     method: 'PATCH',
-    headers: { 'Content-Type': 'application/json', 'ngrok-skip-browser-warning': 'true' },
+    headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ status, notes }),
   });
-  if (!res.ok) throw new Error('Failed to update booking');
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update booking');
+  }
   return res.json();
 }
 
-function CalendarView({
-  currentDate,
-  onDateChange,
-  bookings,
-  onSelectBooking
-}: {
-  currentDate: Date;
-  onDateChange: (d: Date) => void;
-  bookings: Booking[];
-  onSelectBooking: (b: Booking) => void;
-}) {
-  const year = currentDate.getFullYear();
-  const month = currentDate.getMonth();
-
-  const daysInMonth = new Date(year, month + 1, 0).getDate();
-  const firstDayOfMonth = new Date(year, month, 1).getDay(); // 0 = Sunday
+function MessageAttachments({ attachments, text }: { attachments: MessageAttachment[]; text: string }) {
+  return (
+    <div className="message-attachments">
+      {attachments.map((attachment, index) => {
+        const key = `${attachment.url ?? attachment.storagePath ?? 'media'}-${index}`;
+        // Caption yang sama dengan teks pesan tidak perlu ditampilkan dua kali.
+        const caption = attachment.caption && attachment.caption !== text ? attachment.caption : null;
 
-  const days = [];
-  for (let i = 0; i < firstDayOfMonth; i++) {
-    days.push(null);
-  }
-  for (let i = 1; i <= daysInMonth; i++) {
-    days.push(new Date(year, month, i));
-  }
+        if (!attachment.url) {
+          return (
+            <div key={key} className="message-attachment message-attachment--missing">
+              📎 {attachment.fileName || 'Lampiran tidak tersedia'}
+            </div>
+          );
+        }
 
-  const monthName = currentDate.toLocaleString('id-ID', { month: 'long', year: 'numeric' });
+        return (
+          <figure key={key} className={`message-attachment message-attachment--${attachment.type}`}>
+            {attachment.type === 'image' && (
+              <a href={attachment.url} target="_blank" rel="noreferrer">
+                <img src={attachment.url} alt={caption || attachment.fileName || 'Gambar'} loading="lazy" />
+              </a>
+            )}
+            {attachment.type === 'video' && <video src={attachment.url} controls preload="metadata" />}
+            {attachment.type === 'audio' && <audio src={attachment.url} controls preload="metadata" />}
+            {attachment.type === 'document' && (
+              <a href={attachment.url} target="_blank" rel="noreferrer" className="message-attachment__file">
+                📄 {attachment.fileName || 'Dokumen'}
+                {attachment.size ? <span className="muted"> · {formatFileSize(attachment.size)}</span> : null}
+              </a>
+            )}
+            {caption && <figcaption>{caption}</figcaption>}
+          </figure>
+        );
+      })}
+    </div>
+  );
+}
 
-  const handlePrevMonth = () => onDateChange(new Date(year, month - 1, 1));
-  const handleNextMonth = () => onDateChange(new Date(year, month + 1, 1));
+function AuditLogView({
+  initialSenderNumber,
+  onOpenConversation,
+}: {
+  initialSenderNumber: string;
+  onOpenConversation: (senderNumber: string) => void;
+}) {
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+  const [senderNumber, setSenderNumber] = useState(initialSenderNumber);
 
-  const getBookingsForDate = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
-    return bookings.filter(b => b.bookingDate === dateStr);
+  const getAuditPageKey = (pageIndex: number, previousPage: AuditLogResponse | null) => {
+    if (previousPage && !previousPage.nextCursor) return null;
+    const params = new URLSearchParams({ limit: '50' });
+    if (actor.trim()) params.set('actor', actor.trim());
+    if (action) params.set('action', action);
+    if (senderNumber.trim()) params.set('senderNumber', senderNumber.trim());
+    if (pageIndex > 0 && previousPage?.nextCursor) params.set('cursor', previousPage.nextCursor);
+    return `/api/audit-log?${params.toString()}`;
   };
 
-  const getRepaintOccupancy = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
-    // Hitung booking repaint yang aktif pada tanggal ini
-    const active = bookings.filter(b => {
-      if (!b.isRepaint || b.status === 'cancelled' || b.status === 'completed') return false;
-      return b.bookingDate <= dateStr && (b.estimatedEndDate || b.bookingDate) >= dateStr;
-    });
-    return active.length;
-  };
+  const { data: pages, error, size, setSize, isValidating } = useSWRInfinite<AuditLogResponse>(
+    getAuditPageKey,
+    fetcher
+  );
+
+  const entries = pages?.flatMap((page) => page.entries) ?? [];
+  const hasMore = Boolean(pages?.[pages.length - 1]?.nextCursor);
+  const isLoadingMore = size > 0 && typeof pages?.[size - 1] === 'undefined' && !error;
 
   return (
-    <div className="calendar-container">
-      <div className="calendar-header">
-        <button onClick={handlePrevMonth}>&lt;</button>
-        <h2>{monthName}</h2>
-        <button onClick={handleNextMonth}>&gt;</button>
+    <div className="audit-view">
+      <header className="content__header">
+        <div className="content__header-info">
+          <h2>Audit Log</h2>
+        </div>
+      </header>
+
+      <div className="audit-filters">
+        <input
+          placeholder="Admin (email/nama)"
+          value={actor}
+          onChange={(event) => setActor(event.target.value)}
+        />
+        <select value={action} onChange={(event) => setAction(event.target.value)}>
+          <option value="">Semua aksi</option>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          placeholder="Nomor / ID pelanggan"
+          value={senderNumber}
+          onChange={(event) => setSenderNumber(event.target.value)}
+        />
       </div>
-      <div className="calendar-grid">
-        {['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'].map(d => (
-          <div key={d} className="calendar-day-header">{d}</div>
-        ))}
-        {days.map((date, idx) => {
-          if (!date) return <div key={idx} className="calendar-day empty"></div>;
 
-          const dayBookings = getBookingsForDate(date);
-          const isToday = new Date().toDateString() === date.toDateString();
-          const repaintCount = getRepaintOccupancy(date);
-          const isFull = repaintCount >= 2;
+      {error && <div className="notice">Gagal memuat audit log. {error.message}</div>}
 
-          return (
-            <div key={idx} className={`calendar-day ${isToday ? 'today' : ''}`}>
-              <div className="day-header">
-                <span className="day-number">{date.getDate()}</span>
-                {repaintCount > 0 && (
-                  <span className={`capacity-badge ${isFull ? 'full' : 'partial'}`} title="Slot Repaint Terpakai">
-                    🎨 {repaintCount}/2
-                  </span>
-                )}
-              </div>
-              <div className="day-events">
-                {dayBookings.map(b => (
-                  <button
-                    key={b.id}
-                    className={`event-pill status-${b.status}`}
-                    onClick={() => onSelectBooking(b)}
-                    title={`${b.customerName} - ${b.serviceName || 'Layanan'}`}
-                  >
-                    {b.bookingTime} {b.customerName.split(' ')[0]}
-                  </button>
-                ))}
+      <div className="audit-list">
+        {!entries.length && isValidating ? (
+          <p className="muted">Memuat audit log...</p>
+        ) : entries.length ? (
+          entries.map((entry) => (
+            <div key={entry.id} className="audit-entry">
+              <div className="audit-entry__header">
+                <span className="pill">{AUDIT_ACTION_LABELS[entry.action || ''] || entry.action}</span>
+                <span className="audit-entry__actor">
+                  {entry.actorName || entry.actorEmail || 'Tidak diketahui'}
+                  {entry.actorRole ? ` (${entry.actorRole})` : ''}
+                </span>
+                <span className="muted audit-entry__time">{formatIsoTimestamp(entry.createdAt)}</span>
               </div>
+              <div className="audit-entry__change">{describeAuditChange(entry)}</div>
+              {entry.senderNumber && (
+                <button
+                  type="button"
+                  className="audit-entry__target"
+                  onClick={() => onOpenConversation(entry.senderNumber!.replace(/@c\.us$/, ''))}
+                >
+                  {entry.senderNumber}
+                </button>
+              )}
             </div>
-          );
-        })}
+          ))
+        ) : (
+          <p className="muted">Belum ada aksi yang cocok dengan filter.</p>
+        )}
+        {hasMore && (
+          <button
+            type="button"
+            className="conversation-list__load-more"
+            disabled={isLoadingMore}
+            onClick={() => setSize(size + 1)}
+          >
+            {isLoadingMore ? 'Memuat...' : 'Muat lebih banyak'}
+          </button>
+        )}
       </div>
-      <style jsx>{`
-        .calendar-container { padding: 20px; height: 100%; display: flex; flex-direction: column; }
-        .calendar-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 20px; }
-        .calendar-header h2 { margin: 0; font-size: 1.5rem; }
-        .calendar-header button { background: none; border: 1px solid #ddd; padding: 5px 15px; cursor: pointer; border-radius: 4px; }
-        .calendar-grid { display: grid; grid-template-columns: repeat(7, 1fr); gap: 10px; flex: 1; }
-        .calendar-day-header { text-align: center; font-weight: bold; color: #666; padding-bottom: 10px; }
-        .calendar-day { border: 1px solid #eee; border-radius: 8px; padding: 8px; min-height: 100px; background: #fff; }
-        .calendar-day.empty { background: transparent; border: none; }
-        .calendar-day.today { border-color: #0070f3; background: #f0f7ff; }
-        .day-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 5px; }
-        .day-number { font-weight: bold; font-size: 0.9rem; color: #333; }
-        .capacity-badge { 
-          font-size: 0.7rem; padding: 2px 6px; border-radius: 10px; font-weight: bold; color: white;
-        }
-        .capacity-badge.full { background-color: #e11d48; } /* Red */
-        .capacity-badge.partial { background-color: #f59e0b; } /* Amber */
-        
-        .day-events { display: flex; flex-direction: column; gap: 4px; }
-        .event-pill { 
-          border: none; text-align: left; font-size: 0.75rem; padding: 4px 6px; 
-          border-radius: 4px; cursor: pointer; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; 
-          color: #fff; width: 100%;
-        }
-        .status-pending { background-color: #f5a623; }
-        .status-confirmed { background-color: #108ee9; }
-        .status-in_progress { background-color: #87d068; }
-        .status-completed { background-color: #00a854; }
-        .status-cancelled { background-color: #f50; }
-      `}</style>
     </div>
   );
 }
 
-function BookingModal({ booking, onClose, onUpdate, isUpdating }: {
-  booking: Booking;
-  onClose: () => void;
-  onUpdate: (id: string, status: string, notes: string) => void;
-  isUpdating: boolean;
+const EMPTY_PROFILE_FORM = {
+  name: '',
+  notes: '',
+  make: '',
+  model: '',
+  color: '',
+  plate: '',
+  tags: '',
+};
+
+function CustomerProfilePanel({
+  senderNumber,
+  canEdit,
+  canEditLabel,
+  labels,
+  onClose,
+  onOpenConversation,
+  onChange,
+}: {
+  senderNumber: string;
+  canEdit: boolean;
+  canEditLabel: boolean;
+  labels: LabelDefinition[];
+  onClose: () => void;
+  onOpenConversation: (senderNumber: string) => void;
+  onChange: () => void;
+}) {
+  const { data, error, mutate } = useSWR<CustomerHistoryResponse>(
+    `/api/customers/${encodeURIComponent(senderNumber)}/history`,
+    fetcher
+  );
+  const [isUnmerging, setIsUnmerging] = useState<string | null>(null);
+  const [profileForm, setProfileForm] = useState(EMPTY_PROFILE_FORM);
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const customer = data?.customer;
+  const isMerged = Boolean(customer?.id && customer.identities.length > 1);
+
+  // Isi ulang form setiap kali profil di server berubah (termasuk setelah simpan).
+  useEffect(() => {
+    if (!customer) return;
+    setProfileForm({
+      name: customer.name || '',
+      notes: customer.notes || '',
+      make: customer.vehicle.make || '',
+      model: customer.vehicle.model || '',
+      color: customer.vehicle.color || '',
+      plate: customer.vehicle.plate || '',
+      tags: customer.tags.join(', '),
+    });
+  }, [customer?.id, customer?.updatedAt, senderNumber]);
+
+  const handleSaveProfile = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSavingProfile(true);
+    try {
+      const res = await fetch(`/api/customers/${encodeURIComponent(senderNumber)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: profileForm.name,
+          notes: profileForm.notes,
+          vehicle: {
+            make: profileForm.make,
+            model: profileForm.model,
+            color: profileForm.color,
+            plate: profileForm.plate,
+          },
+          tags: profileForm.tags.split(','),
+        }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal menyimpan profil.');
+      }
+      await mutate();
+      onChange();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyimpan profil pelanggan:', err);
+      alert((err as Error).message || 'Gagal menyimpan profil.');
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const updateProfileField = (field: keyof typeof EMPTY_PROFILE_FORM) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setProfileForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleUnmerge = async (identity: CustomerIdentity) => {
+    if (!confirm(`Lepaskan ${identity.platformId || identity.senderNumber} dari profil ini?`)) return;
+
+    setIsUnmerging(identity.senderNumber);
+    try {
+      const res = await fetch(`/api/customers/${encodeURIComponent(identity.senderNumber)}/unmerge`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal melepas identitas.');
+      }
+      await mutate();
+      onChange();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal melepas identitas pelanggan:', err);
+      alert((err as Error).message || 'Gagal melepas identitas.');
+    } finally {
+      setIsUnmerging(null);
+    }
+  };
+
+  return (
+    <aside className="customer-panel">
+      <header className="customer-panel__header">
+        <h3>{customer?.name || 'Profil pelanggan'}</h3>
+        <button type="button" className="close-btn" onClick={onClose} aria-label="Tutup profil">
+          ×
+        </button>
+      </header>
+
+      {error && <div className="notice">Gagal memuat profil. {error.message}</div>}
+
+      <ConversationLabelSection senderNumber={senderNumber} canEdit={canEditLabel} labels={labels} onChange={onChange} />
+
+      <BroadcastOptOutSection senderNumber={senderNumber} canEdit={canEdit} />
+
+      <form className="customer-panel__section customer-profile" onSubmit={handleSaveProfile}>
+        <h4>Data pelanggan</h4>
+        <label>
+          Nama tampilan
+          <input value={profileForm.name} onChange={updateProfileField('name')} disabled={!canEdit} />
+        </label>
+        <div className="customer-profile__grid">
+          <label>
+            Merek motor
+            <input value={profileForm.make} onChange={updateProfileField('make')} disabled={!canEdit} placeholder="Honda" />
+          </label>
+          <label>
+            Tipe
+            <input value={profileForm.model} onChange={updateProfileField('model')} disabled={!canEdit} placeholder="Vario 160" />
+          </label>
+          <label>
+            Warna
+            <input value={profileForm.color} onChange={updateProfileField('color')} disabled={!canEdit} />
+          </label>
+          <label>
+            Plat nomor
+            <input value={profileForm.plate} onChange={updateProfileField('plate')} disabled={!canEdit} placeholder="B 1234 XYZ" />
+          </label>
+        </div>
+        <label>
+          Tag (pisahkan dengan koma)
+          <input value={profileForm.tags} onChange={updateProfileField('tags')} disabled={!canEdit} placeholder="langganan, repaint" />
+        </label>
+        <label>
+          Catatan internal
+          <textarea rows={4} value={profileForm.notes} onChange={updateProfileField('notes')} disabled={!canEdit} />
+        </label>
+        {canEdit && (
+          <button type="submit" disabled={isSavingProfile || !data}>
+            {isSavingProfile ? 'Menyimpan...' : 'Simpan profil'}
+          </button>
+        )}
+      </form>
+
+      <section className="customer-panel__section">
+        <h4>Identitas tertaut</h4>
+        {(customer?.identities ?? []).map((identity) => {
+          const meta = getChannelMeta(identity.channel);
+          return (
+            <div key={identity.senderNumber} className="customer-identity">
+              <span className={`pill pill-channel ${meta.pillClass}`}>{meta.tag}</span>
+              <button
+                type="button"
+                className="customer-identity__id"
+                onClick={() => onOpenConversation(identity.senderNumber)}
+              >
+                {identity.platformId || identity.senderNumber}
+              </button>
+              {canEdit && isMerged && (
+                <button
+                  type="button"
+                  className="toggle-button"
+                  disabled={isUnmerging === identity.senderNumber}
+                  onClick={() => handleUnmerge(identity)}
+                >
+                  Lepas
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {!isMerged && (
+          <p className="muted">
+            Belum tertaut dengan kanal lain. Pilih beberapa percakapan di sidebar lalu klik &quot;Gabungkan profil&quot;.
+          </p>
+        )}
+      </section>
+
+      {isMerged && (
+        <section className="customer-panel__section customer-panel__history">
+          <h4>Riwayat gabungan</h4>
+          {!data ? (
+            <p className="muted">Memuat riwayat...</p>
+          ) : (
+            data.history.map((msg) => {
+              const meta = getChannelMeta(msg.channel);
+              return (
+                <div key={`${msg.senderNumber}-${msg.id}`} className={`message-item ${msg.sender}`}>
+                  <div className="message-item__meta">
+                    <span className={`pill pill-channel ${meta.pillClass}`}>{meta.tag}</span>
+                    <span className="message-item__time">{formatTimestamp(msg.timestamp)}</span>
+                  </div>
+                  {msg.attachments?.length ? (
+                    <MessageAttachments attachments={msg.attachments} text={msg.text} />
+                  ) : null}
+                  {msg.text && <div dangerouslySetInnerHTML={formatWhatsappText(msg.text)} />}
+                </div>
+              );
+            })
+          )}
+        </section>
+      )}
+    </aside>
+  );
+}
+
+const ASSIGNEE_FILTER_OPTIONS: { value: ConversationFilters['assignee']; label: string }[] = [
+  { value: null, label: 'Semua' },
+  { value: 'me', label: 'Milikku' },
+  { value: 'unassigned', label: 'Belum ditugaskan' },
+];
+
+function getAssigneeName(assignee: ConversationAssignee) {
+  return assignee.name || assignee.email;
+}
+
+const AI_STATE_FILTER_OPTIONS: { value: ConversationFilters['aiState']; label: string }[] = [
+  { value: null, label: 'Semua status AI' },
+  { value: 'active', label: 'AI aktif' },
+  { value: 'paused', label: 'AI dijeda/mati' },
+];
+
+function ConversationFilterPanel({
+  filters,
+  onChange,
+}: {
+  filters: ConversationFilters;
+  onChange: (filters: ConversationFilters) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const update = (patch: Partial<ConversationFilters>) => onChange({ ...filters, ...patch });
+  const parseCountInput = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const toggleChannel = (channel: string) =>
+    update({
+      channels: filters.channels.includes(channel)
+        ? filters.channels.filter((value) => value !== channel)
+        : [...filters.channels, channel],
+    });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyalin tautan filter:', err);
+    }
+  };
+
+  return (
+    <div className="filter-panel">
+      <div className="filter-panel__channels">
+        {Object.entries(CHANNEL_META).map(([key, meta]) => (
+          <label key={key}>
+            <input type="checkbox" checked={filters.channels.includes(key)} onChange={() => toggleChannel(key)} />
+            {meta.label}
+          </label>
+        ))}
+      </div>
+      <select
+        value={filters.aiState ?? ''}
+        onChange={(e) => update({ aiState: (e.target.value || null) as ConversationFilters['aiState'] })}
+      >
+        {AI_STATE_FILTER_OPTIONS.map((option) => (
+          <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+        ))}
+      </select>
+      <label className="filter-panel__check">
+        <input
+          type="checkbox"
+          checked={filters.awaitingReply}
+          onChange={(e) => update({ awaitingReply: e.target.checked })}
+        />
+        Menunggu balasan (pesan terakhir dari pelanggan)
+      </label>
+      <div className="filter-panel__range">
+        <label>
+          Aktif sejak
+          <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} />
+        </label>
+        <label>
+          Sampai
+          <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} />
+        </label>
+      </div>
+      <div className="filter-panel__range">
+        <label>
+          Min. pesan
+          <input
+            type="number"
+            min={0}
+            value={filters.minMessages ?? ''}
+            onChange={(e) => update({ minMessages: parseCountInput(e.target.value) })}
+          />
+        </label>
+        <label>
+          Maks. pesan
+          <input
+            type="number"
+            min={0}
+            value={filters.maxMessages ?? ''}
+            onChange={(e) => update({ maxMessages: parseCountInput(e.target.value) })}
+          />
+        </label>
+      </div>
+      <div className="filter-panel__actions">
+        <button type="button" className="toggle-button" onClick={() => onChange(EMPTY_CONVERSATION_FILTERS)}>
+          Reset filter
+        </button>
+        <button type="button" className="toggle-button" onClick={handleCopyLink}>
+          {copied ? 'Tautan disalin' : 'Salin tautan'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function renderHighlightedSnippet(result: MessageSearchResult) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  result.highlights.forEach((highlight, index) => {
+    if (highlight.start > position) parts.push(result.snippet.slice(position, highlight.start));
+    parts.push(<mark key={index}>{result.snippet.slice(highlight.start, highlight.end)}</mark>);
+    position = highlight.end;
+  });
+  parts.push(result.snippet.slice(position));
+  return parts;
+}
+
+function MessageSearchResults({
+  query,
+  onSelect,
+}: {
+  query: string;
+  onSelect: (result: MessageSearchResult) => void;
+}) {
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedQuery(query.trim()), 400);
+    return () => window.clearTimeout(timeout);
+  }, [query]);
+
+  const { data, error, isValidating } = useSWR<MessageSearchResponse>(
+    debouncedQuery.length >= MESSAGE_SEARCH_MIN_LENGTH
+      ? `/api/search?${new URLSearchParams({ q: debouncedQuery }).toString()}`
+      : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  if (query.trim().length < MESSAGE_SEARCH_MIN_LENGTH) return null;
+
+  return (
+    <section className="message-search">
+      <h4 className="message-search__title">Pesan yang cocok</h4>
+      {error && <p className="muted">Gagal mencari pesan. {error.message}</p>}
+      {!data && !error && <p className="muted">Mencari di riwayat pesan...</p>}
+      {data && !data.results.length && !isValidating && <p className="muted">Tidak ada pesan yang cocok.</p>}
+      {data?.results.map((result) => {
+        const meta = getChannelMeta(result.channel);
+        return (
+          <button
+            key={`${result.senderNumber}-${result.messageId}`}
+            type="button"
+            className="message-search__item"
+            onClick={() => onSelect(result)}
+          >
+            <div className="message-search__meta">
+              <span className={`pill pill-channel ${meta.pillClass}`}>{meta.tag}</span>
+              <strong>{result.name || result.senderNumber}</strong>
+              <span className="muted">{formatTimestamp(result.timestamp)}</span>
+            </div>
+            <div className="message-search__snippet">{renderHighlightedSnippet(result)}</div>
+          </button>
+        );
+      })}
+    </section>
+  );
+}
+
+function BroadcastOptOutSection({ senderNumber, canEdit }: { senderNumber: string; canEdit: boolean }) {
+  const optOutUrl = `/api/conversation/${encodeURIComponent(senderNumber)}/opt-out`;
+  const { data, error, mutate } = useSWR<{
+    optedOut: boolean;
+    optOut: { source: string; updatedBy: string | null; optedOutAt: string | null } | null;
+  }>(optOutUrl, fetcher);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(optOutUrl, { method: data?.optedOut ? 'DELETE' : 'POST' });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal mengubah status broadcast.');
+      }
+      await mutate();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal mengubah status broadcast:', err);
+      alert((err as Error).message || 'Gagal mengubah status broadcast.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="customer-panel__section">
+      <h4>Broadcast</h4>
+      {error && <div className="notice">Gagal memuat status broadcast. {error.message}</div>}
+      <p className="muted">
+        {!data
+          ? 'Memuat...'
+          : data.optedOut
+            ? `Tidak menerima broadcast${data.optOut?.source === 'keyword' ? ' (membalas STOP)' : ''}${
+              data.optOut?.optedOutAt ? ` sejak ${formatIsoTimestamp(data.optOut.optedOutAt)}` : ''
+            }.`
+            : 'Menerima broadcast kampanye.'}
+      </p>
+      {canEdit && data && (
+        <button type="button" className="toggle-button" disabled={isSaving} onClick={handleToggle}>
+          {data.optedOut ? 'Izinkan broadcast lagi' : 'Berhentikan broadcast'}
+        </button>
+      )}
+    </section>
+  );
+}
+
+function ConversationLabelSection({
+  senderNumber,
+  canEdit,
+  labels,
+  onChange,
+}: {
+  senderNumber: string;
+  canEdit: boolean;
+  labels: LabelDefinition[];
+  onChange: () => void;
+}) {
+  const labelUrl = `/api/conversation/${encodeURIComponent(senderNumber)}/label`;
+  const { data, error, mutate } = useSWR<LabelHistoryResponse>(labelUrl, fetcher);
+  const [form, setForm] = useState({ label: '', reason: '', lockIndex: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm({ label: data?.label || '', reason: '', lockIndex: 0 });
+  }, [data?.label, senderNumber]);
+
+  const isLocked = Boolean(data?.labelLockedUntil && Date.parse(data.labelLockedUntil) > Date.now());
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.reason.trim()) {
+      alert('Isi alasan perubahan label.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch(labelUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: form.label || null,
+          reason: form.reason,
+          lockMinutes: LABEL_LOCK_OPTIONS[form.lockIndex].value,
+        }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal mengubah label.');
+      }
+      await mutate();
+      onChange();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal mengubah label:', err);
+      alert((err as Error).message || 'Gagal mengubah label.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="customer-panel__section label-editor">
+      <h4>Label percakapan</h4>
+      {error && <div className="notice">Gagal memuat label. {error.message}</div>}
+      <p className="muted">
+        {data?.label ? `Saat ini: ${formatLabel(labels, data.label)}` : 'Belum berlabel'}
+        {data?.labelReason ? ` — ${data.labelReason}` : ''}
+      </p>
+      {isLocked && (
+        <p className="muted">AI tidak akan mengubah label hingga {formatIsoTimestamp(data?.labelLockedUntil)}.</p>
+      )}
+
+      {canEdit && (
+        <form className="customer-profile" onSubmit={handleSave}>
+          <div className="customer-profile__grid">
+            <label>
+              Label
+              <select value={form.label} onChange={(e) => setForm((current) => ({ ...current, label: e.target.value }))}>
+                <option value="">Tanpa label</option>
+                {labels.map((label) => (
+                  <option key={label.key} value={label.key}>{formatLabel(labels, label.key)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Kunci dari AI
+              <select
+                value={form.lockIndex}
+                onChange={(e) => setForm((current) => ({ ...current, lockIndex: Number(e.target.value) }))}
+              >
+                {LABEL_LOCK_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label>
+            Alasan
+            <input
+              value={form.reason}
+              onChange={(e) => setForm((current) => ({ ...current, reason: e.target.value }))}
+              placeholder="Pelanggan sudah konfirmasi booking"
+            />
+          </label>
+          <button type="submit" disabled={isSaving || !data}>
+            {isSaving ? 'Menyimpan...' : 'Simpan label'}
+          </button>
+        </form>
+      )}
+
+      {Boolean(data?.history.length) && (
+        <ul className="label-history">
+          {data?.history.map((entry) => (
+            <li key={entry.id}>
+              <strong>
+                {entry.previousLabel ? formatLabel(labels, entry.previousLabel) : '-'} →{' '}
+                {entry.label ? formatLabel(labels, entry.label) : '-'}
+              </strong>
+              <span className="muted">
+                {' '}oleh {entry.actorName || entry.actorEmail || entry.source} • {formatIsoTimestamp(entry.createdAt)}
+              </span>
+              {entry.reason && <div className="muted">{entry.reason}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+const EMPTY_SCHEDULE_FORM = {
+  name: '',
+  mode: 'pause' as HandoverSchedule['mode'],
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00',
+  timezone: 'Asia/Jakarta',
+  channel: '',
+};
+
+function HandoverScheduleView({ canEdit, onChange }: { canEdit: boolean; onChange: () => void }) {
+  const { data, error, mutate } = useSWR<HandoverScheduleResponse>('/api/handover-schedules', fetcher);
+  const [form, setForm] = useState(EMPTY_SCHEDULE_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const schedules = data?.schedules ?? [];
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal menyimpan jadwal.');
+      }
+      await mutate();
+      onChange();
+      return true;
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyimpan jadwal AI:', err);
+      alert((err as Error).message || 'Gagal menyimpan jadwal.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const payload = { ...form, channel: form.channel || null };
+    const saved = editingId
+      ? await request(`/api/handover-schedules/${editingId}`, 'PATCH', payload)
+      : await request('/api/handover-schedules', 'POST', payload);
+    if (saved) {
+      setForm(EMPTY_SCHEDULE_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const startEdit = (schedule: HandoverSchedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      mode: schedule.mode,
+      days: schedule.days,
+      start: schedule.start,
+      end: schedule.end,
+      timezone: schedule.timezone,
+      channel: schedule.channel || '',
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    setForm((current) => ({
+      ...current,
+      days: current.days.includes(day)
+        ? current.days.filter((item) => item !== day)
+        : [...current.days, day].sort(),
+    }));
+  };
+
+  return (
+    <div className="audit-view">
+      <header className="content__header">
+        <div className="content__header-info">
+          <h2>Jadwal AI</h2>
+          <div className="schedule-effective">
+            {(data?.effective ?? []).map((item) => (
+              <span key={item.channel || 'all'} className={`pill ${item.paused ? 'pill-warning' : 'pill-success'}`}>
+                {item.channel ? getChannelMeta(item.channel).label : 'Semua kanal'}: {item.paused ? 'AI OFF' : 'AI ON'}
+                {item.nextChangeAt ? ` · berubah ${formatIsoTimestamp(item.nextChangeAt)}` : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      {error && <div className="notice">Gagal memuat jadwal. {error.message}</div>}
+
+      {canEdit && (
+        <form className="schedule-form" onSubmit={handleSubmit}>
+          <input
+            placeholder="Nama jadwal, mis. Jam studio"
+            value={form.name}
+            onChange={(event) => setForm({ ...form, name: event.target.value })}
+          />
+          <select
+            value={form.mode}
+            onChange={(event) => setForm({ ...form, mode: event.target.value as HandoverSchedule['mode'] })}
+          >
+            <option value="pause">AI mati selama jam ini</option>
+            <option value="active">AI hanya aktif selama jam ini</option>
+          </select>
+          <select value={form.channel} onChange={(event) => setForm({ ...form, channel: event.target.value })}>
+            <option value="">Semua kanal</option>
+            {Object.entries(CHANNEL_META).map(([key, meta]) => (
+              <option key={key} value={key}>{meta.label}</option>
+            ))}
+          </select>
+          <div className="schedule-form__days">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <label key={label}>
+                <input type="checkbox" checked={form.days.includes(day)} onChange={() => toggleDay(day)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <input type="time" value={form.start} onChange={(event) => setForm({ ...form, start: event.target.value })} />
+          <input type="time" value={form.end} onChange={(event) => setForm({ ...form, end: event.target.value })} />
+          <input
+            placeholder="Zona waktu"
+            value={form.timezone}
+            onChange={(event) => setForm({ ...form, timezone: event.target.value })}
+          />
+          <div className="schedule-form__actions">
+            {editingId && (
+              <button
+                type="button"
+                className="toggle-button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(EMPTY_SCHEDULE_FORM);
+                }}
+              >
+                Batal
+              </button>
+            )}
+            <button type="submit" disabled={isSaving}>
+              {isSaving ? 'Menyimpan...' : editingId ? 'Simpan jadwal' : 'Tambah jadwal'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="audit-list">
+        {!data && !error ? (
+          <p className="muted">Memuat jadwal...</p>
+        ) : schedules.length ? (
+          schedules.map((schedule) => (
+            <div key={schedule.id} className={`audit-entry${schedule.enabled ? '' : ' schedule--disabled'}`}>
+              <div className="audit-entry__header">
+                <span className="pill">{schedule.channel ? getChannelMeta(schedule.channel).label : 'Semua kanal'}</span>
+                <span className="audit-entry__actor">{schedule.name}</span>
+                {!schedule.enabled && <span className="muted">Nonaktif</span>}
+              </div>
+              <div className="audit-entry__change">{describeSchedule(schedule)}</div>
+              {canEdit && (
+                <div className="schedule-entry__actions">
+                  <button type="button" className="toggle-button" onClick={() => startEdit(schedule)}>
+                    Ubah
+                  </button>
+                  <button
+                    type="button"
+                    className="toggle-button"
+                    disabled={isSaving}
+                    onClick={() =>
+                      request(`/api/handover-schedules/${schedule.id}`, 'PATCH', { enabled: !schedule.enabled })
+                    }
+                  >
+                    {schedule.enabled ? 'Nonaktifkan' : 'Aktifkan'}
+                  </button>
+                  <button
+                    type="button"
+                    className="toggle-button toggle-button--pause"
+                    disabled={isSaving}
+                    onClick={() => {
+                      if (confirm(`Hapus jadwal "${schedule.name}"?`)) {
+                        request(`/api/handover-schedules/${schedule.id}`, 'DELETE');
+                      }
+                    }}
+                  >
+                    Hapus
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <p className="muted">Belum ada jadwal. AI mengikuti status per percakapan saja.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ScheduledMessagePanel({
+  senderNumber,
+  channel,
+  platformId,
+  draft,
+  canScheduleMessages,
+  onDraftScheduled,
+  onChange,
+}: {
+  senderNumber: string;
+  channel: string | null;
+  platformId: string | null;
+  draft: string;
+  canScheduleMessages: boolean;
+  onDraftScheduled: () => void;
+  onChange: () => void;
+}) {
+  const scheduledUrl = `/api/conversation/${encodeURIComponent(senderNumber)}/scheduled`;
+  const { data, error, mutate } = useSWR<{ scheduled: ScheduledMessage[] }>(scheduledUrl, fetcher, {
+    refreshInterval: 60000,
+  });
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState({ kind: 'reminder' as ScheduledKind, text: '', dueAt: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const scheduled = data?.scheduled ?? [];
+
+  const openForm = () => {
+    // Isi composer yang belum terkirim langsung dipakai sebagai pesan terjadwal.
+    const hasDraft = canScheduleMessages && Boolean(draft.trim());
+    setForm({
+      kind: hasDraft ? 'message' : 'reminder',
+      text: hasDraft ? draft.trim() : '',
+      dueAt: toDateTimeLocalValue(SCHEDULE_PRESETS[1].resolve(new Date())),
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const dueAt = form.dueAt ? new Date(form.dueAt) : null;
+    if (!dueAt || Number.isNaN(dueAt.getTime())) {
+      alert('Pilih waktu jadwal.');
+      return;
+    }
+    if (form.kind === 'message' && !form.text.trim()) {
+      alert('Isi pesan yang akan dikirim.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await fetch(scheduledUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: form.kind,
+          message: form.kind === 'message' ? form.text : undefined,
+          note: form.kind === 'reminder' ? form.text : undefined,
+          dueAt: dueAt.toISOString(),
+          channel,
+          platformId,
+        }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal menyimpan jadwal.');
+      }
+      if (form.kind === 'message' && form.text.trim() === draft.trim()) {
+        onDraftScheduled();
+      }
+      setIsFormOpen(false);
+      await mutate();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyimpan jadwal pesan:', err);
+      alert((err as Error).message || 'Gagal menyimpan jadwal.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (item: ScheduledMessage, action: 'cancel' | 'done') => {
+    if (action === 'cancel' && item.status === 'scheduled' && !confirm('Batalkan jadwal ini?')) return;
+
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/scheduled-messages/${encodeURIComponent(item.id)}`, {
+        method: action === 'done' ? 'PATCH' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: action === 'done' ? JSON.stringify({ status: 'done' }) : undefined,
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal memperbarui jadwal.');
+      }
+      await mutate(
+        (current) => current && { ...current, scheduled: current.scheduled.filter((entry) => entry.id !== item.id) },
+        { revalidate: false }
+      );
+      onChange();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal memperbarui jadwal pesan:', err);
+      alert((err as Error).message || 'Gagal memperbarui jadwal.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="scheduled-panel">
+      {error && <div className="notice">Gagal memuat jadwal. {error.message}</div>}
+      {scheduled.length > 0 && (
+        <ul className="scheduled-panel__list">
+          {scheduled.map((item) => (
+            <li key={item.id} className={`scheduled-item scheduled-item--${item.status}`}>
+              <span className="scheduled-item__icon">{item.kind === 'reminder' ? '⏰' : '🕒'}</span>
+              <div className="scheduled-item__body">
+                <div className="scheduled-item__meta">
+                  {item.status === 'due'
+                    ? 'Follow-up jatuh tempo'
+                    : item.status === 'failed'
+                      ? 'Gagal dijadwalkan'
+                      : item.kind === 'reminder'
+                        ? 'Pengingat'
+                        : 'Terkirim otomatis'}{' '}
+                  · {formatIsoTimestamp(item.dueAt)}
+                  {item.createdByEmail ? ` · ${item.createdByEmail}` : ''}
+                </div>
+                <div className="scheduled-item__text">
+                  {item.kind === 'message' ? item.message : item.note || 'Tanpa catatan'}
+                </div>
+                {item.error && <div className="scheduled-item__error">{item.error}</div>}
+              </div>
+              <div className="scheduled-item__actions">
+                {item.status === 'due' && (
+                  <button
+                    type="button"
+                    className="toggle-button"
+                    disabled={busyId === item.id}
+                    onClick={() => handleClose(item, 'done')}
+                  >
+                    Selesai
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="toggle-button"
+                  disabled={busyId === item.id}
+                  onClick={() => handleClose(item, 'cancel')}
+                >
+                  {item.status === 'scheduled' ? 'Batal' : 'Tutup'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {isFormOpen ? (
+        <form className="scheduled-form" onSubmit={handleSubmit}>
+          <div className="scheduled-form__kinds">
+            {canScheduleMessages && (
+              <label>
+                <input
+                  type="radio"
+                  name="scheduled-kind"
+                  checked={form.kind === 'message'}
+                  onChange={() => setForm((prev) => ({ ...prev, kind: 'message' }))}
+                />{' '}
+                Kirim pesan
+              </label>
+            )}
+            <label>
+              <input
+                type="radio"
+                name="scheduled-kind"
+                checked={form.kind === 'reminder'}
+                onChange={() => setForm((prev) => ({ ...prev, kind: 'reminder' }))}
+              />{' '}
+              Ingatkan saya
+            </label>
+          </div>
+          <textarea
+            rows={2}
+            placeholder={form.kind === 'message' ? 'Pesan yang dikirim ke pelanggan' : 'Catatan follow-up (opsional)'}
+            value={form.text}
+            onChange={(event) => setForm((prev) => ({ ...prev, text: event.target.value }))}
+          />
+          <div className="scheduled-form__time">
+            <input
+              type="datetime-local"
+              value={form.dueAt}
+              min={toDateTimeLocalValue(new Date())}
+              onChange={(event) => setForm((prev) => ({ ...prev, dueAt: event.target.value }))}
+            />
+            {SCHEDULE_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                className="toggle-button"
+                onClick={() => setForm((prev) => ({ ...prev, dueAt: toDateTimeLocalValue(preset.resolve(new Date())) }))}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="scheduled-form__actions">
+            <button type="button" className="toggle-button" onClick={() => setIsFormOpen(false)}>
+              Batal
+            </button>
+            <button type="submit" className="toggle-button" disabled={isSaving}>
+              {isSaving ? 'Menyimpan...' : form.kind === 'message' ? 'Jadwalkan pesan' : 'Simpan pengingat'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button type="button" className="scheduled-panel__open" onClick={openForm}>
+          ⏰ Jadwalkan pesan atau pengingat
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ReplyTemplatePicker({
+  templates,
+  query,
+  activeIndex,
+  values,
+  isLoading,
+  onHover,
+  onSelect,
+}: {
+  templates: ReplyTemplate[];
+  query: string;
+  activeIndex: number;
+  values: TemplateValues;
+  isLoading: boolean;
+  onHover: (index: number) => void;
+  onSelect: (template: ReplyTemplate) => void;
+}) {
+  const active = templates[Math.min(activeIndex, templates.length - 1)];
+  const preview = active ? fillTemplate(active.body, values) : null;
+
+  return (
+    <div className="template-picker" role="listbox" aria-label="Template balasan">
+      {isLoading ? (
+        <p className="muted">Memuat template...</p>
+      ) : templates.length ? (
+        <>
+          <ul className="template-picker__list">
+            {templates.map((template, index) => (
+              <li key={template.id}>
+                <button
+                  type="button"
+                  role="option"
+                  aria-selected={template === active}
+                  className={`template-picker__item${template === active ? ' active' : ''}`}
+                  onMouseEnter={() => onHover(index)}
+                  // mousedown supaya textarea tidak kehilangan fokus sebelum template dipasang.
+                  onMouseDown={(event) => {
+                    event.preventDefault();
+                    onSelect(template);
+                  }}
+                >
+                  <code>/{template.shortcut}</code> {template.title}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {preview && (
+            <div className="template-picker__preview">
+              <div dangerouslySetInnerHTML={formatWhatsappText(preview.text)} />
+              {preview.missing.length > 0 && (
+                <p className="muted">
+                  Belum ada nilai untuk {preview.missing.map((name) => `{{${name}}}`).join(', ')}; lengkapi setelah
+                  dipasang.
+                </p>
+              )}
+            </div>
+          )}
+          <p className="template-picker__hint muted">↑↓ pilih · Enter pasang · Esc tutup</p>
+        </>
+      ) : (
+        <p className="muted">Tidak ada template yang cocok dengan /{query}.</p>
+      )}
+    </div>
+  );
+}
+
+const EMPTY_TEMPLATE_FORM = { shortcut: '', title: '', body: '' };
+
+function ReplyTemplateView({ canEdit }: { canEdit: boolean }) {
+  const { data, error, mutate } = useSWR<{ templates: ReplyTemplate[] }>('/api/reply-templates', fetcher);
+  const [form, setForm] = useState(EMPTY_TEMPLATE_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const bodyInputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const templates = data?.templates ?? [];
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload.error || 'Gagal menyimpan template.');
+      }
+      await mutate();
+      return true;
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyimpan template balasan:', err);
+      alert((err as Error).message || 'Gagal menyimpan template.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const saved = editingId
+      ? await request(`/api/reply-templates/${editingId}`, 'PATCH', form)
+      : await request('/api/reply-templates', 'POST', form);
+    if (saved) {
+      setForm(EMPTY_TEMPLATE_FORM);
+      setEditingId(null);
+    }
+  };
+
+  // Variabel disisipkan di posisi kursor agar admin tidak perlu mengetik kurung kurawal sendiri.
+  const insertVariable = (variable: TemplateVariable) => {
+    const token = `{{${variable}}}`;
+    const input = bodyInputRef.current;
+    const start = input?.selectionStart ?? form.body.length;
+    const end = input?.selectionEnd ?? form.body.length;
+    setForm((current) => ({ ...current, body: `${current.body.slice(0, start)}${token}${current.body.slice(end)}` }));
+    window.requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="audit-view">
+      <header className="content__header">
+        <div className="content__header-info">
+          <h2>Template balasan</h2>
+          <p className="muted">Ketik /shortcut di kolom balasan untuk memasang template.</p>
+        </div>
+      </header>
+
+      {error && <div className="notice">Gagal memuat template. {error.message}</div>}
+
+      {canEdit && (
+        <form className="template-form" onSubmit={handleSubmit}>
+          <input
+            placeholder="Shortcut, mis. konfirmasi"
+            value={form.shortcut}
+            onChange={(event) => setForm({ ...form, shortcut: event.target.value })}
+          />
+          <input
+            placeholder="Judul template"
+            value={form.title}
+            onChange={(event) => setForm({ ...form, title: event.target.value })}
+          />
+          <div className="template-form__variables">
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <button key={variable} type="button" className="toggle-button" onClick={() => insertVariable(variable)}>
+                + {TEMPLATE_VARIABLE_LABELS[variable]}
+              </button>
+            ))}
+          </div>
+          <textarea
+            ref={bodyInputRef}
+            rows={5}
+            placeholder="Halo {{name}}, booking *{{serviceName}}* Anda pada {{bookingDate}} pukul {{bookingTime}} sudah kami terima."
+            value={form.body}
+            onChange={(event) => setForm({ ...form, body: event.target.value })}
+          />
+          {form.body.trim() && (
+            <div className="template-form__preview">
+              <span className="muted">Pratinjau</span>
+              <div dangerouslySetInnerHTML={formatWhatsappText(fillTemplate(form.body, TEMPLATE_SAMPLE_VALUES).text)} />
+            </div>
+          )}
+          <div className="schedule-form__actions">
+            {editingId && (
+              <button
+                type="button"
+                className="toggle-button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(EMPTY_TEMPLATE_FORM);
+                }}
+              >
+                Batal
+              </button>
+            )}
+            <button type="submit" disabled={isSaving}>
+              {isSaving ? 'Menyimpan...' : editingId ? 'Simpan template' : 'Tambah template'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="audit-list">
+        {!data && !error ? (
+          <p className="muted">Memuat template...</p>
+        ) : templates.length ? (
+          templates.map((template) => (
+            <div key={template.id} className="audit-entry">
+              <div className="audit-entry__header">
+                <span className="pill">/{template.shortcut}</span>
+                <span className="audit-entry__actor">{template.title}</span>
+                {template.updatedBy && (
+                  <span className="muted">
+                    {template.updatedBy}
+                    {template.updatedAt ? ` · ${formatIsoTimestamp(template.updatedAt)}` : ''}
+                  </span>
+                )}
+              </div>
+              <div className="audit-entry__change" dangerouslySetInnerHTML={formatWhatsappText(template.body)} />
+              {canEdit && (
+                <div className="schedule-entry__actions">
+                  <button
+                    type="button"
+                    className="toggle-button"
+                    onClick={() => {
+                      setEditingId(template.id);
+                      setForm({ shortcut: template.shortcut, title: template.title, body: template.body });
+                    }}
+                  >
+                    Ubah
+                  </button>
+                  <button
+                    type="button"
+                    className="toggle-button toggle-button--pause"
+                    disabled={isSaving}
+                    onClick={() => {
+                      if (confirm(`Hapus template /${template.shortcut}?`)) {
+                        request(`/api/reply-templates/${template.id}`, 'DELETE');
+                      }
+                    }}
+                  >
+                    Hapus
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <p className="muted">Belum ada template balasan.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const EMPTY_TEMPLATE_PARAMETERS: WhatsappTemplateParameters = { header: [], body: [] };
+
+function getWhatsappTemplateKey(template: WhatsappTemplate) {
+  return `${template.name}|${template.language}`;
+}
+
+function WhatsappTemplateComposer({
+  senderNumber,
+  platformId,
+  lastCustomerMessageAt,
+  onSent,
+}: {
+  senderNumber: string;
+  platformId: string | null;
+  lastCustomerMessageAt: string | null;
+  onSent: (outboundMessage: OutboundMessage) => void;
+}) {
+  const { data, error } = useSWR<{ templates: WhatsappTemplate[] }>('/api/whatsapp-templates', fetcher, {
+    revalidateOnFocus: false,
+  });
+  const [selectedKey, setSelectedKey] = useState('');
+  const [parameters, setParameters] = useState<WhatsappTemplateParameters>(EMPTY_TEMPLATE_PARAMETERS);
+  const [isSending, setIsSending] = useState(false);
+
+  const templates = data?.templates ?? [];
+  const template = templates.find((item) => getWhatsappTemplateKey(item) === selectedKey) || null;
+  const isComplete =
+    Boolean(template) &&
+    parameters.header.filter((value) => value.trim()).length === template!.headerParameterCount &&
+    parameters.body.filter((value) => value.trim()).length === template!.bodyParameterCount;
+
+  const selectTemplate = (key: string) => {
+    const next = templates.find((item) => getWhatsappTemplateKey(item) === key);
+    setSelectedKey(key);
+    setParameters({
+      header: Array(next?.headerParameterCount ?? 0).fill(''),
+      body: Array(next?.bodyParameterCount ?? 0).fill(''),
+    });
+  };
+
+  const updateParameter = (part: keyof WhatsappTemplateParameters, index: number, value: string) => {
+    setParameters((current) => ({
+      ...current,
+      [part]: current[part].map((item, itemIndex) => (itemIndex === index ? value : item)),
+    }));
+  };
+
+  const handleSend = async () => {
+    if (!template || !isComplete) return;
+    setIsSending(true);
+    try {
+      const res = await fetch('/api/send-template', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          number: senderNumber,
+          platformId,
+          templateName: template.name,
+          language: template.language,
+          parameters,
+        }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload.error || 'Gagal mengirim template.');
+      }
+      onSent(payload.outboundMessage as OutboundMessage);
+      setSelectedKey('');
+      setParameters(EMPTY_TEMPLATE_PARAMETERS);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal mengirim template WhatsApp:', err);
+      alert((err as Error).message || 'Gagal mengirim template.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderParameterInputs = (part: keyof WhatsappTemplateParameters, label: string) =>
+    parameters[part].map((value, index) => (
+      <input
+        key={`${part}-${index}`}
+        placeholder={`${label} {{${index + 1}}}`}
+        value={value}
+        onChange={(event) => updateParameter(part, index, event.target.value)}
+      />
+    ));
+
+  return (
+    <div className="hsm-composer">
+      <div className="composer-collision">
+        Sesi 24 jam WhatsApp sudah berakhir
+        {lastCustomerMessageAt ? ` (pesan terakhir pelanggan ${formatIsoTimestamp(lastCustomerMessageAt)})` : ''}.
+        Hanya template yang sudah disetujui yang bisa dikirim sampai pelanggan membalas.
+      </div>
+      {error && <div className="notice">Gagal memuat template WhatsApp. {error.message}</div>}
+      <div className="hsm-composer__form">
+        <select value={selectedKey} onChange={(event) => selectTemplate(event.target.value)} disabled={!data}>
+          <option value="">{data ? 'Pilih template WhatsApp' : 'Memuat template...'}</option>
+          {templates.map((item) => (
+            <option key={getWhatsappTemplateKey(item)} value={getWhatsappTemplateKey(item)}>
+              {item.name} ({item.language}){item.category ? ` · ${item.category}` : ''}
+            </option>
+          ))}
+        </select>
+        {renderParameterInputs('header', 'Header')}
+        {renderParameterInputs('body', 'Parameter')}
+        <button type="button" disabled={!isComplete || isSending} onClick={handleSend}>
+          {isSending ? 'Mengirim...' : 'Kirim template'}
+        </button>
+      </div>
+      {template && (
+        <div className="template-picker__preview">
+          <div dangerouslySetInnerHTML={formatWhatsappText(renderWhatsappTemplate(template, parameters))} />
+        </div>
+      )}
+      {data && !templates.length && <p className="muted">Belum ada template WhatsApp yang disetujui.</p>}
+    </div>
+  );
+}
+
+const EMPTY_CAMPAIGN_FORM = {
+  name: '',
+  labels: [] as string[],
+  channels: [] as string[],
+  from: '',
+  to: '',
+  contentType: 'text' as Campaign['content']['type'],
+  message: '',
+  templateKey: '',
+  headerParameters: [] as string[],
+  bodyParameters: [] as string[],
+};
+
+interface CampaignPreview {
+  count: number;
+  optedOut: number;
+  outsideSession: number;
+  truncated: boolean;
+  sample: { senderNumber: string; name: string | null; channel: string }[];
+}
+
+function describeCampaignAudience(campaign: Campaign, labels: LabelDefinition[]) {
+  const { audience } = campaign;
+  const parts = [audience.labels.map((label) => formatLabel(labels, label)).join(', ')];
+  if (audience.channels.length) parts.push(audience.channels.map((channel) => getChannelMeta(channel).label).join(', '));
+  if (audience.from || audience.to) parts.push(`aktif ${audience.from || '…'} s/d ${audience.to || '…'}`);
+  return parts.join(' · ');
+}
+
+function CampaignView({ labels }: { labels: LabelDefinition[] }) {
+  const { data, error, mutate } = useSWR<{ campaigns: Campaign[] }>('/api/campaigns', fetcher, {
+    // Progres kampanye yang sedang dikirim diperbarui berkala tanpa perlu memuat ulang halaman.
+    refreshInterval: (latest) => (latest?.campaigns.some((campaign) => campaign.status === 'sending') ? 5000 : 0),
+  });
+  const [form, setForm] = useState(EMPTY_CAMPAIGN_FORM);
+  const [preview, setPreview] = useState<CampaignPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { data: whatsappTemplateData } = useSWR<{ templates: WhatsappTemplate[] }>(
+    form.contentType === 'template' ? '/api/whatsapp-templates' : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  const campaigns = data?.campaigns ?? [];
+  const whatsappTemplates = whatsappTemplateData?.templates ?? [];
+  const selectedTemplate =
+    whatsappTemplates.find((template) => getWhatsappTemplateKey(template) === form.templateKey) || null;
+  const audience = { labels: form.labels, channels: form.channels, from: form.from, to: form.to };
+  const sampleValues = { name: 'Budi' };
+
+  // Hitungan penerima tidak berlaku lagi begitu segmen diubah.
+  useEffect(() => {
+    setPreview(null);
+  }, [form.labels, form.channels, form.from, form.to]);
+
+  const toggleListItem = (field: 'labels' | 'channels', value: string) => {
+    setForm((current) => ({
+      ...current,
+      [field]: current[field].includes(value)
+        ? current[field].filter((item) => item !== value)
+        : [...current[field], value],
+    }));
+  };
+
+  const selectTemplate = (key: string) => {
+    const template = whatsappTemplates.find((item) => getWhatsappTemplateKey(item) === key);
+    setForm((current) => ({
+      ...current,
+      templateKey: key,
+      headerParameters: Array(template?.headerParameterCount ?? 0).fill(''),
+      bodyParameters: Array(template?.bodyParameterCount ?? 0).fill(''),
+    }));
+  };
+
+  const updateParameter = (field: 'headerParameters' | 'bodyParameters', index: number, value: string) => {
+    setForm((current) => ({
+      ...current,
+      [field]: current[field].map((item, itemIndex) => (itemIndex === index ? value : item)),
+    }));
+  };
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(payload.error || 'Permintaan kampanye gagal.');
+    }
+    return payload;
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview((await request('/api/campaigns/preview', 'POST', { audience })) as CampaignPreview);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menghitung penerima kampanye:', err);
+      alert((err as Error).message || 'Gagal menghitung penerima.');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const content =
+      form.contentType === 'template'
+        ? {
+          type: 'template',
+          templateName: selectedTemplate?.name,
+          language: selectedTemplate?.language,
+          headerParameters: form.headerParameters,
+          bodyParameters: form.bodyParameters,
+        }
+        : { type: 'text', message: form.message };
+
+    setIsSaving(true);
+    try {
+      await request('/api/campaigns', 'POST', { name: form.name, audience, content });
+      await mutate();
+      setForm(EMPTY_CAMPAIGN_FORM);
+    } catch (err) {
+      console.error('[AdminConsole] Gagal menyimpan kampanye:', err);
+      alert((err as Error).message || 'Gagal menyimpan kampanye.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (campaign: Campaign, action: 'start' | 'cancel' | 'delete') => {
+    const prompts = {
+      start: `Mulai kirim "${campaign.name}"? Penerima dihitung ulang saat ini juga.`,
+      cancel: `Hentikan pengiriman "${campaign.name}"?`,
+      delete: `Hapus draf "${campaign.name}"?`,
+    };
+    if (!confirm(prompts[action])) return;
+
+    setIsSaving(true);
+    try {
+      if (action === 'delete') {
+        await request(`/api/campaigns/${campaign.id}`, 'DELETE');
+      } else {
+        await request(`/api/campaigns/${campaign.id}/${action}`, 'POST');
+      }
+      await mutate();
+    } catch (err) {
+      console.error('[AdminConsole] Gagal memproses kampanye:', err);
+      alert((err as Error).message || 'Gagal memproses kampanye.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const previewText =
+    form.contentType === 'template'
+      ? selectedTemplate
+        ? renderWhatsappTemplate(selectedTemplate, {
+          header: form.headerParameters.map((value) => fillTemplate(value, sampleValues).text),
+          body: form.bodyParameters.map((value) => fillTemplate(value, sampleValues).text),
+        })
+        : ''
+      : fillTemplate(form.message, sampleValues).text;
+
+  return (
+    <div className="audit-view">
+      <header className="content__header">
+        <div className="content__header-info">
+          <h2>Broadcast kampanye</h2>
+          <p className="muted">Kirim pesan ke segmen pelanggan berdasarkan label, kanal, dan aktivitas terakhir.</p>
+        </div>
+      </header>
+
+      {error && <div className="notice">Gagal memuat kampanye. {error.message}</div>}
+
+      <form className="campaign-form" onSubmit={handleSubmit}>
+        <input
+          placeholder="Nama kampanye, mis. Promo repaint Oktober"
+          value={form.name}
+          onChange={(event) => setForm({ ...form, name: event.target.value })}
+        />
+        <fieldset className="campaign-form__group">
+          <legend>Label</legend>
+          {labels.map((label) => (
+            <label key={label.key}>
+              <input
+                type="checkbox"
+                checked={form.labels.includes(label.key)}
+                onChange={() => toggleListItem('labels', label.key)}
+              />
+              {formatLabel(labels, label.key)}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset className="campaign-form__group">
+          <legend>Kanal (kosong = semua)</legend>
+          {Object.entries(CHANNEL_META).map(([key, meta]) => (
+            <label key={key}>
+              <input
+                type="checkbox"
+                checked={form.channels.includes(key)}
+                onChange={() => toggleListItem('channels', key)}
+              />
+              {meta.label}
+            </label>
+          ))}
+        </fieldset>
+        <div className="campaign-form__group">
+          <label>
+            Aktif dari
+            <input type="date" value={form.from} onChange={(event) => setForm({ ...form, from: event.target.value })} />
+          </label>
+          <label>
+            sampai
+            <input type="date" value={form.to} onChange={(event) => setForm({ ...form, to: event.target.value })} />
+          </label>
+          <button
+            type="button"
+            className="toggle-button"
+            disabled={!form.labels.length || isPreviewing}
+            onClick={handlePreview}
+          >
+            {isPreviewing ? 'Menghitung...' : 'Hitung penerima'}
+          </button>
+        </div>
+        {preview && (
+          <div className="campaign-form__preview-count">
+            <strong>{preview.count}{preview.truncated ? '+' : ''} penerima</strong>
+            {preview.optedOut > 0 && <span className="muted"> · {preview.optedOut} berhenti berlangganan</span>}
+            {form.contentType === 'text' && preview.outsideSession > 0 && (
+              <p className="campaign-form__warning">
+                {preview.outsideSession} penerima WhatsApp di luar sesi 24 jam akan dilewati. Gunakan template WhatsApp
+                untuk menjangkau mereka.
+              </p>
+            )}
+            {preview.sample.length > 0 && (
+              <p className="muted">
+                {preview.sample.map((member) => member.name || member.senderNumber).join(', ')}
+                {preview.count > preview.sample.length ? ', …' : ''}
+              </p>
+            )}
+          </div>
+        )}
+        <div className="campaign-form__group">
+          <label>
+            <input
+              type="radio"
+              checked={form.contentType === 'text'}
+              onChange={() => setForm({ ...form, contentType: 'text' })}
+            />
+            Pesan teks
+          </label>
+          <label>
+            <input
+              type="radio"
+              checked={form.contentType === 'template'}
+              onChange={() => setForm({ ...form, contentType: 'template' })}
+            />
+            Template WhatsApp
+          </label>
+        </div>
+        {form.contentType === 'text' ? (
+          <textarea
+            rows={4}
+            placeholder="Halo {{name}}, ada promo *repaint full body* bulan ini..."
+            value={form.message}
+            onChange={(event) => setForm({ ...form, message: event.target.value })}
+          />
+        ) : (
+          <div className="hsm-composer__form">
+            <select value={form.templateKey} onChange={(event) => selectTemplate(event.target.value)}>
+              <option value="">{whatsappTemplateData ? 'Pilih template WhatsApp' : 'Memuat template...'}</option>
+              {whatsappTemplates.map((template) => (
+                <option key={getWhatsappTemplateKey(template)} value={getWhatsappTemplateKey(template)}>
+                  {template.name} ({template.language})
+                </option>
+              ))}
+            </select>
+            {form.headerParameters.map((value, index) => (
+              <input
+                key={`header-${index}`}
+                placeholder={`Header {{${index + 1}}}`}
+                value={value}
+                onChange={(event) => updateParameter('headerParameters', index, event.target.value)}
+              />
+            ))}
+            {form.bodyParameters.map((value, index) => (
+              <input
+                key={`body-${index}`}
+                placeholder={`Parameter {{${index + 1}}}`}
+                value={value}
+                onChange={(event) => updateParameter('bodyParameters', index, event.target.value)}
+              />
+            ))}
+          </div>
+        )}
+        <p className="muted">Gunakan {'{{name}}'} untuk menyapa pelanggan dengan namanya.</p>
+        {previewText && (
+          <div className="template-form__preview">
+            <span className="muted">Pratinjau</span>
+            <div dangerouslySetInnerHTML={formatWhatsappText(previewText)} />
+          </div>
+        )}
+        <div className="schedule-form__actions">
+          <button type="submit" disabled={isSaving}>
+            {isSaving ? 'Menyimpan...' : 'Simpan draf'}
+          </button>
+        </div>
+      </form>
+
+      <div className="audit-list">
+        {!data && !error ? (
+          <p className="muted">Memuat kampanye...</p>
+        ) : campaigns.length ? (
+          campaigns.map((campaign) => (
+            <div key={campaign.id} className="audit-entry">
+              <div className="audit-entry__header">
+                <span className={`pill campaign-status--${campaign.status}`}>{CAMPAIGN_STATUS_LABELS[campaign.status]}</span>
+                <span className="audit-entry__actor">{campaign.name}</span>
+                <span className="muted">
+                  {campaign.createdBy || ''}
+                  {campaign.createdAt ? ` · ${formatIsoTimestamp(campaign.createdAt)}` : ''}
+                </span>
+              </div>
+              <div className="audit-entry__change">
+                {describeCampaignAudience(campaign, labels)}
+                {' · '}
+                {campaign.content.type === 'template' ? `Template ${campaign.content.templateName}` : 'Pesan teks'}
+              </div>
+              {campaign.stats && (
+                <div className="campaign-stats">
+                  {(Object.keys(RECIPIENT_STATUS_LABELS) as RecipientStatus[]).map((status) => (
+                    <span key={status}>
+                      {RECIPIENT_STATUS_LABELS[status]}: <strong>{campaign.stats?.[status] ?? 0}</strong>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {campaign.status === 'sending' && campaign.lastError && (
+                <div className="notice">Pengiriman terakhir gagal: {campaign.lastError}</div>
+              )}
+              <div className="schedule-entry__actions">
+                {campaign.status !== 'draft' && (
+                  <button
+                    type="button"
+                    className="toggle-button"
+                    onClick={() => setExpandedId((current) => (current === campaign.id ? null : campaign.id))}
+                  >
+                    {expandedId === campaign.id ? 'Tutup' : 'Penerima'}
+                  </button>
+                )}
+                {campaign.status === 'draft' && (
+                  <>
+                    <button
+                      type="button"
+                      className="toggle-button"
+                      disabled={isSaving}
+                      onClick={() => runAction(campaign, 'delete')}
+                    >
+                      Hapus
+                    </button>
+                    <button
+                      type="button"
+                      className="toggle-button toggle-button--resume"
+                      disabled={isSaving}
+                      onClick={() => runAction(campaign, 'start')}
+                    >
+                      Mulai kirim
+                    </button>
+                  </>
+                )}
+                {campaign.status === 'sending' && (
+                  <button
+                    type="button"
+                    className="toggle-button toggle-button--pause"
+                    disabled={isSaving}
+                    onClick={() => runAction(campaign, 'cancel')}
+                  >
+                    Hentikan
+                  </button>
+                )}
+              </div>
+              {expandedId === campaign.id && <CampaignRecipientList campaignId={campaign.id} />}
+            </div>
+          ))
+        ) : (
+          <p className="muted">Belum ada kampanye broadcast.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CampaignRecipientList({ campaignId }: { campaignId: string }) {
+  const [status, setStatus] = useState<RecipientStatus | ''>('');
+  const { data, error } = useSWR<{ recipients: CampaignRecipient[] }>(
+    `/api/campaigns/${campaignId}${status ? `?status=${status}` : ''}`,
+    fetcher,
+    { refreshInterval: 5000 }
+  );
+
+  return (
+    <div className="campaign-recipients">
+      <select value={status} onChange={(event) => setStatus(event.target.value as RecipientStatus | '')}>
+        <option value="">Semua status</option>
+        {(Object.keys(RECIPIENT_STATUS_LABELS) as RecipientStatus[]).map((item) => (
+          <option key={item} value={item}>{RECIPIENT_STATUS_LABELS[item]}</option>
+        ))}
+      </select>
+      {error && <div className="notice">Gagal memuat penerima. {error.message}</div>}
+      {!data && !error ? (
+        <p className="muted">Memuat penerima...</p>
+      ) : (
+        <ul>
+          {(data?.recipients ?? []).map((recipient) => (
+            <li key={recipient.id}>
+              <span>{recipient.name || recipient.senderNumber}</span>
+              <span className={`pill recipient-status--${recipient.status}`} title={recipient.error || ''}>
+                {RECIPIENT_STATUS_LABELS[recipient.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function CalendarView({
+  currentDate,
+  onDateChange,
+  bookings,
+  onSelectBooking
+}: {
+  currentDate: Date;
+  onDateChange: (d: Date) => void;
+  bookings: Booking[];
+  onSelectBooking: (b: Booking) => void;
+}) {
+  const year = currentDate.getFullYear();
+  const month = currentDate.getMonth();
+
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const firstDayOfMonth = new Date(year, month, 1).getDay(); // 0 = Sunday
+
+  const days = [];
+  for (let i = 0; i < firstDayOfMonth; i++) {
+    days.push(null);
+  }
+  for (let i = 1; i <= daysInMonth; i++) {
+    days.push(new Date(year, month, i));
+  }
+
+  const monthName = currentDate.toLocaleString('id-ID', { month: 'long', year: 'numeric' });
+
+  const handlePrevMonth = () => onDateChange(new Date(year, month - 1, 1));
+  const handleNextMonth = () => onDateChange(new Date(year, month + 1, 1));
+
+  const getBookingsForDate = (date: Date) => {
+    const dateStr = date.toISOString().split('T')[0];
+    return bookings.filter(b => b.bookingDate === dateStr);
+  };
+
+  const getRepaintOccupancy = (date: Date) => {
+    const dateStr = date.toISOString().split('T')[0];
+    // Hitung booking repaint yang aktif pada tanggal ini
+    const active = bookings.filter(b => {
+      if (!b.isRepaint || b.status === 'cancelled' || b.status === 'completed') return false;
+      return b.bookingDate <= dateStr && (b.estimatedEndDate || b.bookingDate) >= dateStr;
+    });
+    return active.length;
+  };
+
+  return (
+    <div className="calendar-container">
+      <div className="calendar-header">
+        <button onClick={handlePrevMonth}>&lt;</button>
+        <h2>{monthName}</h2>
+        <button onClick={handleNextMonth}>&gt;</button>
+      </div>
+      <div className="calendar-grid">
+        {['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'].map(d => (
+          <div key={d} className="calendar-day-header">{d}</div>
+        ))}
+        {days.map((date, idx) => {
+          if (!date) return <div key={idx} className="calendar-day empty"></div>;
+
+          const dayBookings = getBookingsForDate(date);
+          const isToday = new Date().toDateString() === date.toDateString();
+          const repaintCount = getRepaintOccupancy(date);
+          const isFull = repaintCount >= 2;
+
+          return (
+            <div key={idx} className={`calendar-day ${isToday ? 'today' : ''}`}>
+              <div className="day-header">
+                <span className="day-number">{date.getDate()}</span>
+                {repaintCount > 0 && (
+                  <span className={`capacity-badge ${isFull ? 'full' : 'partial'}`} title="Slot Repaint Terpakai">
+                    🎨 {repaintCount}/2
+                  </span>
+                )}
+              </div>
+              <div className="day-events">
+                {dayBookings.map(b => (
+                  <button
+                    key={b.id}
+                    className={`event-pill status-${b.status}`}
+                    onClick={() => onSelectBooking(b)}
+                    title={`${b.customerName} - ${b.serviceName || 'Layanan'}`}
+                  >
+                    {b.bookingTime} {b.customerName.split(' ')[0]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <style jsx>{`
+        .calendar-container { padding: 20px; height: 100%; display: flex; flex-direction: column; }
+        .calendar-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 20px; }
+        .calendar-header h2 { margin: 0; font-size: 1.5rem; }
+        .calendar-header button { background: none; border: 1px solid #ddd; padding: 5px 15px; cursor: pointer; border-radius: 4px; }
+        .calendar-grid { display: grid; grid-template-columns: repeat(7, 1fr); gap: 10px; flex: 1; }
+        .calendar-day-header { text-align: center; font-weight: bold; color: #666; padding-bottom: 10px; }
+        .calendar-day { border: 1px solid #eee; border-radius: 8px; padding: 8px; min-height: 100px; background: #fff; }
+        .calendar-day.empty { background: transparent; border: none; }
+        .calendar-day.today { border-color: #0070f3; background: #f0f7ff; }
+        .day-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 5px; }
+        .day-number { font-weight: bold; font-size: 0.9rem; color: #333; }
+        .capacity-badge { 
+          font-size: 0.7rem; padding: 2px 6px; border-radius: 10px; font-weight: bold; color: white;
+        }
+        .capacity-badge.full { background-color: #e11d48; } /* Red */
+        .capacity-badge.partial { background-color: #f59e0b; } /* Amber */
+        
+        .day-events { display: flex; flex-direction: column; gap: 4px; }
+        .event-pill { 
+          border: none; text-align: left; font-size: 0.75rem; padding: 4px 6px; 
+          border-radius: 4px; cursor: pointer; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; 
+          color: #fff; width: 100%;
+        }
+        .status-pending { background-color: #f5a623; }
+        .status-confirmed { background-color: #108ee9; }
+        .status-in_progress { background-color: #87d068; }
+        .status-completed { background-color: #00a854; }
+        .status-cancelled { background-color: #f50; }
+      `}</style>
+    </div>
+  );
+}
+
+function BookingModal({ booking, onClose, onUpdate, isUpdating, canUpdate }: {
+  booking: Booking;
+  onClose: () => void;
+  onUpdate: (id: string, status: string, notes: string) => void;
+  isUpdating: boolean;
+  canUpdate: boolean;
 }) {
   const [status, setStatus] = useState(booking.status);
   const [notes, setNotes] = useState(booking.adminNotes || '');
@@ -1116,7 +5056,7 @@ function BookingModal({ booking, onClose, onUpdate, isUpdating }: {
 
           <div className="form-group">
             <label>Update Status:</label>
-            <select value={status} onChange={(e) => setStatus(e.target.value as any)}>
+            <select value={status} onChange={(e) => setStatus(e.target.value as any)} disabled={!canUpdate}>
               <option value="pending">Pending</option>
               <option value="confirmed">Confirmed</option>
               <option value="in_progress">In Progress</option>
@@ -1132,18 +5072,21 @@ function BookingModal({ booking, onClose, onUpdate, isUpdating }: {
               onChange={(e) => setNotes(e.target.value)}
               placeholder="Catatan progres pengerjaan..."
               rows={3}
+              disabled={!canUpdate}
             />
           </div>
         </div>
         <div className="modal-footer">
-          <button onClick={onClose} disabled={isUpdating}>Batal</button>
-          <button
-            className="primary"
-            onClick={() => onUpdate(booking.id, status, notes)}
-            disabled={isUpdating}
-          >
-            {isUpdating ? 'Menyimpan...' : 'Simpan Perubahan'}
-          </button>
+          <button onClick={onClose} disabled={isUpdating}>{canUpdate ? 'Batal' : 'Tutup'}</button>
+          {canUpdate && (
+            <button
+              className="primary"
+              onClick={() => onUpdate(booking.id, status, notes)}
+              disabled={isUpdating}
+            >
+              {isUpdating ? 'Menyimpan...' : 'Simpan Perubahan'}
+            </button>
+          )}
         </div>
       </div>
       <style jsx>{`
@@ -0,0 +1,102 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import { hasPermission } from './permissions';
+import type { AdminRole } from './permissions';
+import type { AdminSession } from './session';
+import { readRecord } from './values';
+
+// Penugasan disimpan langsung di dokumen `directMessages` supaya ikut terbaca oleh daftar dan stream.
+export const ASSIGNED_SNOOZE_REASON = 'assigned';
+
+// Indikator mengetik dianggap basi setelah jeda ini tanpa sinyal baru dari composer.
+export const TYPING_TTL_MS = 8000;
+
+export interface ConversationAssignee {
+  uid: string;
+  email: string;
+  name: string | null;
+}
+
+export interface AssignableAdmin extends ConversationAssignee {
+  role: AdminRole;
+}
+
+export interface TypingAdmin extends ConversationAssignee {
+  at: string;
+}
+
+export function serializeAssignee(value: unknown): ConversationAssignee | null {
+  const assignee = readRecord(value);
+  if (!assignee.uid) return null;
+  return {
+    uid: String(assignee.uid),
+    email: typeof assignee.email === 'string' ? assignee.email : '',
+    name: typeof assignee.name === 'string' && assignee.name ? assignee.name : null,
+  };
+}
+
+/** Admin aktif yang boleh membalas pesan, karena hanya mereka yang masuk akal ditugaskan. */
+export async function listAssignableAdmins(db: Firestore): Promise<AssignableAdmin[]> {
+  const snapshot = await db.collection('adminUsers').get();
+
+  return snapshot.docs
+    .filter((doc) => doc.get('active') !== false && hasPermission(doc.get('role'), 'messages:send'))
+    .map((doc) => ({
+      uid: doc.id,
+      email: String(doc.get('email') || ''),
+      name: (doc.get('name') as string) || null,
+      role: doc.get('role') as AdminRole,
+    }))
+    .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email));
+}
+
+export async function assignConversation(
+  db: Firestore,
+  docId: string,
+  assignee: ConversationAssignee | null,
+  actor: AdminSession
+) {
+  const conversationRef = db.collection('directMessages').doc(docId);
+  const snapshot = await conversationRef.get();
+  if (!snapshot.exists) {
+    return null;
+  }
+
+  await conversationRef.update({
+    assignedTo: assignee,
+    assignedBy: assignee ? actor.email : null,
+    assignedAt: assignee ? FieldValue.serverTimestamp() : null,
+  });
+
+  return { previous: serializeAssignee(snapshot.get('assignedTo')) };
+}
+
+export function typingIndicatorRef(db: Firestore, docId: string) {
+  return db.collection('typingIndicators').doc(docId);
+}
+
+export async function recordTyping(db: Firestore, docId: string, admin: AdminSession) {
+  await typingIndicatorRef(db, docId).set(
+    { [admin.uid]: { uid: admin.uid, email: admin.email, name: admin.name || null, at: FieldValue.serverTimestamp() } },
+    { merge: true }
+  );
+}
+
+export async function clearTyping(db: Firestore, docId: string, adminUid: string) {
+  await typingIndicatorRef(db, docId).set({ [adminUid]: FieldValue.delete() }, { merge: true });
+}
+
+/** Admin lain yang masih mengetik di percakapan ini, tanpa admin yang meminta. */
+export function getTypingAdmins(data: Record<string, unknown> | undefined, excludeUid: string, now = Date.now()) {
+  const typing: TypingAdmin[] = [];
+
+  Object.values(data || {}).forEach((value) => {
+    const entry = readRecord(value);
+    const assignee = serializeAssignee(entry);
+    if (!assignee || assignee.uid === excludeUid || !(entry.at instanceof Timestamp)) return;
+    if (now - entry.at.toMillis() >= TYPING_TTL_MS) return;
+    typing.push({ ...assignee, at: entry.at.toDate().toISOString() });
+  });
+
+  return typing;
+}
@@ -0,0 +1,105 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { normalizeSenderNumber } from './identity';
+import type { AdminSession } from './session';
+
+export const AUDIT_ACTIONS = [
+  'ai.enable',
+  'ai.pause',
+  'ai.disable',
+  'ai.schedule',
+  'ai.bulk',
+  'ai.global',
+  'message.send',
+  'message.resend',
+  'message.schedule',
+  'booking.update',
+  'label.update',
+  'conversation.assign',
+  'template.update',
+  'campaign.update',
+  'customer.update',
+  'customer.merge',
+  'customer.unmerge',
+  'customer.optout',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEntryInput {
+  actor: AdminSession;
+  action: AuditAction;
+  senderNumber?: string | null;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Firestore menolak `undefined`, jadi state dinormalisasi lewat JSON terlebih dahulu.
+function toFirestoreValue(value: unknown) {
+  if (typeof value === 'undefined') return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Mencatat aksi admin ke koleksi `auditLog`. Kegagalan pencatatan hanya di-log
+ * agar tidak membatalkan aksi utama yang sudah berhasil dijalankan.
+ */
+function toAuditDocument(entry: AuditEntryInput) {
+  return {
+    actorId: entry.actor.uid,
+    actorEmail: entry.actor.email,
+    actorName: entry.actor.name || null,
+    actorRole: entry.actor.role,
+    action: entry.action,
+    // Route dan outbox menyimpan ID dokumen mentah; audit selalu memakai kunci kanonik supaya filter per percakapan cocok.
+    senderNumber: entry.senderNumber ? normalizeSenderNumber(entry.senderNumber) : null,
+    targetId: entry.targetId || null,
+    before: toFirestoreValue(entry.before),
+    after: toFirestoreValue(entry.after),
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+export async function writeAuditLog(db: Firestore, entry: AuditEntryInput) {
+  try {
+    await db.collection('auditLog').add(toAuditDocument(entry));
+  } catch (error) {
+    console.error('[admin-ui] Failed to write audit log:', error);
+  }
+}
+
+/** Seperti `writeAuditLog` untuk aksi massal: satu entri per percakapan, ditulis dalam batch. */
+export async function writeAuditLogs(db: Firestore, entries: AuditEntryInput[]) {
+  const collection = db.collection('auditLog');
+
+  try {
+    // Batch Firestore dibatasi 500 operasi.
+    for (let index = 0; index < entries.length; index += 500) {
+      const batch = db.batch();
+      entries.slice(index, index + 500).forEach((entry) => batch.set(collection.doc(), toAuditDocument(entry)));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('[admin-ui] Failed to write audit log:', error);
+  }
+}
+
+export function serializeAuditEntry(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+  const createdAt = data.createdAt as Timestamp | undefined;
+
+  return {
+    id: doc.id,
+    actorId: data.actorId || null,
+    actorEmail: data.actorEmail || null,
+    actorName: data.actorName || null,
+    actorRole: data.actorRole || null,
+    action: data.action || null,
+    senderNumber: data.senderNumber || null,
+    targetId: data.targetId || null,
+    before: data.before ?? null,
+    after: data.after ?? null,
+    createdAt: createdAt?.toDate ? createdAt.toDate().toISOString() : null,
+  };
+}
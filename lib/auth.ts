@@ -0,0 +1,161 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  readCookie,
+  verifySessionToken,
+} from './session';
+import type { AdminSession } from './session';
+import { getFirestoreDb } from './firebaseAdmin';
+import { normalizeRole } from './permissions';
+import type { AdminRole } from './permissions';
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+export type AdminUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  active: boolean;
+};
+
+export type { AdminSession };
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  const derived = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt}:${derived.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string | null | undefined) {
+  if (!storedHash) return false;
+
+  const [scheme, salt, hash] = storedHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scrypt(password, salt, expected.length);
+  return expected.length === derived.length && timingSafeEqual(expected, derived);
+}
+
+/**
+ * Membuat akun admin pertama dari ADMIN_BOOTSTRAP_EMAIL/ADMIN_BOOTSTRAP_PASSWORD
+ * selama koleksi `adminUsers` masih kosong.
+ */
+async function ensureBootstrapAdmin(db: Firestore) {
+  const email = process.env.ADMIN_BOOTSTRAP_EMAIL;
+  const password = process.env.ADMIN_BOOTSTRAP_PASSWORD;
+  if (!email || !password) return;
+
+  const existing = await db.collection('adminUsers').limit(1).get();
+  if (!existing.empty) return;
+
+  await db.collection('adminUsers').add({
+    email: normalizeEmail(email),
+    name: process.env.ADMIN_BOOTSTRAP_NAME || null,
+    role: 'owner',
+    passwordHash: await hashPassword(password),
+    active: true,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+export async function authenticateAdmin(
+  db: Firestore,
+  email: string,
+  password: string
+): Promise<AdminUser | null> {
+  await ensureBootstrapAdmin(db);
+
+  const snapshot = await db
+    .collection('adminUsers')
+    .where('email', '==', normalizeEmail(email))
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+
+  const doc = snapshot.docs[0];
+  const data = doc.data() || {};
+  if (data.active === false) return null;
+
+  const valid = await verifyPassword(password, data.passwordHash as string | undefined);
+  if (!valid) return null;
+
+  await doc.ref.update({ lastLoginAt: FieldValue.serverTimestamp() }).catch(() => undefined);
+
+  return {
+    id: doc.id,
+    email: String(data.email),
+    name: (data.name as string) || null,
+    role: normalizeRole(data.role),
+    active: true,
+  };
+}
+
+/**
+ * Admin dari cookie sesi. Token hanya membuktikan identitas; status aktif dan role selalu
+ * dibaca ulang dari `adminUsers`, supaya admin yang dinonaktifkan atau diturunkan haknya
+ * langsung kehilangan akses tanpa menunggu token kedaluwarsa.
+ */
+export async function getRequestAdmin(request: Request): Promise<AdminSession | null> {
+  const token = readCookie(request.headers.get('cookie'), SESSION_COOKIE_NAME);
+  const session = await verifySessionToken(token);
+  if (!session) return null;
+
+  const doc = await getFirestoreDb().collection('adminUsers').doc(session.uid).get();
+  if (!doc.exists || doc.get('active') === false) return null;
+
+  return {
+    ...session,
+    email: String(doc.get('email') || session.email),
+    name: (doc.get('name') as string) || null,
+    role: normalizeRole(doc.get('role')),
+  };
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'Sesi admin tidak valid. Silakan login ulang.' },
+    { status: 401 }
+  );
+}
+
+export function forbiddenResponse() {
+  return NextResponse.json(
+    { error: 'Akun Anda tidak memiliki akses untuk aksi ini.' },
+    { status: 403 }
+  );
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
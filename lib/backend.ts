@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+
+export const backendBase = [
+  process.env.API_BASE_URL,
+  process.env.NEXT_PUBLIC_API_BASE_URL,
+]
+  .find((value) => typeof value === 'string' && value.trim().length > 0)
+  ?.replace(/\/$/, '');
+
+export type BackendResult = {
+  ok: boolean;
+  status: number;
+  data: unknown;
+  error: string | null;
+};
+
+export async function callBackend(
+  path: string,
+  options: { method?: string; body?: unknown } = {}
+): Promise<BackendResult> {
+  const { method = 'POST', body } = options;
+
+  if (!backendBase) {
+    return { ok: false, status: 500, data: null, error: 'API backend belum dikonfigurasi.' };
+  }
+
+  const response = await fetch(`${backendBase}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'undefined' ? undefined : JSON.stringify(body),
+  });
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const isJson = contentType.includes('application/json');
+  const raw = isJson ? await response.json() : await response.text();
+
+  if (!response.ok) {
+    const errorMessage =
+      typeof raw === 'string' ? raw : (raw as { error?: string })?.error || null;
+    return { ok: false, status: response.status, data: raw, error: errorMessage };
+  }
+
+  return { ok: true, status: response.status, data: raw, error: null };
+}
+
+export function backendResultResponse(result: BackendResult, fallbackError: string) {
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error || fallbackError },
+      { status: result.status }
+    );
+  }
+
+  if (typeof result.data === 'string') {
+    return NextResponse.json({ success: true, message: result.data });
+  }
+
+  return NextResponse.json(result.data);
+}
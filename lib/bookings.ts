@@ -0,0 +1,37 @@
+import { callBackend } from './backend';
+import { readRecord, readString } from './values';
+
+export interface BookingSnapshot {
+  id: string;
+  status: string | null;
+  notes: string;
+  customerPhone: string | null;
+}
+
+/**
+ * Booking tersimpan di backend, dan backend hanya menyediakan daftar `/bookings`,
+ * jadi satu booking dicari dari daftar itu. `booking` bernilai `null` bila tidak ditemukan.
+ */
+export async function findBooking(id: string): Promise<{ booking: BookingSnapshot | null; error: string | null }> {
+  const result = await callBackend('/bookings', { method: 'GET' });
+  if (!result.ok) {
+    return { booking: null, error: result.error || `Backend merespons ${result.status}.` };
+  }
+
+  const bookings = readRecord(result.data).bookings;
+  const list: unknown[] = Array.isArray(result.data) ? result.data : Array.isArray(bookings) ? bookings : [];
+  const raw = list.map(readRecord).find((item) => item.id !== undefined && String(item.id) === id);
+  if (!raw) {
+    return { booking: null, error: null };
+  }
+
+  return {
+    booking: {
+      id,
+      status: readString(raw.status),
+      notes: readString(raw.adminNotes) ?? '',
+      customerPhone: readString(raw.customerPhone),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,589 @@
+import { FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { EMPTY_CONVERSATION_FILTERS, getActivityRange } from './conversationFilters';
+import { readCustomerActivity, serializeIsoTimestamp } from './conversations';
+import { getCustomerSummariesByIdentity } from './customers';
+import { parseSenderIdentity } from './identity';
+import { deliverOutboundMessage, enqueueOutboundMessage } from './outbox';
+import { extractTemplateVariables, fillTemplate } from './templateVariables';
+import { findApprovedWhatsappTemplate } from './whatsappHsm';
+import { getWhatsappSessionState, renderWhatsappTemplate } from './whatsappTemplates';
+import type { WhatsappTemplate } from './whatsappTemplates';
+import type { AdminSession } from './session';
+import { readRecord } from './values';
+
+export const CAMPAIGN_COLLECTION = 'campaigns';
+export const BROADCAST_OPT_OUT_COLLECTION = 'broadcastOptOuts';
+
+// Balasan pelanggan yang persis berisi salah satu kata ini dianggap permintaan berhenti menerima broadcast.
+const OPT_OUT_KEYWORDS = ['stop', 'berhenti', 'unsubscribe', 'unreg'];
+// Sapaan pengganti bila nama pelanggan tidak diketahui.
+const NAME_FALLBACK = 'Kak';
+const AUDIENCE_BATCH_SIZE = 500;
+const MAX_AUDIENCE_SIZE = 5000;
+// Batas nilai operator `in` Firestore dalam satu query.
+const MAX_AUDIENCE_LABELS = 30;
+const RECIPIENT_WRITE_BATCH = 400;
+// Lease per kampanye supaya dua pemanggilan cron tidak mengirim ke penerima yang sama.
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+const SEND_SPACING_MS = 500;
+
+function getSendRatePerRun() {
+  const configured = Number(process.env.CAMPAIGN_SEND_PER_MINUTE);
+  return Number.isFinite(configured) && configured > 0 ? Math.min(configured, 100) : 20;
+}
+
+export type CampaignStatus = 'draft' | 'sending' | 'completed' | 'cancelled';
+export type RecipientStatus = 'pending' | 'queued' | 'sent' | 'failed' | 'skipped';
+
+export const RECIPIENT_STATUSES: RecipientStatus[] = ['pending', 'queued', 'sent', 'failed', 'skipped'];
+
+export interface CampaignAudience {
+  labels: string[];
+  channels: string[];
+  // Tanggal `YYYY-MM-DD` aktivitas terakhir, sama dengan filter daftar percakapan.
+  from: string;
+  to: string;
+}
+
+export type CampaignContent =
+  | { type: 'text'; message: string }
+  | { type: 'template'; templateName: string; language: string; headerParameters: string[]; bodyParameters: string[] };
+
+export interface CampaignInput {
+  name: string;
+  audience: CampaignAudience;
+  content: CampaignContent;
+}
+
+type CampaignActor = Pick<AdminSession, 'uid' | 'email' | 'name'>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseStringList(value: unknown) {
+  return Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && Boolean(item.trim()))
+      .map((item) => item.trim())))
+    : [];
+}
+
+function parseParameterList(value: unknown) {
+  return Array.isArray(value) ? value.map((item) => (typeof item === 'string' ? item.trim() : '')) : [];
+}
+
+export function parseCampaignAudience(body: unknown): { audience: CampaignAudience | null; error: string | null } {
+  const payload = readRecord(body);
+  const audience: CampaignAudience = {
+    labels: parseStringList(payload.labels),
+    channels: parseStringList(payload.channels).map((channel) => channel.toLowerCase()),
+    from: typeof payload.from === 'string' && DATE_PATTERN.test(payload.from) ? payload.from : '',
+    to: typeof payload.to === 'string' && DATE_PATTERN.test(payload.to) ? payload.to : '',
+  };
+
+  // Broadcast tanpa segmen terlalu mudah terkirim ke semua pelanggan karena salah klik.
+  if (!audience.labels.length) {
+    return { audience: null, error: 'Pilih minimal satu label penerima.' };
+  }
+  if (audience.labels.length > MAX_AUDIENCE_LABELS) {
+    return { audience: null, error: `Maksimal ${MAX_AUDIENCE_LABELS} label penerima per kampanye.` };
+  }
+  if (audience.from && audience.to && audience.from > audience.to) {
+    return { audience: null, error: 'Tanggal awal aktivitas harus sebelum tanggal akhir.' };
+  }
+
+  return { audience, error: null };
+}
+
+/** Memvalidasi isi kampanye; template WhatsApp dicek ulang ke daftar yang disetujui. */
+export async function parseCampaignContent(body: unknown): Promise<{ content: CampaignContent | null; error: string | null }> {
+  const payload = readRecord(body);
+  // Booking tidak tersedia per penerima, jadi hanya nama yang bisa diisi.
+  const checkVariables = (text: string) =>
+    extractTemplateVariables(text).some((name) => name !== 'name') ? 'Kampanye hanya mendukung variabel {{name}}.' : null;
+
+  if (payload.type === 'template') {
+    const templateName = typeof payload.templateName === 'string' ? payload.templateName : '';
+    const language = typeof payload.language === 'string' ? payload.language : '';
+    const { template, error } = await findApprovedWhatsappTemplate(templateName, language);
+    if (!template) {
+      return { content: null, error: error || 'Template tidak ditemukan atau belum disetujui.' };
+    }
+
+    const headerParameters = parseParameterList(payload.headerParameters);
+    const bodyParameters = parseParameterList(payload.bodyParameters);
+    if (
+      headerParameters.length !== template.headerParameterCount ||
+      bodyParameters.length !== template.bodyParameterCount ||
+      [...headerParameters, ...bodyParameters].some((value) => !value)
+    ) {
+      return { content: null, error: 'Lengkapi semua parameter template.' };
+    }
+    const variableError = [...headerParameters, ...bodyParameters].map(checkVariables).find(Boolean);
+    if (variableError) {
+      return { content: null, error: variableError };
+    }
+
+    return {
+      content: { type: 'template', templateName: template.name, language: template.language, headerParameters, bodyParameters },
+      error: null,
+    };
+  }
+
+  const message = typeof payload.message === 'string' ? payload.message.trim() : '';
+  if (!message) {
+    return { content: null, error: 'Isi pesan kampanye wajib diisi.' };
+  }
+  const variableError = checkVariables(message);
+  if (variableError) {
+    return { content: null, error: variableError };
+  }
+
+  return { content: { type: 'text', message }, error: null };
+}
+
+export function serializeCampaign(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    name: data.name || doc.id,
+    status: (data.status || 'draft') as CampaignStatus,
+    audience: (data.audience || { labels: [], channels: [], from: '', to: '' }) as CampaignAudience,
+    content: (data.content || { type: 'text', message: '' }) as CampaignContent,
+    recipientCount: typeof data.recipientCount === 'number' ? data.recipientCount : null,
+    createdBy: data.createdBy?.email || null,
+    createdAt: serializeIsoTimestamp(data.createdAt),
+    startedAt: serializeIsoTimestamp(data.startedAt),
+    completedAt: serializeIsoTimestamp(data.completedAt),
+    cancelledAt: serializeIsoTimestamp(data.cancelledAt),
+    lastError: data.lastError || null,
+  };
+}
+
+export function serializeRecipient(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    senderNumber: data.senderNumber || doc.id,
+    name: data.name || null,
+    channel: data.channel || null,
+    status: (data.status || 'pending') as RecipientStatus,
+    outboxId: data.outboxId || null,
+    error: data.error || null,
+    updatedAt: serializeIsoTimestamp(data.updatedAt),
+  };
+}
+
+export async function listCampaigns(db: Firestore, limit = 50) {
+  const snapshot = await db.collection(CAMPAIGN_COLLECTION).orderBy('createdAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(serializeCampaign);
+}
+
+export async function createCampaign(db: Firestore, input: CampaignInput, actor: CampaignActor) {
+  const docRef = db.collection(CAMPAIGN_COLLECTION).doc();
+  await docRef.set({
+    ...input,
+    status: 'draft',
+    recipientCount: null,
+    createdBy: { uid: actor.uid, email: actor.email, name: actor.name || null },
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return serializeCampaign(await docRef.get());
+}
+
+/** Jumlah penerima per status, dihitung dengan aggregation query supaya selalu sesuai isi subkoleksi. */
+export async function getRecipientStats(db: Firestore, campaignId: string) {
+  const recipients = db.collection(CAMPAIGN_COLLECTION).doc(campaignId).collection('recipients');
+  const counts = await Promise.all(
+    RECIPIENT_STATUSES.map(async (status) => {
+      const snapshot = await recipients.where('status', '==', status).count().get();
+      return [status, snapshot.data().count] as const;
+    })
+  );
+  return Object.fromEntries(counts) as Record<RecipientStatus, number>;
+}
+
+export async function listRecipients(db: Firestore, campaignId: string, status: RecipientStatus | null, limit = 200) {
+  let query = db.collection(CAMPAIGN_COLLECTION).doc(campaignId).collection('recipients').limit(limit);
+  if (status) {
+    query = query.where('status', '==', status);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs.map(serializeRecipient);
+}
+
+export async function setBroadcastOptOut(
+  db: Firestore,
+  docId: string,
+  optedOut: boolean,
+  options: { source: 'admin' | 'keyword'; updatedBy?: string | null }
+) {
+  const docRef = db.collection(BROADCAST_OPT_OUT_COLLECTION).doc(docId);
+  if (!optedOut) {
+    await docRef.delete();
+    return;
+  }
+  await docRef.set({
+    source: options.source,
+    updatedBy: options.updatedBy || null,
+    optedOutAt: FieldValue.serverTimestamp(),
+  });
+}
+
+export async function getBroadcastOptOut(db: Firestore, docId: string) {
+  const snapshot = await db.collection(BROADCAST_OPT_OUT_COLLECTION).doc(docId).get();
+  if (!snapshot.exists) return null;
+  return {
+    source: (snapshot.get('source') as string) || 'admin',
+    updatedBy: (snapshot.get('updatedBy') as string) || null,
+    optedOutAt: serializeIsoTimestamp(snapshot.get('optedOutAt')),
+  };
+}
+
+async function getOptedOutIds(db: Firestore, docIds: string[]) {
+  if (!docIds.length) return new Set<string>();
+  const collection = db.collection(BROADCAST_OPT_OUT_COLLECTION);
+  const snapshots = await db.getAll(...docIds.map((docId) => collection.doc(docId)));
+  return new Set(snapshots.filter((snapshot) => snapshot.exists).map((snapshot) => snapshot.id));
+}
+
+function isOptOutKeyword(text: string | null | undefined) {
+  return OPT_OUT_KEYWORDS.includes(String(text || '').trim().toLowerCase());
+}
+
+/** Opt-out dari kata kunci baru disimpan saat kampanye dimulai atau dikirim, bukan saat pratinjau. */
+export async function persistKeywordOptOuts(db: Firestore, docIds: string[]) {
+  await Promise.all(docIds.map((docId) => setBroadcastOptOut(db, docId, true, { source: 'keyword' })));
+}
+
+export interface AudienceMember {
+  senderNumber: string;
+  name: string | null;
+  channel: string;
+  platformId: string | null;
+  // Penerima WhatsApp di luar sesi 24 jam hanya bisa dijangkau dengan template yang disetujui.
+  sessionExpired: boolean;
+}
+
+const OUTSIDE_SESSION_ERROR = 'Di luar sesi 24 jam WhatsApp; gunakan kampanye template.';
+
+function isOutsideWhatsappSession(channel: string | null, lastCustomerMessageAt: string | null | undefined) {
+  return channel === 'whatsapp' && getWhatsappSessionState(lastCustomerMessageAt).expired;
+}
+
+/**
+ * Membaca `directMessages` lewat query `customerLabel in labels`, diurutkan per ID dokumen sehingga
+ * tidak butuh composite index; rentang tanggal `updatedAt` dan kanal disaring di memori. Kata kunci
+ * berhenti dan sesi 24 jam dibaca dari field aktivitas pelanggan di dokumen percakapan (lihat
+ * `readCustomerActivity`), tanpa memindai riwayat pesan. Percakapan yang digabung ke satu profil
+ * pelanggan hanya dikirimi sekali, lewat percakapan dengan aktivitas terbaru.
+ * Fungsi ini hanya membaca (juga dipakai pratinjau); pelanggan yang membalas kata kunci berhenti
+ * dikembalikan di `keywordOptOuts` untuk disimpan oleh pemanggil di jalur pengiriman.
+ */
+export async function resolveCampaignAudience(db: Firestore, audience: CampaignAudience) {
+  const { fromMillis, toMillis } = getActivityRange({ ...EMPTY_CONVERSATION_FILTERS, from: audience.from, to: audience.to });
+  const members: (AudienceMember & { activityMillis: number })[] = [];
+  const keywordOptOuts: string[] = [];
+  const memberIndexByCustomer = new Map<string, number>();
+  let optedOut = 0;
+  let startAfter: string | null = null;
+  let exhausted = false;
+
+  while (!exhausted && members.length < MAX_AUDIENCE_SIZE) {
+    let query = db
+      .collection('directMessages')
+      .where('customerLabel', 'in', audience.labels)
+      .orderBy(FieldPath.documentId())
+      .limit(AUDIENCE_BATCH_SIZE);
+    if (startAfter) query = query.startAfter(startAfter);
+
+    const snapshot = await query.get();
+    exhausted = snapshot.docs.length < AUDIENCE_BATCH_SIZE;
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    if (lastDoc) startAfter = lastDoc.id;
+
+    const candidates = snapshot.docs.filter((doc) => {
+      const channel = (doc.get('channel') as string) || parseSenderIdentity(doc.id).channel;
+      const updatedAt = doc.get('updatedAt') as Timestamp | undefined;
+      const updatedMillis = updatedAt ? updatedAt.toMillis() : null;
+      return (
+        (!audience.channels.length || audience.channels.includes(channel)) &&
+        (fromMillis === null || (updatedMillis !== null && updatedMillis >= fromMillis)) &&
+        (toMillis === null || (updatedMillis !== null && updatedMillis <= toMillis))
+      );
+    });
+
+    const [optedOutIds, customers] = await Promise.all([
+      getOptedOutIds(db, candidates.map((doc) => doc.id)),
+      getCustomerSummariesByIdentity(db, candidates.map((doc) => doc.id)),
+    ]);
+
+    for (const doc of candidates) {
+      if (optedOutIds.has(doc.id)) {
+        optedOut += 1;
+        continue;
+      }
+      const activity = readCustomerActivity(doc);
+      if (isOptOutKeyword(activity.lastMessage)) {
+        keywordOptOuts.push(doc.id);
+        optedOut += 1;
+        continue;
+      }
+
+      const identity = parseSenderIdentity(doc.id);
+      const conversationName = doc.get('name') as string | undefined;
+      const channel = (doc.get('channel') as string) || identity.channel;
+      const updatedAt = doc.get('updatedAt') as Timestamp | undefined;
+      const customer = customers[doc.id];
+      const member = {
+        senderNumber: doc.id,
+        name: customer?.name || (conversationName && conversationName !== doc.id ? conversationName : null),
+        channel,
+        platformId: (doc.get('platformId') as string) || identity.platformId,
+        sessionExpired: isOutsideWhatsappSession(channel, serializeIsoTimestamp(activity.lastMessageAt)),
+        activityMillis: updatedAt ? updatedAt.toMillis() : 0,
+      };
+
+      // Urutan query per ID dokumen, jadi percakapan lain milik pelanggan yang sama bisa datang belakangan.
+      const existingIndex = customer ? memberIndexByCustomer.get(customer.id) : undefined;
+      if (existingIndex !== undefined) {
+        if (members[existingIndex].activityMillis < member.activityMillis) members[existingIndex] = member;
+        continue;
+      }
+      if (customer) memberIndexByCustomer.set(customer.id, members.length);
+      members.push(member);
+      if (members.length >= MAX_AUDIENCE_SIZE) break;
+    }
+  }
+
+  return {
+    members: members.map(({ activityMillis, ...member }) => member),
+    optedOut,
+    outsideSession: members.filter((member) => member.sessionExpired).length,
+    keywordOptOuts,
+    truncated: !exhausted,
+  };
+}
+
+/** Menyimpan daftar penerima dan memulai pengiriman bertahap oleh cron. */
+export async function startCampaign(db: Firestore, campaignId: string, members: AudienceMember[], isTemplate: boolean) {
+  const campaignRef = db.collection(CAMPAIGN_COLLECTION).doc(campaignId);
+  const recipients = campaignRef.collection('recipients');
+
+  for (let index = 0; index < members.length; index += RECIPIENT_WRITE_BATCH) {
+    const batch = db.batch();
+    members.slice(index, index + RECIPIENT_WRITE_BATCH).forEach(({ sessionExpired, ...member }) => {
+      // Template HSM hanya berlaku di WhatsApp; teks bebas hanya berlaku di dalam sesi 24 jam.
+      // Penerima yang tidak bisa dijangkau tetap dicatat tapi dilewati.
+      const error = isTemplate
+        ? member.channel !== 'whatsapp' ? 'Template WhatsApp tidak bisa dikirim ke kanal ini.' : null
+        : sessionExpired ? OUTSIDE_SESSION_ERROR : null;
+      batch.set(recipients.doc(member.senderNumber), {
+        ...member,
+        status: error ? 'skipped' : 'pending',
+        error,
+        outboxId: null,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  await campaignRef.update({
+    status: 'sending',
+    recipientCount: members.length,
+    startedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+export async function cancelCampaign(db: Firestore, campaignId: string) {
+  await db.collection(CAMPAIGN_COLLECTION).doc(campaignId).update({
+    status: 'cancelled',
+    cancelledAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+function toRecipientStatus(outboundStatus: string): RecipientStatus {
+  if (outboundStatus === 'sent') return 'sent';
+  if (outboundStatus === 'failed') return 'failed';
+  return 'queued';
+}
+
+async function claimCampaign(db: Firestore, campaignId: string) {
+  const campaignRef = db.collection(CAMPAIGN_COLLECTION).doc(campaignId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(campaignRef);
+    const leaseUntil = snapshot.get('processingUntil') as Timestamp | undefined;
+    if (snapshot.get('status') !== 'sending' || (leaseUntil && leaseUntil.toMillis() > Date.now())) {
+      return null;
+    }
+    transaction.update(campaignRef, { processingUntil: Timestamp.fromMillis(Date.now() + PROCESSING_LEASE_MS) });
+    return snapshot;
+  });
+}
+
+/**
+ * Melepas lease dan menutup kampanye bila penerima sudah habis. Status dicek ulang dalam transaksi
+ * supaya pembatalan yang terjadi selama pengiriman tidak tertimpa `completed`.
+ */
+async function releaseCampaign(db: Firestore, campaignId: string, done: boolean) {
+  const campaignRef = db.collection(CAMPAIGN_COLLECTION).doc(campaignId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(campaignRef);
+    const complete = done && snapshot.get('status') === 'sending';
+    transaction.update(campaignRef, {
+      processingUntil: null,
+      lastError: null,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(complete ? { status: 'completed', completedAt: FieldValue.serverTimestamp() } : {}),
+    });
+    return complete;
+  });
+}
+
+// Penerima `queued` menunggu retry outbox; statusnya disalin begitu outbox final.
+async function syncQueuedRecipients(db: Firestore, campaignId: string) {
+  const recipients = db.collection(CAMPAIGN_COLLECTION).doc(campaignId).collection('recipients');
+  const snapshot = await recipients.where('status', '==', 'queued').limit(100).get();
+  const withOutbox = snapshot.docs.filter((doc) => doc.get('outboxId'));
+  if (!withOutbox.length) return;
+
+  const outbox = await db.getAll(
+    ...withOutbox.map((doc) => db.collection('outboundMessages').doc(doc.get('outboxId') as string))
+  );
+  const batch = db.batch();
+  outbox.forEach((outboundDoc, index) => {
+    const status = toRecipientStatus(String(outboundDoc.get('status') || 'pending'));
+    if (status === 'queued') return;
+    batch.update(withOutbox[index].ref, {
+      status,
+      error: (outboundDoc.get('lastError') as string) || null,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+  await batch.commit();
+}
+
+// Untuk template, `message` hanya salinan teks yang tampil di outbox dan riwayat console.
+function buildRecipientMessage(content: CampaignContent, name: string | null, template: WhatsappTemplate | null) {
+  const values = { name: name || NAME_FALLBACK };
+  if (content.type === 'text') {
+    return { message: fillTemplate(content.message, values).text, template: null };
+  }
+
+  const header = content.headerParameters.map((value) => fillTemplate(value, values).text);
+  const body = content.bodyParameters.map((value) => fillTemplate(value, values).text);
+  return {
+    message: template ? renderWhatsappTemplate(template, { header, body }) : `Template ${content.templateName}`,
+    template: { name: content.templateName, language: content.language, headerParameters: header, bodyParameters: body },
+  };
+}
+
+async function sendToRecipients(db: Firestore, campaign: DocumentSnapshot) {
+  const content = campaign.get('content') as CampaignContent;
+  const createdBy = campaign.get('createdBy') as CampaignActor;
+  const recipients = campaign.ref.collection('recipients');
+  const snapshot = await recipients.where('status', '==', 'pending').limit(getSendRatePerRun()).get();
+
+  const template =
+    content.type === 'template'
+      ? (await findApprovedWhatsappTemplate(content.templateName, content.language)).template
+      : null;
+  const optedOutIds = await getOptedOutIds(db, snapshot.docs.map((doc) => doc.id));
+
+  let sent = 0;
+  for (const doc of snapshot.docs) {
+    // Pelanggan bisa membalas "STOP" setelah kampanye dimulai, jadi dicek ulang tepat sebelum dikirim.
+    const conversation = await db.collection('directMessages').doc(doc.id).get();
+    const activity = readCustomerActivity(conversation);
+    if (!optedOutIds.has(doc.id) && isOptOutKeyword(activity.lastMessage)) {
+      await persistKeywordOptOuts(db, [doc.id]);
+      optedOutIds.add(doc.id);
+    }
+
+    if (optedOutIds.has(doc.id)) {
+      await doc.ref.update({
+        status: 'skipped',
+        error: 'Pelanggan berhenti berlangganan.',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      continue;
+    }
+    // Pengiriman bertahap bisa berjalan berjam-jam, jadi sesi 24 jam juga dicek ulang di sini.
+    if (content.type === 'text' && isOutsideWhatsappSession(doc.get('channel') || null, serializeIsoTimestamp(activity.lastMessageAt))) {
+      await doc.ref.update({
+        status: 'skipped',
+        error: OUTSIDE_SESSION_ERROR,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      continue;
+    }
+
+    const { message, template: outboundTemplate } = buildRecipientMessage(content, doc.get('name') || null, template);
+    try {
+      const outboxId = await enqueueOutboundMessage(db, {
+        number: doc.get('senderNumber') || doc.id,
+        message,
+        channel: doc.get('channel') || null,
+        platformId: doc.get('platformId') || null,
+        media: [],
+        template: outboundTemplate,
+        createdBy,
+      });
+      const outbound = await deliverOutboundMessage(db, outboxId);
+      await doc.ref.update({
+        status: toRecipientStatus(outbound.status),
+        outboxId,
+        error: outbound.lastError,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      sent += 1;
+    } catch (error) {
+      await doc.ref.update({
+        status: 'failed',
+        error: (error as Error).message || 'Gagal mengirim pesan.',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, SEND_SPACING_MS));
+  }
+
+  return sent;
+}
+
+/**
+ * Dipanggil cron setiap menit: tiap kampanye aktif mengirim paling banyak
+ * `CAMPAIGN_SEND_PER_MINUTE` pesan lewat outbox, lalu ditutup saat tidak ada penerima tersisa.
+ */
+export async function processSendingCampaigns(db: Firestore) {
+  const snapshot = await db.collection(CAMPAIGN_COLLECTION).where('status', '==', 'sending').get();
+  const results: { id: string; sent: number; completed: boolean; error: string | null }[] = [];
+
+  for (const doc of snapshot.docs) {
+    const campaign = await claimCampaign(db, doc.id);
+    if (!campaign) continue;
+
+    try {
+      await syncQueuedRecipients(db, doc.id);
+      const sent = await sendToRecipients(db, campaign);
+      const stats = await getRecipientStats(db, doc.id);
+      const done = stats.pending === 0 && stats.queued === 0;
+
+      const completed = await releaseCampaign(db, doc.id, done);
+      results.push({ id: doc.id, sent, completed, error: null });
+    } catch (error) {
+      // Satu kampanye yang gagal tidak boleh menghentikan kampanye lain; dicoba lagi di pemanggilan berikutnya.
+      const message = (error as Error).message || 'Gagal memproses kampanye.';
+      console.error(`[admin-ui] Failed to process campaign ${doc.id}:`, error);
+      await doc.ref.update({ processingUntil: null, lastError: message }).catch(() => undefined);
+      results.push({ id: doc.id, sent: 0, completed: false, error: message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,136 @@
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import type { Firestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+// Backfill dijalankan per halaman ID dokumen supaya satu request tetap singkat;
+// panggil lagi dengan `nextCursor` sampai nilainya `null`.
+const BACKFILL_PAGE_SIZE = 300;
+// Backfill aktivitas pelanggan menjalankan beberapa query per percakapan, jadi halamannya lebih kecil.
+const ACTIVITY_BACKFILL_PAGE_SIZE = 50;
+// Pesan pelanggan terakhir dicari di riwayat terbaru tanpa filter `sender`, supaya tidak butuh composite index.
+const ACTIVITY_SCAN_LIMIT = 200;
+
+export interface UpdatedAtBackfillResult {
+  scannedConversations: number;
+  updated: { id: string; updatedAt: string }[];
+  nextCursor: string | null;
+  dryRun: boolean;
+}
+
+async function findLatestActivity(doc: QueryDocumentSnapshot) {
+  const lastMessageAt = doc.get('lastMessageAt');
+  if (lastMessageAt instanceof Timestamp) return lastMessageAt;
+
+  const latest = await doc.ref.collection('messages').orderBy('timestamp', 'desc').limit(1).get();
+  const timestamp = latest.docs[0]?.get('timestamp');
+  return timestamp instanceof Timestamp ? timestamp : doc.createTime;
+}
+
+/**
+ * Mengisi `updatedAt` pada percakapan lama yang belum memilikinya. Daftar percakapan
+ * diurutkan berdasarkan field ini, jadi dokumen tanpanya tidak pernah tampil di console.
+ * Nilainya diambil dari `lastMessageAt`, pesan terbaru, atau waktu pembuatan dokumen.
+ */
+export async function backfillConversationUpdatedAt(
+  db: Firestore,
+  options: { dryRun?: boolean; startAfter?: string | null } = {}
+): Promise<UpdatedAtBackfillResult> {
+  const { dryRun = false, startAfter = null } = options;
+  let query = db
+    .collection('directMessages')
+    .select('updatedAt', 'lastMessageAt')
+    .orderBy(FieldPath.documentId())
+    .limit(BACKFILL_PAGE_SIZE);
+  if (startAfter) {
+    query = query.startAfter(startAfter);
+  }
+
+  const snapshot = await query.get();
+  const result: UpdatedAtBackfillResult = {
+    scannedConversations: snapshot.size,
+    updated: [],
+    nextCursor: snapshot.size === BACKFILL_PAGE_SIZE ? snapshot.docs[snapshot.size - 1].id : null,
+    dryRun,
+  };
+
+  const batch = db.batch();
+  for (const doc of snapshot.docs) {
+    if (doc.get('updatedAt') instanceof Timestamp) continue;
+
+    const updatedAt = await findLatestActivity(doc);
+    batch.update(doc.ref, { updatedAt });
+    result.updated.push({ id: doc.id, updatedAt: updatedAt.toDate().toISOString() });
+  }
+
+  if (!dryRun && result.updated.length) {
+    await batch.commit();
+  }
+
+  return result;
+}
+
+export interface CustomerActivityBackfillResult {
+  scannedConversations: number;
+  updated: { id: string; customerMessageCount: number; lastCustomerMessageAt: string | null }[];
+  nextCursor: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Mengisi `customerMessageCount`, `lastCustomerMessageAt`, dan `lastCustomerMessage` pada percakapan
+ * yang belum memilikinya, dihitung dari subkoleksi `messages`. Pesan tanpa `sender` dianggap dari pelanggan.
+ */
+export async function backfillCustomerActivity(
+  db: Firestore,
+  options: { dryRun?: boolean; startAfter?: string | null } = {}
+): Promise<CustomerActivityBackfillResult> {
+  const { dryRun = false, startAfter = null } = options;
+  let query = db
+    .collection('directMessages')
+    .select('customerMessageCount')
+    .orderBy(FieldPath.documentId())
+    .limit(ACTIVITY_BACKFILL_PAGE_SIZE);
+  if (startAfter) {
+    query = query.startAfter(startAfter);
+  }
+
+  const snapshot = await query.get();
+  const result: CustomerActivityBackfillResult = {
+    scannedConversations: snapshot.size,
+    updated: [],
+    nextCursor: snapshot.size === ACTIVITY_BACKFILL_PAGE_SIZE ? snapshot.docs[snapshot.size - 1].id : null,
+    dryRun,
+  };
+
+  const batch = db.batch();
+  for (const doc of snapshot.docs) {
+    if (typeof doc.get('customerMessageCount') === 'number') continue;
+
+    const messages = doc.ref.collection('messages');
+    // `!=` tidak mencocokkan dokumen tanpa `sender`, jadi sisanya adalah pesan pelanggan.
+    const [total, outbound, recent] = await Promise.all([
+      messages.count().get(),
+      messages.where('sender', '!=', 'user').count().get(),
+      messages.orderBy('timestamp', 'desc').limit(ACTIVITY_SCAN_LIMIT).get(),
+    ]);
+    const lastCustomerMessage = recent.docs.find((message) => (message.get('sender') || 'user') === 'user');
+    const lastCustomerMessageAt = lastCustomerMessage?.get('timestamp');
+    const customerMessageCount = Math.max(0, total.data().count - outbound.data().count);
+
+    batch.update(doc.ref, {
+      customerMessageCount,
+      lastCustomerMessageAt: lastCustomerMessageAt instanceof Timestamp ? lastCustomerMessageAt : null,
+      lastCustomerMessage: lastCustomerMessage ? String(lastCustomerMessage.get('text') || '') : null,
+    });
+    result.updated.push({
+      id: doc.id,
+      customerMessageCount,
+      lastCustomerMessageAt: lastCustomerMessageAt instanceof Timestamp ? lastCustomerMessageAt.toDate().toISOString() : null,
+    });
+  }
+
+  if (!dryRun && result.updated.length) {
+    await batch.commit();
+  }
+
+  return result;
+}
@@ -0,0 +1,137 @@
+// Dipakai bersama oleh route `/api/conversations` dan AdminConsole (query string halaman),
+// jadi modul ini tidak boleh mengimpor apa pun yang khusus server.
+
+export type AiStateFilter = 'paused' | 'active';
+export type AssigneeFilter = 'me' | 'unassigned';
+
+export interface ConversationFilters {
+  label: string;
+  channels: string[];
+  aiState: AiStateFilter | null;
+  assignee: AssigneeFilter | null;
+  awaitingReply: boolean;
+  // Tanggal `YYYY-MM-DD` aktivitas terakhir, inklusif di kedua ujung.
+  from: string;
+  to: string;
+  minMessages: number | null;
+  maxMessages: number | null;
+}
+
+export const EMPTY_CONVERSATION_FILTERS: ConversationFilters = {
+  label: '',
+  channels: [],
+  aiState: null,
+  assignee: null,
+  awaitingReply: false,
+  from: '',
+  to: '',
+  minMessages: null,
+  maxMessages: null,
+};
+
+// Tanggal filter mengikuti WIB (Asia/Jakarta) yang tidak mengenal DST, jadi offset tetap aman.
+const FILTER_TIMEZONE_OFFSET = '+07:00';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseCount(value: string | null) {
+  if (!value) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function parseDate(value: string | null) {
+  return value && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : '';
+}
+
+/** Nilai yang tidak valid diabaikan supaya URL lama atau hasil ketik manual tidak memutus daftar. */
+export function parseConversationFilters(params: URLSearchParams): ConversationFilters {
+  const aiState = params.get('ai');
+  const assignee = params.get('assignee');
+
+  return {
+    label: params.get('label')?.trim() || '',
+    channels: Array.from(
+      new Set(
+        (params.get('channel') || '')
+          .split(',')
+          .map((channel) => channel.trim().toLowerCase())
+          .filter(Boolean)
+      )
+    ),
+    aiState: aiState === 'paused' || aiState === 'active' ? aiState : null,
+    assignee: assignee === 'me' || assignee === 'unassigned' ? assignee : null,
+    awaitingReply: params.get('awaiting') === '1',
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    minMessages: parseCount(params.get('minMessages')),
+    maxMessages: parseCount(params.get('maxMessages')),
+  };
+}
+
+export function conversationFiltersToParams(filters: ConversationFilters, params = new URLSearchParams()) {
+  if (filters.label) params.set('label', filters.label);
+  if (filters.channels.length) params.set('channel', filters.channels.join(','));
+  if (filters.aiState) params.set('ai', filters.aiState);
+  if (filters.assignee) params.set('assignee', filters.assignee);
+  if (filters.awaitingReply) params.set('awaiting', '1');
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.minMessages !== null) params.set('minMessages', String(filters.minMessages));
+  if (filters.maxMessages !== null) params.set('maxMessages', String(filters.maxMessages));
+  return params;
+}
+
+export function hasConversationFilters(filters: ConversationFilters) {
+  return conversationFiltersToParams(filters).toString() !== '';
+}
+
+/** Batas rentang aktivitas dalam milidetik; `to` mencakup seluruh hari terakhir. */
+export function getActivityRange(filters: ConversationFilters) {
+  return {
+    fromMillis: filters.from ? Date.parse(`${filters.from}T00:00:00${FILTER_TIMEZONE_OFFSET}`) : null,
+    toMillis: filters.to ? Date.parse(`${filters.to}T23:59:59.999${FILTER_TIMEZONE_OFFSET}`) : null,
+  };
+}
+
+interface FilterableConversation {
+  updatedAt?: string | null;
+  label?: string | null;
+  channel?: string | null;
+  aiPaused?: boolean;
+  lastMessageSender?: string | null;
+  messageCount?: number | null;
+  assignedTo?: { uid: string } | null;
+}
+
+/**
+ * Route sudah membatasi rentang tanggal lewat query `updatedAt`; pengecekan ulang di sini
+ * dipakai console untuk percakapan yang masuk lewat stream.
+ */
+export function matchesConversationFilters(
+  conversation: FilterableConversation,
+  filters: ConversationFilters,
+  currentAdminUid?: string | null
+) {
+  const { fromMillis, toMillis } = getActivityRange(filters);
+  if (fromMillis !== null || toMillis !== null) {
+    const updatedAt = conversation.updatedAt ? Date.parse(conversation.updatedAt) : NaN;
+    if (Number.isNaN(updatedAt)) return false;
+    if (fromMillis !== null && updatedAt < fromMillis) return false;
+    if (toMillis !== null && updatedAt > toMillis) return false;
+  }
+
+  if (filters.label && conversation.label !== filters.label) return false;
+  if (filters.channels.length && !filters.channels.includes(conversation.channel || 'unknown')) return false;
+  if (filters.aiState === 'paused' && !conversation.aiPaused) return false;
+  if (filters.aiState === 'active' && conversation.aiPaused) return false;
+  if (filters.assignee === 'me' && (!currentAdminUid || conversation.assignedTo?.uid !== currentAdminUid)) return false;
+  if (filters.assignee === 'unassigned' && conversation.assignedTo) return false;
+  // Sama dengan notifikasi: pengirim kosong dianggap pesan pelanggan.
+  if (filters.awaitingReply && (conversation.lastMessageSender || 'user') !== 'user') return false;
+
+  const count = conversation.messageCount ?? 0;
+  if (filters.minMessages !== null && count < filters.minMessages) return false;
+  if (filters.maxMessages !== null && count > filters.maxMessages) return false;
+
+  return true;
+}
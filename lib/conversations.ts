@@ -0,0 +1,198 @@
+import type { DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { parseSenderIdentity } from './identity';
+import type { SnoozeInfo } from './snooze';
+import type { CustomerSummary } from './customers';
+import type { ReadState } from './readMarkers';
+import { serializeAssignee } from './assignments';
+import { readString } from './values';
+
+export function serializeIsoTimestamp(timestamp: Timestamp | Date | null | undefined) {
+  if (!timestamp) return null;
+  if (timestamp instanceof Date) {
+    return timestamp.toISOString();
+  }
+  if ('toDate' in timestamp && typeof timestamp.toDate === 'function') {
+    return timestamp.toDate().toISOString();
+  }
+  return null;
+}
+
+export function serializeFirestoreTimestamp(timestamp: Timestamp | null | undefined) {
+  if (!timestamp) return null;
+  return {
+    seconds: timestamp.seconds,
+    nanoseconds: timestamp.nanoseconds,
+  };
+}
+
+export interface CustomerActivity {
+  lastMessageAt: Timestamp | null;
+  lastMessage: string | null;
+  /** Jumlah pesan masuk dari pelanggan; `null` bila percakapan belum punya penghitungnya. */
+  messageCount: number | null;
+}
+
+function asTimestamp(value: unknown) {
+  return value && typeof (value as Timestamp).toMillis === 'function' ? (value as Timestamp) : null;
+}
+
+/**
+ * Aktivitas pesan masuk pelanggan, dibaca dari dokumen percakapan tanpa query tambahan.
+ * Backend bot mengisi `lastCustomerMessageAt`, `lastCustomerMessage`, dan `customerMessageCount`
+ * setiap menyimpan pesan pelanggan; percakapan lama diisi lewat `/api/maintenance/customer-activity`.
+ * Ringkasan pesan terakhir tetap dipakai bila pengirimnya pelanggan dan lebih baru.
+ */
+export function readCustomerActivity(doc: DocumentSnapshot): CustomerActivity {
+  const count = doc.get('customerMessageCount');
+  const activity: CustomerActivity = {
+    lastMessageAt: asTimestamp(doc.get('lastCustomerMessageAt')),
+    lastMessage: readString(doc.get('lastCustomerMessage')),
+    messageCount: typeof count === 'number' ? count : null,
+  };
+
+  const lastMessageAt = asTimestamp(doc.get('lastMessageAt'));
+  const lastFromCustomer = (doc.get('lastMessageSender') || 'user') === 'user';
+  if (lastFromCustomer && lastMessageAt && (!activity.lastMessageAt || lastMessageAt.toMillis() > activity.lastMessageAt.toMillis())) {
+    activity.lastMessageAt = lastMessageAt;
+    activity.lastMessage = readString(doc.get('lastMessage'));
+  }
+
+  return activity;
+}
+
+export interface ConversationExtras {
+  customer?: CustomerSummary | null;
+  readState?: ReadState | null;
+}
+
+export function serializeConversation(
+  doc: DocumentSnapshot,
+  snoozeInfo: SnoozeInfo,
+  extras: ConversationExtras = {}
+) {
+  const data = doc.data() || {};
+  const identity = parseSenderIdentity(doc.id);
+  const effectiveChannel = (data.channel as string) && data.channel !== 'unknown'
+    ? String(data.channel)
+    : identity.channel;
+  const platformId = (data.platformId as string) || identity.platformId || identity.docId;
+
+  return {
+    id: doc.id,
+    senderNumber: doc.id,
+    name: data.name || null,
+    lastMessage: data.lastMessage || null,
+    lastMessageSender: data.lastMessageSender || null,
+    lastMessageAt: serializeIsoTimestamp(data.lastMessageAt),
+    updatedAt: serializeIsoTimestamp(data.updatedAt),
+    messageCount: typeof data.messageCount === 'number' ? data.messageCount : null,
+    channel: effectiveChannel,
+    platformId,
+    aiPaused: snoozeInfo.active,
+    aiPausedUntil: snoozeInfo.expiresAt,
+    aiPausedManual: snoozeInfo.manual,
+    aiPausedReason: snoozeInfo.reason,
+    label: data.customerLabel || null,
+    labelReason: data.labelReason || null,
+    labelLockedUntil: serializeIsoTimestamp(data.labelLockedUntil),
+    customer: extras.customer || null,
+    assignedTo: serializeAssignee(data.assignedTo),
+    assignedAt: serializeIsoTimestamp(data.assignedAt),
+    unreadCount: extras.readState?.unreadCount ?? 0,
+    lastReadAt: extras.readState?.lastReadAt ?? null,
+    markedUnread: extras.readState?.markedUnread ?? false,
+  };
+}
+
+export type AttachmentType = 'image' | 'video' | 'audio' | 'document';
+
+export interface MessageAttachment {
+  type: AttachmentType;
+  mimetype: string | null;
+  url: string | null;
+  storagePath: string | null;
+  caption: string | null;
+  fileName: string | null;
+  size: number | null;
+}
+
+function inferAttachmentType(type: unknown, mimetype: string | null): AttachmentType {
+  const normalized = typeof type === 'string' ? type.toLowerCase() : '';
+  if (normalized === 'image' || normalized === 'sticker') return 'image';
+  if (normalized === 'video' || normalized === 'gif') return 'video';
+  if (normalized === 'audio' || normalized === 'ptt' || normalized === 'voice') return 'audio';
+  if (normalized === 'document' || normalized === 'file') return 'document';
+
+  if (mimetype?.startsWith('image/')) return 'image';
+  if (mimetype?.startsWith('video/')) return 'video';
+  if (mimetype?.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+export function buildMediaProxyUrl(storagePath: string) {
+  return `/api/media?path=${encodeURIComponent(storagePath)}`;
+}
+
+function normalizeAttachment(raw: Record<string, unknown>): MessageAttachment | null {
+  const mimetype = (raw.mimetype || raw.mimeType || raw.contentType || null) as string | null;
+  const storagePath = (raw.storagePath || raw.path || null) as string | null;
+  const directUrl = (raw.url || raw.mediaUrl || raw.downloadUrl || null) as string | null;
+  const url = directUrl || (storagePath ? buildMediaProxyUrl(storagePath) : null);
+
+  if (!url && !storagePath) return null;
+
+  return {
+    type: inferAttachmentType(raw.type || raw.mediaType, mimetype),
+    mimetype,
+    url,
+    storagePath,
+    caption: (raw.caption as string) || null,
+    fileName: (raw.fileName || raw.filename || null) as string | null,
+    size: typeof raw.size === 'number' ? raw.size : null,
+  };
+}
+
+// Backend bot menyimpan media dalam beberapa bentuk: array `attachments`,
+// objek/array `media`, atau field datar `mediaUrl`/`mediaType` di dokumen pesan.
+export function serializeAttachments(data: Record<string, unknown>): MessageAttachment[] {
+  const candidates: Record<string, unknown>[] = [];
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      candidates.push(value as Record<string, unknown>);
+    }
+  };
+
+  collect(data.attachments);
+  collect(data.media);
+
+  if (!candidates.length && (data.mediaUrl || data.mediaPath || data.storagePath)) {
+    candidates.push({
+      type: data.mediaType || data.type,
+      mimetype: data.mimetype || data.mimeType,
+      url: data.mediaUrl,
+      storagePath: data.mediaPath || data.storagePath,
+      caption: data.caption,
+      fileName: data.fileName,
+      size: data.mediaSize,
+    });
+  }
+
+  return candidates
+    .map(normalizeAttachment)
+    .filter((attachment): attachment is MessageAttachment => Boolean(attachment));
+}
+
+export function serializeMessage(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    text: data.text || '',
+    sender: data.sender || 'user',
+    timestamp: serializeFirestoreTimestamp(data.timestamp as Timestamp | undefined),
+    attachments: serializeAttachments(data),
+  };
+}
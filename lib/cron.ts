@@ -0,0 +1,15 @@
+// Dipakai oleh middleware dan route cron, jadi tetap bebas dari API khusus Node.js.
+
+export const CRON_PATHS = [
+  '/api/outbox/process',
+  '/api/campaigns/process',
+  '/api/scheduled-messages/process',
+  '/api/search/sync',
+];
+
+/** Vercel Cron mengirim `Authorization: Bearer <CRON_SECRET>` pada setiap pemanggilan. */
+export function isCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -0,0 +1,347 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { parseSenderIdentity } from './identity';
+import { serializeIsoTimestamp, serializeMessage } from './conversations';
+import { readRecord, readString } from './values';
+
+export const CUSTOMERS_COLLECTION = 'customers';
+
+// `array-contains-any` dibatasi 30 nilai per query.
+const IDENTITY_QUERY_CHUNK = 30;
+
+export interface CustomerIdentity {
+  senderNumber: string;
+  channel: string;
+  platformId: string | null;
+}
+
+export interface CustomerVehicle {
+  make: string | null;
+  model: string | null;
+  color: string | null;
+  plate: string | null;
+}
+
+export interface CustomerProfileInput {
+  name: string | null;
+  notes: string | null;
+  vehicle: CustomerVehicle;
+  tags: string[];
+}
+
+export interface Customer extends CustomerProfileInput {
+  id: string;
+  identities: CustomerIdentity[];
+  updatedBy: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+const EMPTY_VEHICLE: CustomerVehicle = { make: null, model: null, color: null, plate: null };
+
+/** Ringkasan profil yang ikut dikirim bersama daftar percakapan untuk nama tampilan dan pencarian. */
+export interface CustomerSummary {
+  id: string;
+  name: string | null;
+  tags: string[];
+  vehicle: CustomerVehicle;
+  identityCount: number;
+}
+
+function serializeVehicle(value: unknown): CustomerVehicle {
+  const vehicle = readRecord(value);
+  return {
+    make: readString(vehicle.make),
+    model: readString(vehicle.model),
+    color: readString(vehicle.color),
+    plate: readString(vehicle.plate),
+  };
+}
+
+function hasProfileData(data: Record<string, unknown>) {
+  const vehicle = serializeVehicle(data.vehicle);
+  return Boolean(
+    data.name || data.notes || (Array.isArray(data.tags) && data.tags.length) || Object.values(vehicle).some(Boolean)
+  );
+}
+
+const MAX_TAGS = 20;
+const MAX_TEXT_LENGTH = 2000;
+
+function cleanText(value: unknown, maxLength = 120) {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+/** Memvalidasi payload profil; field yang tidak dikirim dibiarkan memakai nilai `current`. */
+export function parseCustomerProfileInput(body: unknown, current: CustomerProfileInput): CustomerProfileInput {
+  const payload = readRecord(body);
+  const vehicleBody = readRecord(payload.vehicle);
+  const tags = Array.isArray(payload.tags)
+    ? Array.from(
+      new Set(
+        payload.tags
+          .map((tag) => cleanText(tag, 40)?.toLowerCase())
+          .filter((tag): tag is string => Boolean(tag))
+      )
+    ).slice(0, MAX_TAGS)
+    : current.tags;
+
+  return {
+    name: 'name' in payload ? cleanText(payload.name) : current.name,
+    notes: 'notes' in payload ? cleanText(payload.notes, MAX_TEXT_LENGTH) : current.notes,
+    vehicle: {
+      make: 'make' in vehicleBody ? cleanText(vehicleBody.make) : current.vehicle.make,
+      model: 'model' in vehicleBody ? cleanText(vehicleBody.model) : current.vehicle.model,
+      color: 'color' in vehicleBody ? cleanText(vehicleBody.color) : current.vehicle.color,
+      plate: 'plate' in vehicleBody ? cleanText(vehicleBody.plate, 20)?.toUpperCase() ?? null : current.vehicle.plate,
+    },
+    tags,
+  };
+}
+
+function toCustomerIdentity(senderNumber: string): CustomerIdentity {
+  const identity = parseSenderIdentity(senderNumber);
+  return { senderNumber: identity.docId, channel: identity.channel, platformId: identity.platformId };
+}
+
+export function serializeCustomer(doc: DocumentSnapshot): Customer {
+  const data = doc.data() || {};
+  const identities: string[] = Array.isArray(data.identities) ? data.identities : [];
+
+  return {
+    id: doc.id,
+    name: data.name || null,
+    notes: data.notes || null,
+    vehicle: serializeVehicle(data.vehicle),
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    identities: identities.map(toCustomerIdentity),
+    updatedBy: data.updatedBy || null,
+    createdAt: serializeIsoTimestamp(data.createdAt),
+    updatedAt: serializeIsoTimestamp(data.updatedAt),
+  };
+}
+
+/**
+ * Profil untuk satu identitas. Identitas yang belum pernah digabung tetap
+ * dikembalikan sebagai profil virtual (tanpa `id`) supaya console cukup memakai satu bentuk data.
+ */
+export async function getCustomerForIdentity(db: Firestore, senderNumber: string): Promise<Customer> {
+  const docId = parseSenderIdentity(senderNumber).docId;
+  const snapshot = await db
+    .collection(CUSTOMERS_COLLECTION)
+    .where('identities', 'array-contains', docId)
+    .limit(1)
+    .get();
+
+  if (!snapshot.empty) {
+    return serializeCustomer(snapshot.docs[0]);
+  }
+
+  return {
+    id: '',
+    name: null,
+    notes: null,
+    vehicle: { ...EMPTY_VEHICLE },
+    tags: [],
+    identities: [toCustomerIdentity(docId)],
+    updatedBy: null,
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+/** Memetakan `docId` percakapan ke ringkasan profil customer-nya. */
+export async function getCustomerSummariesByIdentity(db: Firestore, senderNumbers: string[]) {
+  const docIds = Array.from(new Set(senderNumbers.filter(Boolean)));
+  const result: Record<string, CustomerSummary> = {};
+
+  for (let index = 0; index < docIds.length; index += IDENTITY_QUERY_CHUNK) {
+    const chunk = docIds.slice(index, index + IDENTITY_QUERY_CHUNK);
+    const snapshot = await db
+      .collection(CUSTOMERS_COLLECTION)
+      .where('identities', 'array-contains-any', chunk)
+      .get();
+
+    snapshot.docs.forEach((doc) => {
+      const customer = serializeCustomer(doc);
+      const summary: CustomerSummary = {
+        id: customer.id,
+        name: customer.name,
+        tags: customer.tags,
+        vehicle: customer.vehicle,
+        identityCount: customer.identities.length,
+      };
+      customer.identities.forEach(({ senderNumber }) => {
+        if (chunk.includes(senderNumber)) result[senderNumber] = summary;
+      });
+    });
+  }
+
+  return result;
+}
+
+/** Memvalidasi daftar percakapan yang akan digabung menjadi `docId` unik. */
+export function parseMergeIdentities(value: unknown): { docIds: string[]; error: string | null } {
+  const senderNumbers = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const docIds = Array.from(new Set(senderNumbers.map((item) => parseSenderIdentity(item).docId).filter(Boolean)));
+  if (docIds.length < 2) {
+    return { docIds: [], error: 'Pilih minimal dua percakapan berbeda untuk digabung.' };
+  }
+  return { docIds, error: null };
+}
+
+/**
+ * Menggabungkan beberapa percakapan (`docIds` dari `parseMergeIdentities`) menjadi satu customer.
+ * Customer yang sudah ada ikut dilebur ke customer pertama, sehingga penggabungan bisa dilakukan bertahap.
+ */
+export async function mergeCustomerIdentities(
+  db: Firestore,
+  docIds: string[],
+  options: { name?: string | null; updatedBy?: string | null } = {}
+) {
+
+  const collection = db.collection(CUSTOMERS_COLLECTION);
+
+  // Baca dan tulis dalam satu transaksi supaya penggabungan yang bersamaan tidak saling menimpa.
+  const targetRef = await db.runTransaction(async (transaction) => {
+    const existingById = new Map<string, QueryDocumentSnapshot>();
+    for (let index = 0; index < docIds.length; index += IDENTITY_QUERY_CHUNK) {
+      const chunk = docIds.slice(index, index + IDENTITY_QUERY_CHUNK);
+      const snapshot = await transaction.get(collection.where('identities', 'array-contains-any', chunk));
+      snapshot.docs.forEach((doc) => existingById.set(doc.id, doc));
+    }
+    const existing = Array.from(existingById.values());
+
+    const [target, ...absorbed] = existing;
+    const ref = target ? target.ref : collection.doc();
+    const identities = new Set<string>(docIds);
+    existing.forEach((doc) => (doc.get('identities') || []).forEach((identity: string) => identities.add(identity)));
+
+    // Field profil diambil dari customer pertama yang mengisinya; tag digabung semua.
+    const pickField = (field: string) =>
+      existing.map((doc) => doc.get(field)).find((value) => Boolean(value)) ?? null;
+    const name = options.name || pickField('name');
+    const tags = Array.from(new Set(existing.flatMap((doc) => (doc.get('tags') as string[] | undefined) ?? [])));
+
+    transaction.set(
+      ref,
+      {
+        name,
+        notes: pickField('notes'),
+        vehicle: pickField('vehicle') ?? { ...EMPTY_VEHICLE },
+        tags,
+        identities: Array.from(identities),
+        updatedBy: options.updatedBy || null,
+        updatedAt: FieldValue.serverTimestamp(),
+        ...(target ? {} : { createdAt: FieldValue.serverTimestamp() }),
+      },
+      { merge: true }
+    );
+    absorbed.forEach((doc) => transaction.delete(doc.ref));
+    return ref;
+  });
+
+  return serializeCustomer(await targetRef.get());
+}
+
+/**
+ * Melepas satu identitas dari customer-nya. Customer yang tersisa tanpa identitas,
+ * atau dengan satu identitas tanpa data profil, dihapus karena tidak lagi berguna.
+ */
+export async function unmergeCustomerIdentity(
+  db: Firestore,
+  senderNumber: string,
+  options: { updatedBy?: string | null } = {}
+) {
+  const docId = parseSenderIdentity(senderNumber).docId;
+  const snapshot = await db
+    .collection(CUSTOMERS_COLLECTION)
+    .where('identities', 'array-contains', docId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) {
+    return null;
+  }
+
+  const doc = snapshot.docs[0];
+  const remaining = ((doc.get('identities') || []) as string[]).filter((identity) => identity !== docId);
+
+  if (!remaining.length || (remaining.length === 1 && !hasProfileData(doc.data() || {}))) {
+    await doc.ref.delete();
+    return null;
+  }
+
+  await doc.ref.update({
+    identities: remaining,
+    updatedBy: options.updatedBy || null,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return serializeCustomer(await doc.ref.get());
+}
+
+/**
+ * Riwayat gabungan lintas kanal: mengambil `limit` pesan terbaru dari setiap identitas,
+ * menandai kanalnya, lalu mengurutkan semuanya berdasarkan waktu.
+ */
+export async function getMergedCustomerHistory(db: Firestore, customer: Customer, limit: number) {
+  const perIdentity = await Promise.all(
+    customer.identities.map(async (identity) => {
+      const snapshot = await db
+        .collection('directMessages')
+        .doc(identity.senderNumber)
+        .collection('messages')
+        .orderBy('timestamp', 'desc')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map((doc) => ({
+        ...serializeMessage(doc),
+        senderNumber: identity.senderNumber,
+        channel: identity.channel,
+      }));
+    })
+  );
+
+  const toMillis = (timestamp: { seconds: number; nanoseconds: number } | null) =>
+    timestamp ? timestamp.seconds * 1000 + timestamp.nanoseconds / 1_000_000 : 0;
+
+  return perIdentity
+    .flat()
+    .sort((a, b) => toMillis(a.timestamp) - toMillis(b.timestamp))
+    .slice(-limit);
+}
+
+/**
+ * Menyimpan profil untuk percakapan `senderNumber`. Bila percakapan belum punya customer,
+ * customer baru dibuat dengan satu identitas itu.
+ */
+export async function saveCustomerProfile(
+  db: Firestore,
+  senderNumber: string,
+  profile: CustomerProfileInput,
+  options: { updatedBy?: string | null } = {}
+) {
+  const docId = parseSenderIdentity(senderNumber).docId;
+  const collection = db.collection(CUSTOMERS_COLLECTION);
+
+  // Dalam transaksi supaya dua penyimpanan pertama yang bersamaan tidak membuat dua customer.
+  const docRef = await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(collection.where('identities', 'array-contains', docId).limit(1));
+    const ref = existing.empty ? collection.doc() : existing.docs[0].ref;
+
+    transaction.set(
+      ref,
+      {
+        ...profile,
+        ...(existing.empty ? { identities: [docId], createdAt: FieldValue.serverTimestamp() } : {}),
+        updatedBy: options.updatedBy || null,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return ref;
+  });
+
+  return serializeCustomer(await docRef.get());
+}
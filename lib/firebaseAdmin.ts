@@ -1,5 +1,6 @@
 import { App, cert, getApps, initializeApp } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
 import type { ServiceAccount } from 'firebase-admin/app';
 
 type ServiceAccountConfig = {
@@ -36,6 +37,7 @@ export function initFirebaseAdmin() {
       const credentials = getServiceAccountConfig();
       firebaseApp = initializeApp({
         credential: cert(credentials as ServiceAccount),
+        storageBucket: process.env.FIREBASE_STORAGE_BUCKET || undefined,
       });
     }
   }
@@ -47,3 +49,12 @@ export function getFirestoreDb() {
   initFirebaseAdmin();
   return getFirestore();
 }
+
+export function getStorageBucket() {
+  initFirebaseAdmin();
+  const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
+  if (!bucketName) {
+    throw new Error('FIREBASE_STORAGE_BUCKET belum diset di environment.');
+  }
+  return getStorage().bucket(bucketName);
+}
@@ -0,0 +1,260 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { serializeIsoTimestamp } from './conversations';
+import { readRecord } from './values';
+
+export const HANDOVER_SCHEDULE_COLLECTION = 'handoverSchedules';
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Jakarta';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * `pause`  : AI dimatikan selama jendela berlangsung (mis. staf ada di studio).
+ * `active` : AI hanya menyala selama jendela berlangsung (mis. hanya di luar jam kerja).
+ */
+export type HandoverScheduleMode = 'pause' | 'active';
+
+export interface HandoverSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  mode: HandoverScheduleMode;
+  /** 0 = Minggu ... 6 = Sabtu, mengikuti `Date#getDay`. */
+  days: number[];
+  start: string;
+  end: string;
+  timezone: string;
+  /** `null` berlaku untuk semua kanal; jadwal berkanal menggantikan jadwal umum untuk kanal itu. */
+  channel: string | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type HandoverScheduleInput = Omit<HandoverSchedule, 'id' | 'updatedBy' | 'updatedAt'>;
+
+export interface ScheduleEvaluation {
+  paused: boolean;
+  schedule: HandoverSchedule | null;
+  nextChangeAt: string | null;
+}
+
+function parseTime(value: string) {
+  const match = TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Memvalidasi payload jadwal dari API. Mengembalikan pesan error berbahasa Indonesia
+ * agar bisa langsung diteruskan ke admin.
+ */
+export function parseScheduleInput(body: unknown): { input: HandoverScheduleInput | null; error: string | null } {
+  const payload = readRecord(body);
+  const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+  if (!name) {
+    return { input: null, error: 'Nama jadwal wajib diisi.' };
+  }
+
+  const mode = payload.mode === 'active' ? 'active' : payload.mode === 'pause' ? 'pause' : null;
+  if (!mode) {
+    return { input: null, error: 'Mode jadwal harus "pause" atau "active".' };
+  }
+
+  const days = Array.isArray(payload.days)
+    ? Array.from(
+      new Set(payload.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))
+    ).sort()
+    : [];
+  if (!days.length) {
+    return { input: null, error: 'Pilih minimal satu hari.' };
+  }
+
+  const start = typeof payload.start === 'string' ? payload.start : '';
+  const end = typeof payload.end === 'string' ? payload.end : '';
+  if (parseTime(start) === null || parseTime(end) === null) {
+    return { input: null, error: 'Jam mulai dan selesai harus berformat HH:mm.' };
+  }
+  if (start === end) {
+    return { input: null, error: 'Jam mulai dan selesai tidak boleh sama.' };
+  }
+
+  const timezone = typeof payload.timezone === 'string' && payload.timezone ? payload.timezone : DEFAULT_SCHEDULE_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    return { input: null, error: `Zona waktu "${timezone}" tidak dikenal.` };
+  }
+
+  const channel = typeof payload.channel === 'string' && payload.channel.trim() ? payload.channel.trim().toLowerCase() : null;
+
+  return {
+    input: {
+      name,
+      enabled: payload.enabled !== false,
+      mode,
+      days,
+      start,
+      end,
+      timezone,
+      channel,
+    },
+    error: null,
+  };
+}
+
+export function serializeSchedule(doc: DocumentSnapshot): HandoverSchedule {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    name: data.name || doc.id,
+    enabled: data.enabled !== false,
+    mode: data.mode === 'active' ? 'active' : 'pause',
+    days: Array.isArray(data.days) ? data.days : [],
+    start: data.start || '00:00',
+    end: data.end || '00:00',
+    timezone: data.timezone || DEFAULT_SCHEDULE_TIMEZONE,
+    channel: data.channel || null,
+    updatedBy: data.updatedBy || null,
+    updatedAt: serializeIsoTimestamp(data.updatedAt),
+  };
+}
+
+export async function listHandoverSchedules(db: Firestore) {
+  const snapshot = await db.collection(HANDOVER_SCHEDULE_COLLECTION).get();
+  return snapshot.docs.map(serializeSchedule).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveHandoverSchedule(
+  db: Firestore,
+  input: HandoverScheduleInput,
+  options: { id?: string; updatedBy?: string | null } = {}
+) {
+  const collection = db.collection(HANDOVER_SCHEDULE_COLLECTION);
+  const docRef = options.id ? collection.doc(options.id) : collection.doc();
+  const payload: DocumentData = {
+    ...input,
+    updatedBy: options.updatedBy || null,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  if (!options.id) {
+    payload.createdAt = FieldValue.serverTimestamp();
+  }
+
+  await docRef.set(payload, { merge: true });
+  return serializeSchedule(await docRef.get());
+}
+
+export async function deleteHandoverSchedule(db: Firestore, id: string) {
+  await db.collection(HANDOVER_SCHEDULE_COLLECTION).doc(id).delete();
+}
+
+/**
+ * Jadwal berkanal menggantikan jadwal umum: bila ada satu saja jadwal aktif untuk
+ * kanal percakapan, jadwal tanpa kanal diabaikan.
+ */
+export function selectSchedulesForChannel(schedules: HandoverSchedule[], channel: string | null) {
+  const enabled = schedules.filter((schedule) => schedule.enabled);
+  const channelSchedules = channel ? enabled.filter((schedule) => schedule.channel === channel) : [];
+  return channelSchedules.length ? channelSchedules : enabled.filter((schedule) => !schedule.channel);
+}
+
+function getMinuteOfWeek(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((item) => item.type === type)?.value || '';
+
+  return WEEKDAY_INDEX[part('weekday')] * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+}
+
+/** Rentang menit-dalam-minggu; jendela yang melewati tengah malam tetap milik hari mulainya. */
+function getWindows(schedule: HandoverSchedule) {
+  const start = parseTime(schedule.start) ?? 0;
+  const end = parseTime(schedule.end) ?? 0;
+  const length = end > start ? end - start : MINUTES_PER_DAY - start + end;
+
+  return schedule.days.map((day) => {
+    const windowStart = day * MINUTES_PER_DAY + start;
+    return { start: windowStart, end: windowStart + length };
+  });
+}
+
+function isInsideWindow(schedule: HandoverSchedule, minuteOfWeek: number) {
+  return getWindows(schedule).some(
+    ({ start, end }) =>
+      (minuteOfWeek >= start && minuteOfWeek < end) ||
+      (minuteOfWeek + MINUTES_PER_WEEK >= start && minuteOfWeek + MINUTES_PER_WEEK < end)
+  );
+}
+
+function evaluateAt(schedules: HandoverSchedule[], date: Date) {
+  let pausedBy: HandoverSchedule | null = null;
+  const activeSchedules = schedules.filter((schedule) => schedule.mode === 'active');
+  let insideActiveWindow = false;
+
+  schedules.forEach((schedule) => {
+    const inside = isInsideWindow(schedule, getMinuteOfWeek(date, schedule.timezone));
+    if (schedule.mode === 'pause' && inside && !pausedBy) pausedBy = schedule;
+    if (schedule.mode === 'active' && inside) insideActiveWindow = true;
+  });
+
+  if (!pausedBy && activeSchedules.length && !insideActiveWindow) {
+    pausedBy = activeSchedules[0];
+  }
+
+  return pausedBy as HandoverSchedule | null;
+}
+
+/**
+ * Menghitung apakah jadwal sedang mematikan AI pada `now` dan kapan status itu
+ * berubah berikutnya. Batas jadwal dihitung dalam menit dinding zona waktu
+ * masing-masing, jadi pergeseran DST di antaranya bisa meleset satu jam
+ * (WIB tidak memakai DST).
+ */
+export function evaluateSchedules(schedules: HandoverSchedule[], now = new Date()): ScheduleEvaluation {
+  if (!schedules.length) {
+    return { paused: false, schedule: null, nextChangeAt: null };
+  }
+
+  const current = evaluateAt(schedules, now);
+  const baseMinute = new Date(Math.floor(now.getTime() / 60000) * 60000);
+
+  const offsets = new Set<number>();
+  schedules.forEach((schedule) => {
+    const minuteOfWeek = getMinuteOfWeek(now, schedule.timezone);
+    getWindows(schedule).forEach(({ start, end }) => {
+      [start, end].forEach((boundary) => {
+        const offset = (((boundary - minuteOfWeek) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+        offsets.add(offset || MINUTES_PER_WEEK);
+      });
+    });
+  });
+
+  const nextOffset = Array.from(offsets)
+    .sort((a, b) => a - b)
+    .find((offset) => {
+      const candidate = evaluateAt(schedules, new Date(baseMinute.getTime() + offset * 60000));
+      return Boolean(candidate) !== Boolean(current);
+    });
+
+  return {
+    paused: Boolean(current),
+    schedule: current,
+    nextChangeAt:
+      typeof nextOffset === 'number' ? new Date(baseMinute.getTime() + nextOffset * 60000).toISOString() : null,
+  };
+}
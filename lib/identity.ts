@@ -43,6 +43,23 @@ export function parseSenderIdentity(rawValue: string | null | undefined): Sender
   };
 }
 
+/**
+ * Kunci kanonik satu pelanggan di koleksi per-sender (`handoverSnoozes`, audit log, outbox):
+ * WhatsApp memakai `628xxx@c.us`, kanal lain memakai `<channel>:<platformId>` apa adanya.
+ */
+export function getSenderKey(identity: SenderIdentity) {
+  return identity.normalizedAddress;
+}
+
 export function normalizeSenderNumber(value: string) {
-  return parseSenderIdentity(value).normalizedAddress || value;
+  return getSenderKey(parseSenderIdentity(value)) || value;
+}
+
+/**
+ * Kunci lama yang dulu dibuat route `ai-state` dengan membuang semua karakter non-digit.
+ * Dipakai migrasi untuk menemukan dokumen snooze yang salah kunci.
+ */
+export function getLegacyDigitsSenderKey(value: string) {
+  const digits = value.replace(/[^0-9]/g, '');
+  return digits ? `${digits}${WHATSAPP_SUFFIX}` : '';
 }
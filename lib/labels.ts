@@ -0,0 +1,165 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { serializeIsoTimestamp } from './conversations';
+import type { AdminSession } from './session';
+
+// Taksonomi label disimpan per dokumen di koleksi ini (ID dokumen = key label), sehingga
+// label baru seperti `warranty_claim` cukup ditambahkan lewat Firestore tanpa deploy.
+export const LABEL_DEFINITIONS_COLLECTION = 'labelDefinitions';
+
+export interface LabelDefinition {
+  key: string;
+  displayName: string;
+  color: string | null;
+  emoji: string | null;
+  sortOrder: number;
+}
+
+// Dipakai selama koleksi konfigurasi masih kosong; sama dengan label yang selama ini dipasang AI.
+const DEFAULT_LABEL_DEFINITIONS: LabelDefinition[] = [
+  { key: 'hot_lead', displayName: 'Hot Lead', color: '#ef4444', emoji: '🔥', sortOrder: 10 },
+  { key: 'cold_lead', displayName: 'Cold Lead', color: '#3b82f6', emoji: '❄️', sortOrder: 20 },
+  { key: 'booking_process', displayName: 'Booking', color: '#8b5cf6', emoji: '📅', sortOrder: 30 },
+  { key: 'scheduling', displayName: 'Scheduling', color: '#f59e0b', emoji: '🕒', sortOrder: 40 },
+  { key: 'completed', displayName: 'Completed', color: '#22c55e', emoji: '✅', sortOrder: 50 },
+  { key: 'follow_up', displayName: 'Follow Up', color: '#ec4899', emoji: '📌', sortOrder: 60 },
+  { key: 'general', displayName: 'General', color: '#64748b', emoji: '📝', sortOrder: 70 },
+  { key: 'archive', displayName: 'Archive', color: '#94a3b8', emoji: '🗄️', sortOrder: 80 },
+];
+
+export function formatLabelKey(key: string) {
+  return key.split('_').join(' ');
+}
+
+export function serializeLabelDefinition(doc: DocumentSnapshot): LabelDefinition {
+  const data = doc.data() || {};
+
+  return {
+    key: doc.id,
+    displayName: (typeof data.displayName === 'string' && data.displayName.trim()) || formatLabelKey(doc.id),
+    color: data.color || null,
+    emoji: data.emoji || null,
+    sortOrder: typeof data.sortOrder === 'number' ? data.sortOrder : Number.MAX_SAFE_INTEGER,
+  };
+}
+
+export async function listLabelDefinitions(db: Firestore): Promise<LabelDefinition[]> {
+  const snapshot = await db.collection(LABEL_DEFINITIONS_COLLECTION).get();
+  if (snapshot.empty) {
+    return DEFAULT_LABEL_DEFINITIONS;
+  }
+
+  return snapshot.docs
+    .map(serializeLabelDefinition)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.key.localeCompare(b.key));
+}
+
+// Label yang dipasang admin dikunci dari penimpaan AI selama periode ini kecuali diminta lain.
+// Backend bot wajib melewati update `customerLabel` selama `labelLockedUntil` masih di masa depan.
+const DEFAULT_LOCK_MINUTES = 3 * 24 * 60;
+const MAX_LOCK_MINUTES = 90 * 24 * 60;
+
+export function getDefaultLabelLockMinutes() {
+  const configured = Number(process.env.LABEL_OVERRIDE_LOCK_MINUTES);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_LOCK_MINUTES;
+}
+
+export function parseLockMinutes(value: unknown) {
+  if (value === undefined || value === null) return getDefaultLabelLockMinutes();
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes) || minutes < 0) return null;
+  return Math.min(Math.round(minutes), MAX_LOCK_MINUTES);
+}
+
+export interface LabelHistoryEntry {
+  id: string;
+  label: string | null;
+  previousLabel: string | null;
+  reason: string | null;
+  source: string;
+  actorEmail: string | null;
+  actorName: string | null;
+  lockedUntil: string | null;
+  createdAt: string | null;
+}
+
+export function serializeLabelHistoryEntry(doc: DocumentSnapshot): LabelHistoryEntry {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    label: data.label || null,
+    previousLabel: data.previousLabel || null,
+    reason: data.reason || null,
+    source: data.source || 'admin',
+    actorEmail: data.actorEmail || null,
+    actorName: data.actorName || null,
+    lockedUntil: serializeIsoTimestamp(data.lockedUntil),
+    createdAt: serializeIsoTimestamp(data.createdAt),
+  };
+}
+
+export function serializeLabelLock(data: Record<string, unknown> | undefined) {
+  return serializeIsoTimestamp(data?.labelLockedUntil as Timestamp | undefined);
+}
+
+/**
+ * Mengganti `customerLabel` percakapan sekaligus mencatatnya di subkoleksi `labelHistory`.
+ * Keduanya ditulis dalam satu batch supaya riwayat tidak pernah tertinggal dari label aktif.
+ */
+export async function setConversationLabel(
+  db: Firestore,
+  docId: string,
+  input: { label: string | null; reason: string | null; lockMinutes: number; actor: AdminSession }
+) {
+  const conversationRef = db.collection('directMessages').doc(docId);
+  const snapshot = await conversationRef.get();
+  if (!snapshot.exists) {
+    return null;
+  }
+
+  const previousLabel = (snapshot.get('customerLabel') as string) || null;
+  const lockedUntil = input.lockMinutes > 0
+    ? Timestamp.fromMillis(Date.now() + input.lockMinutes * 60 * 1000)
+    : null;
+
+  const batch = db.batch();
+  batch.update(conversationRef, {
+    customerLabel: input.label,
+    labelReason: input.reason,
+    labelSource: 'admin',
+    labelUpdatedBy: input.actor.email,
+    labelUpdatedAt: FieldValue.serverTimestamp(),
+    labelLockedUntil: lockedUntil,
+  });
+  batch.create(conversationRef.collection('labelHistory').doc(), {
+    label: input.label,
+    previousLabel,
+    reason: input.reason,
+    source: 'admin',
+    actorId: input.actor.uid,
+    actorEmail: input.actor.email,
+    actorName: input.actor.name || null,
+    lockedUntil,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+
+  return {
+    previousLabel,
+    previousReason: (snapshot.get('labelReason') as string) || null,
+    lockedUntil: lockedUntil ? lockedUntil.toDate().toISOString() : null,
+  };
+}
+
+export async function getLabelHistory(db: Firestore, docId: string, limit = 20) {
+  const snapshot = await db
+    .collection('directMessages')
+    .doc(docId)
+    .collection('labelHistory')
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map(serializeLabelHistoryEntry);
+}
@@ -0,0 +1,71 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+
+// Percobaan login disimpan di Firestore, bukan di memori, karena setiap instance serverless
+// punya memori sendiri. Kunci akun lebih ketat daripada kunci IP, yang bisa dipakai bersama satu kantor.
+const LOGIN_ATTEMPTS_COLLECTION = 'loginAttempts';
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_ACCOUNT = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+export interface LoginThrottleKeys {
+  account: string;
+  ip: string | null;
+}
+
+export function getLoginThrottleKeys(request: Request, email: string): LoginThrottleKeys {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  const ip = forwarded || request.headers.get('x-real-ip')?.trim() || null;
+  // ID dokumen Firestore tidak boleh berisi `/`.
+  return {
+    account: `account:${email.trim().toLowerCase().replace(/\//g, '_')}`,
+    ip: ip ? `ip:${ip.replace(/\//g, '_')}` : null,
+  };
+}
+
+function listKeys(keys: LoginThrottleKeys) {
+  return [keys.account, keys.ip].filter((key): key is string => Boolean(key));
+}
+
+/** Sisa waktu kunci dalam milidetik untuk akun atau IP ini; `0` bila login boleh dicoba. */
+export async function getLoginLockRemaining(db: Firestore, keys: LoginThrottleKeys) {
+  const collection = db.collection(LOGIN_ATTEMPTS_COLLECTION);
+  const snapshots = await db.getAll(...listKeys(keys).map((key) => collection.doc(key)));
+  const now = Date.now();
+
+  return snapshots.reduce((remaining, snapshot) => {
+    const lockedUntil = snapshot.get('lockedUntil');
+    return lockedUntil instanceof Timestamp ? Math.max(remaining, lockedUntil.toMillis() - now) : remaining;
+  }, 0);
+}
+
+/** Mencatat login gagal dan mengunci akun atau IP yang melewati batas dalam satu jendela waktu. */
+export async function recordLoginFailure(db: Firestore, keys: LoginThrottleKeys) {
+  const collection = db.collection(LOGIN_ATTEMPTS_COLLECTION);
+
+  await Promise.all(
+    listKeys(keys).map((key) =>
+      db.runTransaction(async (transaction) => {
+        const ref = collection.doc(key);
+        const snapshot = await transaction.get(ref);
+        const now = Date.now();
+        const windowStart = snapshot.get('windowStart');
+        const inWindow = windowStart instanceof Timestamp && now - windowStart.toMillis() < ATTEMPT_WINDOW_MS;
+        const failures = (inWindow ? Number(snapshot.get('failures')) || 0 : 0) + 1;
+        const maxFailures = key === keys.account ? MAX_FAILURES_PER_ACCOUNT : MAX_FAILURES_PER_IP;
+
+        transaction.set(ref, {
+          failures: failures >= maxFailures ? 0 : failures,
+          windowStart: inWindow ? windowStart : Timestamp.fromMillis(now),
+          lockedUntil: failures >= maxFailures ? Timestamp.fromMillis(now + LOCKOUT_MS) : null,
+        });
+      })
+    )
+  );
+}
+
+/** Login berhasil menghapus catatan gagal untuk akun itu; catatan IP dibiarkan berjalan. */
+export async function clearLoginFailures(db: Firestore, keys: LoginThrottleKeys) {
+  await db.collection(LOGIN_ATTEMPTS_COLLECTION).doc(keys.account).delete();
+}
@@ -0,0 +1,277 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { callBackend } from './backend';
+import { serializeIsoTimestamp } from './conversations';
+import { getStorageBucket } from './firebaseAdmin';
+import { parseSenderIdentity } from './identity';
+import type { AdminSession } from './session';
+
+export type OutboundStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+// Pesan berstatus `sending` yang melewati lease ini dianggap macet dan boleh diklaim ulang.
+const SENDING_LEASE_MS = 2 * 60 * 1000;
+// Dokumen Firestore dibatasi 1 MiB, jadi lampiran besar dipindah ke Cloud Storage.
+const MAX_INLINE_MEDIA_BASE64_LENGTH = 700 * 1024;
+
+export interface OutboundMedia {
+  type: string;
+  mimetype: string;
+  base64: string;
+  fileName: string | null;
+  caption: string | null;
+}
+
+/** Pesan template WhatsApp (HSM) untuk pelanggan yang sesi 24 jamnya sudah berakhir. */
+export interface OutboundTemplate {
+  name: string;
+  language: string;
+  headerParameters: string[];
+  bodyParameters: string[];
+}
+
+type StoredOutboundMedia = Omit<OutboundMedia, 'base64'> & {
+  base64: string | null;
+  storagePath: string | null;
+};
+
+export interface OutboundMessageInput {
+  number: string;
+  message: string;
+  channel: string | null;
+  platformId: string | null;
+  media: OutboundMedia[];
+  template?: OutboundTemplate | null;
+  // Kampanye broadcast mengirim atas nama pembuatnya, tanpa sesi login yang aktif.
+  createdBy: Pick<AdminSession, 'uid' | 'email'>;
+}
+
+function getRetryDelayMs(attempts: number) {
+  return BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+async function storeMedia(outboxId: string, media: OutboundMedia[]): Promise<StoredOutboundMedia[]> {
+  const totalLength = media.reduce((sum, item) => sum + item.base64.length, 0);
+  if (totalLength <= MAX_INLINE_MEDIA_BASE64_LENGTH) {
+    return media.map((item) => ({ ...item, storagePath: null }));
+  }
+
+  const bucket = getStorageBucket();
+  return Promise.all(
+    media.map(async (item, index) => {
+      const safeName = (item.fileName || `lampiran-${index}`).replace(/[^\w.-]+/g, '_');
+      const storagePath = `outboundMedia/${outboxId}/${index}-${safeName}`;
+      await bucket.file(storagePath).save(Buffer.from(item.base64, 'base64'), {
+        contentType: item.mimetype,
+        resumable: false,
+      });
+      return { ...item, base64: null, storagePath };
+    })
+  );
+}
+
+async function loadMedia(stored: StoredOutboundMedia[]): Promise<OutboundMedia[]> {
+  return Promise.all(
+    stored.map(async ({ storagePath, base64, ...rest }) => {
+      if (base64 || !storagePath) {
+        return { ...rest, base64: base64 || '' };
+      }
+      const [buffer] = await getStorageBucket().file(storagePath).download();
+      return { ...rest, base64: buffer.toString('base64') };
+    })
+  );
+}
+
+export async function enqueueOutboundMessage(db: Firestore, input: OutboundMessageInput) {
+  const docRef = db.collection('outboundMessages').doc();
+  const identity = parseSenderIdentity(input.number);
+  const media = input.media.length ? await storeMedia(docRef.id, input.media) : [];
+
+  await docRef.set({
+    senderNumber: identity.docId,
+    number: input.number,
+    message: input.message,
+    channel: input.channel,
+    platformId: input.platformId,
+    media,
+    template: input.template || null,
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdById: input.createdBy.uid,
+    createdByEmail: input.createdBy.email,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    nextAttemptAt: Timestamp.now(),
+    sentAt: null,
+  });
+
+  return docRef.id;
+}
+
+// Bentuk `template` mengikuti Cloud API WhatsApp supaya backend cukup meneruskannya.
+function buildTemplatePayload(template: OutboundTemplate) {
+  const toParameters = (values: string[]) => values.map((text) => ({ type: 'text', text }));
+  const components = [];
+  if (template.headerParameters.length) {
+    components.push({ type: 'header', parameters: toParameters(template.headerParameters) });
+  }
+  if (template.bodyParameters.length) {
+    components.push({ type: 'body', parameters: toParameters(template.bodyParameters) });
+  }
+
+  return { name: template.name, language: { code: template.language }, components };
+}
+
+/**
+ * Mengklaim satu pesan outbox lalu mengirimkannya ke backend. Klaim dilakukan
+ * di dalam transaksi agar cron dan request admin tidak mengirim pesan yang sama dua kali.
+ */
+export async function deliverOutboundMessage(db: Firestore, id: string) {
+  const docRef = db.collection('outboundMessages').doc(id);
+
+  const claimed = await db.runTransaction<DocumentData | null>(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) return null;
+
+    const data: DocumentData = snapshot.data() || {};
+    const nextAttemptAt = data.nextAttemptAt as Timestamp | null | undefined;
+    const isDue = !nextAttemptAt || nextAttemptAt.toMillis() <= Date.now();
+    if (!['pending', 'sending'].includes(data.status) || !isDue) return null;
+
+    const attempts = (typeof data.attempts === 'number' ? data.attempts : 0) + 1;
+    transaction.update(docRef, {
+      status: 'sending',
+      attempts,
+      lastAttemptAt: FieldValue.serverTimestamp(),
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + SENDING_LEASE_MS),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { ...data, attempts } as DocumentData;
+  });
+
+  if (!claimed) {
+    return serializeOutboundMessage(await docRef.get());
+  }
+
+  let error: string | null = null;
+  try {
+    const media = Array.isArray(claimed.media) && claimed.media.length
+      ? await loadMedia(claimed.media as StoredOutboundMedia[])
+      : [];
+    const template = claimed.template as OutboundTemplate | null | undefined;
+    const result = template
+      ? await callBackend('/send-template', {
+        body: {
+          number: claimed.number,
+          channel: claimed.channel,
+          platformId: claimed.platformId,
+          template: buildTemplatePayload(template),
+          sentBy: claimed.createdByEmail,
+        },
+      })
+      : await callBackend('/send-message', {
+        body: {
+          number: claimed.number,
+          message: claimed.message || '',
+          channel: claimed.channel,
+          platformId: claimed.platformId,
+          media: media.length ? media : undefined,
+          sentBy: claimed.createdByEmail,
+        },
+      });
+    error = result.ok ? null : result.error || `Backend merespons ${result.status}.`;
+  } catch (deliveryError) {
+    error = (deliveryError as Error).message || 'Gagal menghubungi backend.';
+  }
+
+  if (!error) {
+    await docRef.update({
+      status: 'sent',
+      lastError: null,
+      nextAttemptAt: null,
+      sentAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } else {
+    const exhausted = claimed.attempts >= MAX_DELIVERY_ATTEMPTS;
+    await docRef.update({
+      status: exhausted ? 'failed' : 'pending',
+      lastError: error,
+      nextAttemptAt: exhausted ? null : Timestamp.fromMillis(Date.now() + getRetryDelayMs(claimed.attempts)),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  return serializeOutboundMessage(await docRef.get());
+}
+
+/** Mengembalikan pesan `failed` ke antrean untuk satu siklus percobaan baru. */
+export async function requeueOutboundMessage(db: Firestore, id: string) {
+  const docRef = db.collection('outboundMessages').doc(id);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) return false;
+    if (snapshot.get('status') !== 'failed') return false;
+
+    transaction.update(docRef, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+export async function processDueOutboundMessages(db: Firestore, limit = 20) {
+  // Hanya pesan yang belum final yang punya `nextAttemptAt`, jadi range query ini cukup.
+  const snapshot = await db
+    .collection('outboundMessages')
+    .where('nextAttemptAt', '<=', Timestamp.now())
+    .orderBy('nextAttemptAt', 'asc')
+    .limit(limit)
+    .get();
+
+  const results = [];
+  for (const doc of snapshot.docs) {
+    results.push(await deliverOutboundMessage(db, doc.id));
+  }
+  return results;
+}
+
+export async function getUndeliveredOutboundMessages(db: Firestore, senderNumber: string) {
+  const snapshot = await db
+    .collection('outboundMessages')
+    .where('senderNumber', '==', senderNumber)
+    .where('status', 'in', ['pending', 'sending', 'failed'])
+    .get();
+
+  return snapshot.docs
+    .map(serializeOutboundMessage)
+    .sort((a, b) => Date.parse(a.createdAt || '') - Date.parse(b.createdAt || ''));
+}
+
+export function serializeOutboundMessage(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+  const media = Array.isArray(data.media) ? (data.media as StoredOutboundMedia[]) : [];
+
+  return {
+    id: doc.id,
+    senderNumber: data.senderNumber || null,
+    message: data.message || '',
+    channel: data.channel || null,
+    media: media.map(({ type, mimetype, fileName, caption }) => ({ type, mimetype, fileName, caption })),
+    templateName: (data.template?.name as string) || null,
+    status: (data.status || 'pending') as OutboundStatus,
+    attempts: typeof data.attempts === 'number' ? data.attempts : 0,
+    maxAttempts: MAX_DELIVERY_ATTEMPTS,
+    lastError: data.lastError || null,
+    createdByEmail: data.createdByEmail || null,
+    createdAt: serializeIsoTimestamp(data.createdAt),
+    nextAttemptAt: serializeIsoTimestamp(data.nextAttemptAt),
+    sentAt: serializeIsoTimestamp(data.sentAt),
+  };
+}
@@ -0,0 +1,55 @@
+export function encodeCursor(value: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+}
+
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string | null | undefined): T | null {
+  if (!cursor) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return parsed && typeof parsed === 'object' ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseLimit(value: string | null, fallback: number, max: number) {
+  const parsed = value ? parseInt(value, 10) : fallback;
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.min(parsed, max);
+}
+
+/** Cursor `(timestamp, id)` untuk daftar yang diurutkan berdasarkan waktu lalu ID dokumen. */
+export type TimestampCursor = {
+  seconds: number;
+  nanoseconds: number;
+  id: string;
+};
+
+// Rentang yang diterima konstruktor `Timestamp` Firestore (0001-01-01 sampai 9999-12-31).
+const MIN_TIMESTAMP_SECONDS = -62135596800;
+const MAX_TIMESTAMP_SECONDS = 253402300799;
+const MAX_NANOSECONDS = 999999999;
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Mendekode cursor waktu dari klien; `null` bila isinya tidak bisa dipakai untuk membuat `Timestamp`. */
+export function decodeTimestampCursor(cursor: string | null | undefined): TimestampCursor | null {
+  const parsed = decodeCursor<Record<string, unknown>>(cursor);
+  if (!parsed) return null;
+
+  const { seconds, id } = parsed;
+  const nanoseconds = parsed.nanoseconds ?? 0;
+  if (
+    !isIntegerInRange(seconds, MIN_TIMESTAMP_SECONDS, MAX_TIMESTAMP_SECONDS) ||
+    !isIntegerInRange(nanoseconds, 0, MAX_NANOSECONDS) ||
+    typeof id !== 'string' ||
+    !id
+  ) {
+    return null;
+  }
+
+  return { seconds, nanoseconds, id };
+}
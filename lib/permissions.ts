@@ -0,0 +1,86 @@
+// Dipakai bersama oleh route handler, middleware, dan AdminConsole di browser,
+// jadi modul ini tidak boleh mengimpor apa pun yang khusus server.
+
+export const ADMIN_ROLES = ['owner', 'admin', 'agent', 'viewer'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type Permission =
+  | 'conversations:read'
+  | 'messages:send'
+  | 'ai:pause'
+  | 'ai:disable'
+  | 'bookings:update'
+  | 'customers:update'
+  | 'labels:update'
+  | 'conversations:assign'
+  | 'templates:manage'
+  | 'campaigns:manage'
+  | 'audit:read'
+  | 'maintenance:run'
+  | 'playground:use';
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: [
+    'conversations:read',
+    'messages:send',
+    'ai:pause',
+    'ai:disable',
+    'bookings:update',
+    'customers:update',
+    'labels:update',
+    'conversations:assign',
+    'templates:manage',
+    'campaigns:manage',
+    'audit:read',
+    // Migrasi data menulis lintas koleksi, jadi hanya owner yang boleh menjalankannya.
+    'maintenance:run',
+    'playground:use',
+  ],
+  admin: [
+    'conversations:read',
+    'messages:send',
+    'ai:pause',
+    'ai:disable',
+    'bookings:update',
+    'customers:update',
+    'labels:update',
+    'conversations:assign',
+    'templates:manage',
+    'campaigns:manage',
+    'audit:read',
+  ],
+  // Agent boleh menjeda AI sementara, tapi tidak mematikannya permanen.
+  // Tanpa `conversations:assign`, agent hanya bisa mengambil atau melepas percakapan untuk dirinya sendiri.
+  agent: [
+    'conversations:read',
+    'messages:send',
+    'ai:pause',
+    'bookings:update',
+    'customers:update',
+    'labels:update',
+  ],
+  viewer: ['conversations:read'],
+};
+
+// Jeda AI terlama untuk role tanpa `ai:disable`; jeda yang lebih panjang praktis sama dengan mematikan AI.
+export const MAX_TIMED_PAUSE_MINUTES = 24 * 60;
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  agent: 'Agent',
+  viewer: 'Viewer',
+};
+
+export function normalizeRole(value: unknown): AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole) ? (value as AdminRole) : 'viewer';
+}
+
+export function getRolePermissions(role: unknown): Permission[] {
+  return ROLE_PERMISSIONS[normalizeRole(role)];
+}
+
+export function hasPermission(role: unknown, permission: Permission) {
+  return getRolePermissions(role).includes(permission);
+}
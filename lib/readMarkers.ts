@@ -0,0 +1,72 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { readCustomerActivity, serializeIsoTimestamp } from './conversations';
+
+// Penanda baca disimpan per admin di `adminUsers/{uid}/readMarkers/{docId percakapan}`.
+
+export interface ReadState {
+  unreadCount: number;
+  lastReadAt: string | null;
+  markedUnread: boolean;
+}
+
+function readMarkersCollection(db: Firestore, adminUid: string) {
+  return db.collection('adminUsers').doc(adminUid).collection('readMarkers');
+}
+
+/**
+ * Menyimpan waktu baca beserta jumlah pesan pelanggan saat itu, sehingga pesan belum dibaca
+ * cukup dihitung dari selisih penghitung di dokumen percakapan.
+ */
+export async function markConversationRead(db: Firestore, adminUid: string, docId: string) {
+  const conversation = await db.collection('directMessages').doc(docId).get();
+
+  await readMarkersCollection(db, adminUid).doc(docId).set({
+    lastReadAt: FieldValue.serverTimestamp(),
+    customerMessageCount: readCustomerActivity(conversation).messageCount,
+    markedUnread: false,
+  });
+}
+
+/** Menandai belum dibaca tanpa memundurkan `lastReadAt`, sehingga hitungan pesan baru tetap akurat. */
+export async function markConversationUnread(db: Firestore, adminUid: string, docId: string) {
+  await readMarkersCollection(db, adminUid).doc(docId).set({ markedUnread: true }, { merge: true });
+}
+
+/**
+ * Menghitung pesan pelanggan yang belum dibaca admin tanpa query per percakapan: penghitung
+ * `customerMessageCount` di dokumen percakapan dibandingkan dengan nilainya saat terakhir dibaca.
+ * Percakapan tanpa penghitung (atau penanda lama tanpa salinannya) hanya ditandai ada/tidaknya
+ * pesan pelanggan setelah `lastReadAt`.
+ */
+export async function getReadStates(db: Firestore, adminUid: string, conversationDocs: DocumentSnapshot[]) {
+  const result: Record<string, ReadState> = {};
+  if (!conversationDocs.length) return result;
+
+  const collection = readMarkersCollection(db, adminUid);
+  const markers = await db.getAll(...conversationDocs.map((doc) => collection.doc(doc.id)));
+  const markersById = new Map(markers.map((marker) => [marker.id, marker]));
+
+  conversationDocs.forEach((doc) => {
+    const marker = markersById.get(doc.id);
+    const lastReadAt = marker?.get('lastReadAt') as Timestamp | undefined;
+    const readCount = marker?.get('customerMessageCount');
+    const markedUnread = marker?.get('markedUnread') === true;
+    const activity = readCustomerActivity(doc);
+
+    let unreadCount = 0;
+    if (activity.messageCount !== null && (!lastReadAt || typeof readCount === 'number')) {
+      unreadCount = Math.max(0, activity.messageCount - (lastReadAt ? (readCount as number) : 0));
+    } else if (activity.lastMessageAt && (!lastReadAt || activity.lastMessageAt.toMillis() > lastReadAt.toMillis())) {
+      unreadCount = 1;
+    }
+
+    result[doc.id] = {
+      unreadCount: markedUnread ? Math.max(unreadCount, 1) : unreadCount,
+      lastReadAt: serializeIsoTimestamp(lastReadAt),
+      markedUnread,
+    };
+  });
+
+  return result;
+}
@@ -0,0 +1,101 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { serializeIsoTimestamp } from './conversations';
+import { findUnknownTemplateVariables, TEMPLATE_VARIABLES } from './templateVariables';
+import { readRecord } from './values';
+
+export const REPLY_TEMPLATE_COLLECTION = 'replyTemplates';
+
+const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const MAX_BODY_LENGTH = 4000;
+
+export interface ReplyTemplate {
+  id: string;
+  /** Dipanggil dari composer dengan `/shortcut`. */
+  shortcut: string;
+  title: string;
+  body: string;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type ReplyTemplateInput = Pick<ReplyTemplate, 'shortcut' | 'title' | 'body'>;
+
+export function parseReplyTemplateInput(body: unknown): { input: ReplyTemplateInput | null; error: string | null } {
+  const payload = readRecord(body);
+  const shortcut = typeof payload.shortcut === 'string' ? payload.shortcut.trim().replace(/^\//, '').toLowerCase() : '';
+  if (!SHORTCUT_PATTERN.test(shortcut)) {
+    return { input: null, error: 'Shortcut hanya boleh huruf kecil, angka, "-" atau "_" (maks. 40 karakter).' };
+  }
+
+  const title = typeof payload.title === 'string' ? payload.title.trim() : '';
+  if (!title) {
+    return { input: null, error: 'Judul template wajib diisi.' };
+  }
+
+  const text = typeof payload.body === 'string' ? payload.body.trim() : '';
+  if (!text) {
+    return { input: null, error: 'Isi template wajib diisi.' };
+  }
+  if (text.length > MAX_BODY_LENGTH) {
+    return { input: null, error: `Isi template maksimal ${MAX_BODY_LENGTH} karakter.` };
+  }
+
+  const unknown = findUnknownTemplateVariables(text);
+  if (unknown.length) {
+    return {
+      input: null,
+      error: `Variabel tidak dikenal: ${unknown.join(', ')}. Gunakan ${TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}.`,
+    };
+  }
+
+  return { input: { shortcut, title, body: text }, error: null };
+}
+
+export function serializeReplyTemplate(doc: DocumentSnapshot): ReplyTemplate {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    shortcut: data.shortcut || doc.id,
+    title: data.title || data.shortcut || doc.id,
+    body: data.body || '',
+    updatedBy: data.updatedBy || null,
+    updatedAt: serializeIsoTimestamp(data.updatedAt),
+  };
+}
+
+export async function listReplyTemplates(db: Firestore) {
+  const snapshot = await db.collection(REPLY_TEMPLATE_COLLECTION).get();
+  return snapshot.docs.map(serializeReplyTemplate).sort((a, b) => a.shortcut.localeCompare(b.shortcut));
+}
+
+/** Shortcut harus unik karena dipakai sebagai perintah di composer. */
+export async function isShortcutTaken(db: Firestore, shortcut: string, exceptId?: string) {
+  const snapshot = await db.collection(REPLY_TEMPLATE_COLLECTION).where('shortcut', '==', shortcut).get();
+  return snapshot.docs.some((doc) => doc.id !== exceptId);
+}
+
+export async function saveReplyTemplate(
+  db: Firestore,
+  input: ReplyTemplateInput,
+  options: { id?: string; updatedBy?: string | null } = {}
+) {
+  const collection = db.collection(REPLY_TEMPLATE_COLLECTION);
+  const docRef = options.id ? collection.doc(options.id) : collection.doc();
+  const payload: DocumentData = {
+    ...input,
+    updatedBy: options.updatedBy || null,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  if (!options.id) {
+    payload.createdAt = FieldValue.serverTimestamp();
+  }
+
+  await docRef.set(payload, { merge: true });
+  return serializeReplyTemplate(await docRef.get());
+}
+
+export async function deleteReplyTemplate(db: Firestore, id: string) {
+  await db.collection(REPLY_TEMPLATE_COLLECTION).doc(id).delete();
+}
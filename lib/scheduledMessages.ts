@@ -0,0 +1,206 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { serializeIsoTimestamp } from './conversations';
+import { parseSenderIdentity } from './identity';
+import { deliverOutboundMessage, enqueueOutboundMessage } from './outbox';
+import type { AdminSession } from './session';
+import { readRecord } from './values';
+
+export const SCHEDULED_MESSAGE_COLLECTION = 'scheduledMessages';
+
+const MIN_LEAD_MS = 60 * 1000;
+const MAX_LEAD_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_NOTE_LENGTH = 500;
+
+// `message` dikirim lewat outbox saat jatuh tempo; `reminder` hanya memunculkan percakapan kembali di console.
+export type ScheduledKind = 'message' | 'reminder';
+export type ScheduledStatus = 'scheduled' | 'dispatched' | 'failed' | 'due' | 'done' | 'cancelled';
+
+export interface ScheduledMessageInput {
+  kind: ScheduledKind;
+  message: string;
+  note: string;
+  dueAt: Date;
+}
+
+export function parseScheduledMessageInput(body: unknown, now = Date.now()): { input: ScheduledMessageInput | null; error: string | null } {
+  const payload = readRecord(body);
+  const kind: ScheduledKind = payload.kind === 'reminder' ? 'reminder' : 'message';
+  const message = typeof payload.message === 'string' ? payload.message.trim() : '';
+  const note = typeof payload.note === 'string' ? payload.note.trim().slice(0, MAX_NOTE_LENGTH) : '';
+
+  if (kind === 'message' && !message) {
+    return { input: null, error: 'Isi pesan terjadwal wajib diisi.' };
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return { input: null, error: `Pesan maksimal ${MAX_MESSAGE_LENGTH} karakter.` };
+  }
+
+  const dueMillis = typeof payload.dueAt === 'string' ? Date.parse(payload.dueAt) : NaN;
+  if (Number.isNaN(dueMillis)) {
+    return { input: null, error: 'Waktu jadwal tidak valid.' };
+  }
+  if (dueMillis < now + MIN_LEAD_MS) {
+    return { input: null, error: 'Waktu jadwal minimal 1 menit dari sekarang.' };
+  }
+  if (dueMillis > now + MAX_LEAD_MS) {
+    return { input: null, error: 'Waktu jadwal maksimal 90 hari ke depan.' };
+  }
+
+  return { input: { kind, message: kind === 'message' ? message : '', note, dueAt: new Date(dueMillis) }, error: null };
+}
+
+export function serializeScheduledMessage(doc: DocumentSnapshot) {
+  const data = doc.data() || {};
+
+  return {
+    id: doc.id,
+    senderNumber: data.senderNumber || null,
+    kind: (data.kind || 'message') as ScheduledKind,
+    message: data.message || '',
+    note: data.note || '',
+    status: (data.status || 'scheduled') as ScheduledStatus,
+    dueAt: serializeIsoTimestamp(data.dueAt),
+    outboxId: data.outboxId || null,
+    error: data.error || null,
+    createdByEmail: data.createdByEmail || null,
+    createdAt: serializeIsoTimestamp(data.createdAt),
+    completedAt: serializeIsoTimestamp(data.completedAt),
+  };
+}
+
+export async function createScheduledMessage(
+  db: Firestore,
+  target: { number: string; channel: string | null; platformId: string | null },
+  input: ScheduledMessageInput,
+  admin: AdminSession
+) {
+  const identity = parseSenderIdentity(target.number);
+  const docRef = db.collection(SCHEDULED_MESSAGE_COLLECTION).doc();
+
+  await docRef.set({
+    senderNumber: identity.docId,
+    number: target.number,
+    channel: target.channel,
+    platformId: target.platformId,
+    kind: input.kind,
+    message: input.message,
+    note: input.note,
+    status: 'scheduled',
+    dueAt: Timestamp.fromDate(input.dueAt),
+    // Hanya jadwal yang belum diproses yang punya `dispatchAt`, jadi cron cukup memakai range query ini.
+    dispatchAt: Timestamp.fromDate(input.dueAt),
+    outboxId: null,
+    error: null,
+    createdById: admin.uid,
+    createdByEmail: admin.email,
+    createdAt: FieldValue.serverTimestamp(),
+    completedAt: null,
+  });
+
+  return serializeScheduledMessage(await docRef.get());
+}
+
+/** Jadwal aktif (belum dibatalkan atau diselesaikan) milik satu percakapan, urut waktu. */
+export async function listScheduledMessages(db: Firestore, docId: string) {
+  const snapshot = await db.collection(SCHEDULED_MESSAGE_COLLECTION).where('senderNumber', '==', docId).get();
+
+  return snapshot.docs
+    .map(serializeScheduledMessage)
+    .filter((item) => ['scheduled', 'due', 'failed'].includes(item.status))
+    .sort((a, b) => Date.parse(a.dueAt || '') - Date.parse(b.dueAt || ''));
+}
+
+export async function listDueReminders(db: Firestore) {
+  const snapshot = await db.collection(SCHEDULED_MESSAGE_COLLECTION).where('status', '==', 'due').get();
+
+  return snapshot.docs
+    .map(serializeScheduledMessage)
+    .sort((a, b) => Date.parse(a.dueAt || '') - Date.parse(b.dueAt || ''));
+}
+
+/**
+ * Menutup jadwal dengan status final: `cancelled` untuk jadwal yang belum berjalan atau gagal,
+ * `done` untuk pengingat yang sudah jatuh tempo. Mengembalikan `null` bila statusnya tidak cocok.
+ */
+export async function closeScheduledMessage(db: Firestore, id: string, status: 'cancelled' | 'done') {
+  const docRef = db.collection(SCHEDULED_MESSAGE_COLLECTION).doc(id);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) return null;
+
+    const current = snapshot.get('status') as ScheduledStatus;
+    const allowed = status === 'cancelled' ? ['scheduled', 'due', 'failed'] : ['due'];
+    if (!allowed.includes(current)) return null;
+
+    transaction.update(docRef, {
+      status,
+      dispatchAt: null,
+      completedAt: FieldValue.serverTimestamp(),
+    });
+    return serializeScheduledMessage(snapshot);
+  });
+}
+
+/** Mengklaim jadwal yang jatuh tempo di dalam transaksi agar pemanggilan cron yang tumpang tindih tidak mengirim dua kali. */
+async function claimScheduledMessage(db: Firestore, id: string) {
+  const docRef = db.collection(SCHEDULED_MESSAGE_COLLECTION).doc(id);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    const dispatchAt = snapshot.get('dispatchAt') as Timestamp | null | undefined;
+    if (!snapshot.exists || snapshot.get('status') !== 'scheduled' || !dispatchAt || dispatchAt.toMillis() > Date.now()) {
+      return null;
+    }
+
+    const kind = (snapshot.get('kind') || 'message') as ScheduledKind;
+    transaction.update(docRef, {
+      status: kind === 'reminder' ? 'due' : 'dispatched',
+      dispatchAt: null,
+    });
+    return snapshot;
+  });
+}
+
+export async function processDueScheduledMessages(db: Firestore, limit = 20) {
+  const snapshot = await db
+    .collection(SCHEDULED_MESSAGE_COLLECTION)
+    .where('dispatchAt', '<=', Timestamp.now())
+    .orderBy('dispatchAt', 'asc')
+    .limit(limit)
+    .get();
+
+  const results: { id: string; kind: ScheduledKind; status: ScheduledStatus }[] = [];
+  for (const doc of snapshot.docs) {
+    const claimed = await claimScheduledMessage(db, doc.id);
+    if (!claimed) continue;
+
+    const kind = (claimed.get('kind') || 'message') as ScheduledKind;
+    if (kind === 'reminder') {
+      results.push({ id: doc.id, kind, status: 'due' });
+      continue;
+    }
+
+    // Pengiriman memakai outbox yang sama dengan balasan manual, termasuk retry-nya.
+    try {
+      const outboxId = await enqueueOutboundMessage(db, {
+        number: claimed.get('number'),
+        message: claimed.get('message') || '',
+        channel: claimed.get('channel') || null,
+        platformId: claimed.get('platformId') || null,
+        media: [],
+        createdBy: { uid: claimed.get('createdById'), email: claimed.get('createdByEmail') },
+      });
+      await doc.ref.update({ outboxId, completedAt: FieldValue.serverTimestamp() });
+      await deliverOutboundMessage(db, outboxId);
+      results.push({ id: doc.id, kind, status: 'dispatched' });
+    } catch (error) {
+      await doc.ref.update({ status: 'failed', error: (error as Error).message || 'Gagal mengantrekan pesan.' });
+      results.push({ id: doc.id, kind, status: 'failed' });
+    }
+  }
+
+  return results;
+}
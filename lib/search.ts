@@ -0,0 +1,329 @@
+import { FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { serializeFirestoreTimestamp, serializeIsoTimestamp } from './conversations';
+
+// Indeks teks lengkap disimpan di Firestore: satu dokumen `searchIndex` per pesan berisi token
+// dan prefiksnya di field `terms`, sehingga pencarian cukup satu query `array-contains`.
+// Indeks diperbarui bertahap oleh cron dari collection group `messages`, yang butuh index
+// single-field `timestamp` dengan cakupan collection group diaktifkan di Firestore.
+export const SEARCH_INDEX_COLLECTION = 'searchIndex';
+const SEARCH_STATE_REF = 'searchIndexState/messages';
+const SYNC_BATCH_SIZE = 200;
+// Batas kerja per pemanggilan cron; pengisian awal indeks berlanjut di pemanggilan berikutnya.
+const SYNC_MAX_BATCHES = 10;
+const SYNC_LEASE_MS = 2 * 60 * 1000;
+// Dokumen indeks yang dibaca per pencarian. ID dokumen diurutkan dari pesan terbaru,
+// jadi batas ini mengambil kecocokan terbaru tanpa butuh composite index.
+const SEARCH_SCAN_LIMIT = 300;
+// Pencarian di satu percakapan langsung membaca pesan terbarunya, tanpa indeks global.
+const CONVERSATION_SCAN_LIMIT = 2000;
+const MIN_TOKEN_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 20;
+const SNIPPET_RADIUS = 60;
+const MAX_TIMESTAMP_MILLIS = 9999999999999;
+
+function getIndexWindowDays() {
+  const configured = Number(process.env.SEARCH_INDEX_DAYS);
+  return Number.isFinite(configured) && configured > 0 ? configured : 365;
+}
+
+interface IndexedMessage {
+  senderNumber: string;
+  messageId: string;
+  sender: string;
+  text: string;
+  timestamp: Timestamp | null;
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  senderNumber: string;
+  messageId: string;
+  sender: string;
+  snippet: string;
+  highlights: SearchHighlight[];
+  timestamp: { seconds: number; nanoseconds: number } | null;
+  score: number;
+}
+
+// Diakritik dibuang supaya "cafe" cocok dengan "café"; panjang string tidak berubah
+// untuk huruf Latin umum sehingga posisi highlight tetap sejajar dengan teks asli.
+// Token hanya huruf Latin dan angka, sesuai isi chat bengkel yang berbahasa Indonesia.
+function normalizeText(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(value: string) {
+  return normalizeText(value)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH);
+}
+
+// Token utuh ditambah prefiksnya, supaya token terakhir bisa dicocokkan saat kata belum selesai diketik.
+function buildTerms(text: string) {
+  const terms = new Set<string>();
+  tokenize(text).forEach((token) => {
+    terms.add(token);
+    for (let length = MIN_TOKEN_LENGTH; length < token.length && length <= MAX_PREFIX_LENGTH; length += 1) {
+      terms.add(token.slice(0, length));
+    }
+  });
+  return Array.from(terms);
+}
+
+// ID diawali waktu terbalik sehingga urutan ID dokumen bawaan Firestore sama dengan urutan terbaru.
+function getIndexDocId(message: IndexedMessage) {
+  const millis = message.timestamp ? message.timestamp.toMillis() : 0;
+  const inverted = String(MAX_TIMESTAMP_MILLIS - millis).padStart(13, '0');
+  return `${inverted}_${message.senderNumber}_${message.messageId}`;
+}
+
+function toIndexedMessage(doc: DocumentSnapshot): IndexedMessage | null {
+  const conversationRef = doc.ref.parent.parent;
+  // Collection group `messages` juga bisa berisi subkoleksi lain; hanya percakapan yang diindeks.
+  if (!conversationRef || conversationRef.parent.id !== 'directMessages') return null;
+
+  const data = doc.data();
+  const text = typeof data?.text === 'string' ? data.text : '';
+  if (!text.trim()) return null;
+
+  return {
+    senderNumber: conversationRef.id,
+    messageId: doc.id,
+    sender: data?.sender || 'user',
+    text,
+    timestamp: (data?.timestamp as Timestamp) || null,
+  };
+}
+
+function readIndexEntry(doc: QueryDocumentSnapshot): IndexedMessage {
+  return {
+    senderNumber: doc.get('senderNumber') as string,
+    messageId: doc.get('messageId') as string,
+    sender: (doc.get('sender') as string) || 'user',
+    text: (doc.get('text') as string) || '',
+    timestamp: (doc.get('timestamp') as Timestamp) || null,
+  };
+}
+
+function toIndexDocument(message: IndexedMessage) {
+  return { ...message, terms: buildTerms(message.text) };
+}
+
+async function claimSync(db: Firestore) {
+  const stateRef = db.doc(SEARCH_STATE_REF);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(stateRef);
+    const leaseUntil = snapshot.get('processingUntil') as Timestamp | undefined;
+    if (leaseUntil && leaseUntil.toMillis() > Date.now()) return null;
+    transaction.set(stateRef, { processingUntil: Timestamp.fromMillis(Date.now() + SYNC_LEASE_MS) }, { merge: true });
+    return snapshot;
+  });
+}
+
+/**
+ * Dipanggil cron: menyalin pesan baru sejak posisi terakhir ke `searchIndex`, paling banyak
+ * `SYNC_MAX_BATCHES` batch per pemanggilan. Posisi disimpan bersama tiap batch, jadi pemanggilan
+ * yang terhenti di tengah jalan dilanjutkan tanpa mengulang dari awal.
+ */
+export async function syncSearchIndex(db: Firestore) {
+  const state = await claimSync(db);
+  if (!state) return { indexed: 0, indexedUntil: null, skipped: true };
+
+  const stateRef = db.doc(SEARCH_STATE_REF);
+  // `path` ikut disimpan karena banyak pesan bisa berbagi timestamp yang sama; tanpa itu pesan di batas batch terlewat.
+  let timestamp = (state.get('timestamp') as Timestamp | undefined) ??
+    Timestamp.fromMillis(Date.now() - getIndexWindowDays() * 24 * 60 * 60 * 1000);
+  let path = (state.get('path') as string) || '';
+  let indexed = 0;
+
+  try {
+    for (let batchIndex = 0; batchIndex < SYNC_MAX_BATCHES; batchIndex += 1) {
+      const query = db
+        .collectionGroup('messages')
+        .orderBy('timestamp', 'asc')
+        .orderBy(FieldPath.documentId(), 'asc')
+        .limit(SYNC_BATCH_SIZE);
+      const snapshot = await (path ? query.startAfter(timestamp, path) : query.where('timestamp', '>', timestamp)).get();
+      if (!snapshot.docs.length) break;
+
+      const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      timestamp = lastDoc.get('timestamp') as Timestamp;
+      path = lastDoc.ref.path;
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => {
+        const message = toIndexedMessage(doc);
+        if (!message) return;
+        batch.set(db.collection(SEARCH_INDEX_COLLECTION).doc(getIndexDocId(message)), toIndexDocument(message));
+        indexed += 1;
+      });
+      batch.set(stateRef, { timestamp, path, syncedAt: FieldValue.serverTimestamp() }, { merge: true });
+      await batch.commit();
+
+      if (snapshot.docs.length < SYNC_BATCH_SIZE) break;
+    }
+  } finally {
+    await stateRef.set({ processingUntil: null }, { merge: true });
+  }
+
+  return { indexed, indexedUntil: serializeIsoTimestamp(timestamp), skipped: false };
+}
+
+export async function getSearchIndexStats(db: Firestore) {
+  const snapshot = await db.doc(SEARCH_STATE_REF).get();
+  return {
+    indexedUntil: serializeIsoTimestamp(snapshot.get('timestamp') as Timestamp | undefined),
+    syncedAt: serializeIsoTimestamp(snapshot.get('syncedAt') as Timestamp | undefined),
+  };
+}
+
+// Token terakhir dicocokkan sebagai prefiks; token lain harus muncul utuh di pesan.
+function matchMessage(text: string, queryTokens: string[]) {
+  const tokens = new Set(tokenize(text));
+  const exactTokens = queryTokens.slice(0, -1);
+  const lastToken = queryTokens[queryTokens.length - 1];
+  if (!exactTokens.every((token) => tokens.has(token))) return null;
+
+  const prefixMatches = Array.from(tokens).filter((token) => token.startsWith(lastToken));
+  return prefixMatches.length ? new Set(exactTokens.concat(prefixMatches)) : null;
+}
+
+function buildSnippet(text: string, matchedTokens: Set<string>) {
+  const normalized = normalizeText(text);
+  const highlights: SearchHighlight[] = [];
+  const tokenPattern = /[a-z0-9]+/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(normalized))) {
+    if (matchedTokens.has(match[0])) {
+      highlights.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  const firstHit = highlights[0]?.start ?? 0;
+  const start = Math.max(0, firstHit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, firstHit + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter((highlight) => highlight.start >= start && highlight.end <= end)
+      .map((highlight) => ({
+        start: highlight.start - start + prefix.length,
+        end: highlight.end - start + prefix.length,
+      })),
+  };
+}
+
+function rankMatches(messages: IndexedMessage[], queryTokens: string[], limit: number) {
+  const results: SearchResult[] = [];
+
+  messages.forEach((message) => {
+    const matchedTokens = matchMessage(message.text, queryTokens);
+    if (!matchedTokens) return;
+
+    const { snippet, highlights } = buildSnippet(message.text, matchedTokens);
+    results.push({
+      senderNumber: message.senderNumber,
+      messageId: message.messageId,
+      sender: message.sender,
+      snippet,
+      highlights,
+      timestamp: serializeFirestoreTimestamp(message.timestamp),
+      // Pesan dengan lebih banyak kata yang cocok didahulukan, lalu yang terbaru.
+      score: highlights.length,
+    });
+  });
+
+  const toMillis = (result: SearchResult) =>
+    result.timestamp ? result.timestamp.seconds * 1000 + result.timestamp.nanoseconds / 1_000_000 : 0;
+
+  return results
+    .sort((a, b) => b.score - a.score || toMillis(b) - toMillis(a))
+    .slice(0, limit);
+}
+
+// Token terpanjang biasanya paling jarang muncul, jadi dipakai untuk query `array-contains`.
+function pickLookupTerm(queryTokens: string[]) {
+  const longest = queryTokens.reduce((best, token) => (token.length > best.length ? token : best));
+  return longest === queryTokens[queryTokens.length - 1] ? longest.slice(0, MAX_PREFIX_LENGTH) : longest;
+}
+
+/**
+ * Mencari lewat `searchIndex`, lalu mencocokkan hasil teratas dengan pesan aslinya: pesan yang
+ * sudah dihapus dibuang dari indeks, dan pesan yang diedit diindeks ulang dengan teks terbarunya.
+ */
+export async function searchMessages(db: Firestore, query: string, options: { limit: number }): Promise<SearchResult[]> {
+  const queryTokens = tokenize(query);
+  if (!queryTokens.length) return [];
+
+  const snapshot = await db
+    .collection(SEARCH_INDEX_COLLECTION)
+    .where('terms', 'array-contains', pickLookupTerm(queryTokens))
+    .limit(SEARCH_SCAN_LIMIT)
+    .get();
+  const entries = new Map(snapshot.docs.map((doc) => {
+    const entry = readIndexEntry(doc);
+    return [`${entry.senderNumber}/${entry.messageId}`, { ref: doc.ref, entry }] as const;
+  }));
+  const ranked = rankMatches(Array.from(entries.values()).map(({ entry }) => entry), queryTokens, options.limit);
+  if (!ranked.length) return [];
+
+  const sources = await db.getAll(
+    ...ranked.map((result) =>
+      db.collection('directMessages').doc(result.senderNumber).collection('messages').doc(result.messageId)
+    )
+  );
+  const batch = db.batch();
+  let staleEntries = 0;
+  const current: IndexedMessage[] = [];
+  sources.forEach((source, index) => {
+    const indexed = entries.get(`${ranked[index].senderNumber}/${ranked[index].messageId}`);
+    if (!indexed) return;
+    const message = source.exists ? toIndexedMessage(source) : null;
+    if (!message) {
+      batch.delete(indexed.ref);
+      staleEntries += 1;
+      return;
+    }
+    if (message.text !== indexed.entry.text) {
+      batch.set(indexed.ref, toIndexDocument(message));
+      staleEntries += 1;
+    }
+    current.push(message);
+  });
+  if (staleEntries) await batch.commit();
+
+  return rankMatches(current, queryTokens, options.limit);
+}
+
+/** Mencari di pesan terbaru satu percakapan langsung dari Firestore, selalu sesuai isi terkini. */
+export async function searchConversationMessages(
+  db: Firestore,
+  senderNumber: string,
+  query: string,
+  options: { limit: number }
+): Promise<SearchResult[]> {
+  const queryTokens = tokenize(query);
+  if (!queryTokens.length) return [];
+
+  const snapshot = await db
+    .collection('directMessages')
+    .doc(senderNumber)
+    .collection('messages')
+    .orderBy('timestamp', 'desc')
+    .limit(CONVERSATION_SCAN_LIMIT)
+    .get();
+
+  const messages = snapshot.docs
+    .map((doc) => toIndexedMessage(doc))
+    .filter((message): message is IndexedMessage => Boolean(message));
+  return rankMatches(messages, queryTokens, options.limit);
+}
@@ -0,0 +1,102 @@
+// Modul ini dipakai oleh middleware (Edge runtime) maupun route handler (Node.js),
+// jadi hanya boleh memakai Web Crypto dan API standar lain.
+
+import type { AdminRole } from './permissions';
+
+export const SESSION_COOKIE_NAME = 'bosmat_admin_session';
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export type AdminSession = {
+  uid: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  exp: number;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSessionSecret() {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret) {
+    throw new Error('ADMIN_SESSION_SECRET belum diset di environment.');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getSigningKey() {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function createSessionToken(session: Omit<AdminSession, 'exp'>, maxAgeSeconds = SESSION_MAX_AGE_SECONDS) {
+  const payload: AdminSession = {
+    ...session,
+    exp: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+  };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(token: string | null | undefined): Promise<AdminSession | null> {
+  if (!token) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload))) as AdminSession;
+    if (!payload?.uid || typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function readCookie(cookieHeader: string | null | undefined, name: string) {
+  if (!cookieHeader) return null;
+
+  for (const part of cookieHeader.split(';')) {
+    const [rawKey, ...rest] = part.trim().split('=');
+    if (rawKey === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+
+  return null;
+}
@@ -1,6 +1,8 @@
 import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import type { Firestore, DocumentData } from 'firebase-admin/firestore';
-import { normalizeSenderNumber as normalizeIdentitySender } from './identity';
+import type { Firestore, DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import { normalizeSenderNumber as normalizeIdentitySender, parseSenderIdentity } from './identity';
+import { evaluateSchedules, listHandoverSchedules, selectSchedulesForChannel } from './handoverSchedule';
+import type { HandoverSchedule } from './handoverSchedule';
 
 export interface SnoozeInfo {
   active: boolean;
@@ -10,17 +12,80 @@ export interface SnoozeInfo {
   reason: string | null;
   createdAt: string | null;
   updatedAt: string | null;
+  /** Asal status jeda: saklar global, toggle manual, timer, atau jadwal handover. */
+  source: 'global' | 'manual' | 'timer' | 'schedule' | null;
+  scheduleId: string | null;
+  scheduleName: string | null;
+  /** Kapan status efektif AI berubah berikutnya, bila diketahui. */
+  nextChangeAt: string | null;
+}
+
+export interface GlobalAiPause {
+  paused: boolean;
+  reason: string | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
 }
 
 export const normalizeSenderNumber = normalizeIdentitySender;
 
+// Saklar global disimpan di samping `handoverSnoozes` supaya backend bot bisa membacanya dengan cara yang sama.
+const GLOBAL_PAUSE_DOC = 'handoverSettings/global';
+
+export function globalAiPauseRef(db: Firestore) {
+  return db.doc(GLOBAL_PAUSE_DOC);
+}
+
+export async function getGlobalAiPause(db: Firestore): Promise<GlobalAiPause> {
+  const snapshot = await globalAiPauseRef(db).get();
+  const data = snapshot.exists ? snapshot.data() : undefined;
+
+  return {
+    paused: Boolean(data?.paused),
+    reason: (data?.reason as string) || null,
+    updatedBy: (data?.updatedBy as string) || null,
+    updatedAt: data?.updatedAt?.toDate ? (data.updatedAt.toDate() as Date).toISOString() : null,
+  };
+}
+
+export async function setGlobalAiPause(
+  db: Firestore,
+  paused: boolean,
+  options: { reason?: string | null; updatedBy?: string | null } = {}
+) {
+  await globalAiPauseRef(db).set({
+    paused,
+    reason: paused ? options.reason || null : null,
+    updatedBy: options.updatedBy || null,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+const MAX_PAUSE_REASON_LENGTH = 200;
+
+/** Memvalidasi `reason` dari body request jeda AI; kosong berarti memakai alasan bawaan. */
+export function parsePauseReason(value: unknown): { reason: string | null; error: string | null } {
+  if (value === undefined || value === null) {
+    return { reason: null, error: null };
+  }
+  if (typeof value !== 'string') {
+    return { reason: null, error: 'Alasan jeda harus berupa teks.' };
+  }
+
+  const reason = value.trim();
+  if (reason.length > MAX_PAUSE_REASON_LENGTH) {
+    return { reason: null, error: `Alasan jeda maksimal ${MAX_PAUSE_REASON_LENGTH} karakter.` };
+  }
+  return { reason: reason || null, error: null };
+}
+
 export async function setSnoozeMode(
   db: Firestore,
   senderNumber: string,
   durationMinutes = 60,
-  options: { manual?: boolean; reason?: string } = {}
+  options: { manual?: boolean; reason?: string; updatedBy?: string | null } = {}
 ) {
-  const { manual = false, reason = null } = options;
+  const { manual = false, reason = null, updatedBy = null } = options;
   const docRef = db.collection('handoverSnoozes').doc(senderNumber);
 
   let effectiveDuration: number | null = null;
@@ -37,6 +102,7 @@ export async function setSnoozeMode(
     durationMinutes: effectiveDuration,
     manual,
     reason: reason || null,
+    updatedBy: updatedBy || null,
     updatedAt: FieldValue.serverTimestamp(),
     createdAt: FieldValue.serverTimestamp(),
   };
@@ -54,44 +120,28 @@ export async function clearSnoozeMode(db: Firestore, senderNumber: string) {
   await db.collection('handoverSnoozes').doc(senderNumber).delete();
 }
 
-export async function getSnoozeInfo(
-  db: Firestore,
-  senderNumber: string,
-  options: { cleanExpired?: boolean } = {}
-): Promise<SnoozeInfo> {
-  const { cleanExpired = false } = options;
-  const docRef = db.collection('handoverSnoozes').doc(senderNumber);
-  const snapshot = await docRef.get();
-
-  if (!snapshot.exists) {
-    return {
-      active: false,
-      manual: false,
-      durationMinutes: null,
-      expiresAt: null,
-      reason: null,
-      createdAt: null,
-      updatedAt: null,
-    };
+const EMPTY_SNOOZE_INFO: SnoozeInfo = {
+  active: false,
+  manual: false,
+  durationMinutes: null,
+  expiresAt: null,
+  reason: null,
+  createdAt: null,
+  updatedAt: null,
+  source: null,
+  scheduleId: null,
+  scheduleName: null,
+  nextChangeAt: null,
+};
+
+export function buildSnoozeInfo(data: DocumentData | undefined, now = new Date()): SnoozeInfo {
+  if (!data) {
+    return { ...EMPTY_SNOOZE_INFO };
   }
 
-  const data = snapshot.data() || {};
   const manual = Boolean(data.manual);
   const expiresAtDate = data.expiresAt?.toDate ? (data.expiresAt.toDate() as Date) : null;
-  const now = new Date();
-
-  let active = manual;
-
-  if (!manual) {
-    if (expiresAtDate && expiresAtDate > now) {
-      active = true;
-    } else {
-      active = false;
-      if (cleanExpired) {
-        await docRef.delete().catch(() => undefined);
-      }
-    }
-  }
+  const active = manual || Boolean(expiresAtDate && expiresAtDate > now);
 
   return {
     active,
@@ -101,5 +151,154 @@ export async function getSnoozeInfo(
     reason: (data.reason as string) || null,
     createdAt: data.createdAt?.toDate ? (data.createdAt.toDate() as Date).toISOString() : null,
     updatedAt: data.updatedAt?.toDate ? (data.updatedAt.toDate() as Date).toISOString() : null,
+    source: manual ? 'manual' : active ? 'timer' : null,
+    scheduleId: null,
+    scheduleName: null,
+    nextChangeAt: manual ? null : active && expiresAtDate ? expiresAtDate.toISOString() : null,
   };
 }
+
+/**
+ * Menggabungkan status snooze per percakapan dengan jadwal handover.
+ * Snooze manual/timer selalu menang; jadwal hanya menentukan status ketika tidak ada snooze aktif.
+ */
+export function applyHandoverSchedules(
+  info: SnoozeInfo,
+  schedules: HandoverSchedule[],
+  channel: string | null,
+  now = new Date()
+): SnoozeInfo {
+  const relevant = selectSchedulesForChannel(schedules, channel);
+  if (!relevant.length || info.manual) {
+    return info;
+  }
+
+  if (info.active && info.expiresAt) {
+    // Bila timer habis di tengah jendela jadwal, AI baru menyala saat jadwalnya berakhir.
+    const atExpiry = evaluateSchedules(relevant, new Date(info.expiresAt));
+    return { ...info, nextChangeAt: atExpiry.paused ? atExpiry.nextChangeAt : info.expiresAt };
+  }
+
+  const evaluation = evaluateSchedules(relevant, now);
+  if (!evaluation.paused || !evaluation.schedule) {
+    return { ...info, nextChangeAt: evaluation.nextChangeAt };
+  }
+
+  return {
+    ...EMPTY_SNOOZE_INFO,
+    active: true,
+    reason: 'schedule',
+    source: 'schedule',
+    scheduleId: evaluation.schedule.id,
+    scheduleName: evaluation.schedule.name,
+    nextChangeAt: evaluation.nextChangeAt,
+  };
+}
+
+/** Saklar global mengalahkan semua status lain; dipakai saat model sedang bermasalah. */
+function applyGlobalAiPause(info: SnoozeInfo, globalPause: GlobalAiPause): SnoozeInfo {
+  if (!globalPause.paused) return info;
+
+  return {
+    ...EMPTY_SNOOZE_INFO,
+    active: true,
+    manual: true,
+    reason: globalPause.reason || 'global-pause',
+    updatedAt: globalPause.updatedAt,
+    source: 'global',
+  };
+}
+
+export async function getSnoozeInfo(
+  db: Firestore,
+  senderNumber: string,
+  options: { cleanExpired?: boolean; schedules?: HandoverSchedule[] } = {}
+): Promise<SnoozeInfo> {
+  const { cleanExpired = false } = options;
+  const docRef = db.collection('handoverSnoozes').doc(senderNumber);
+  const [snapshot, schedules, globalPause] = await Promise.all([
+    docRef.get(),
+    options.schedules ?? listHandoverSchedules(db),
+    getGlobalAiPause(db),
+  ]);
+
+  const info = buildSnoozeInfo(snapshot.exists ? snapshot.data() : undefined);
+
+  if (snapshot.exists && !info.active && cleanExpired) {
+    await docRef.delete().catch(() => undefined);
+  }
+
+  return applyGlobalAiPause(
+    applyHandoverSchedules(info, schedules, parseSenderIdentity(senderNumber).channel),
+    globalPause
+  );
+}
+
+/**
+ * Snooze yang tersimpan per percakapan, tanpa lapisan jadwal handover maupun saklar global.
+ * Dipakai untuk aturan hak akses yang hanya peduli pada jeda yang dibuat admin.
+ */
+export async function getStoredSnoozeInfo(db: Firestore, senderNumbers: string[]): Promise<Record<string, SnoozeInfo>> {
+  const uniqueNumbers = Array.from(new Set(senderNumbers.filter(Boolean)));
+  const result: Record<string, SnoozeInfo> = {};
+  if (!uniqueNumbers.length) {
+    return result;
+  }
+
+  const collection = db.collection('handoverSnoozes');
+  const snapshots = await db.getAll(...uniqueNumbers.map((senderNumber) => collection.doc(senderNumber)));
+  const now = new Date();
+  snapshots.forEach((snapshot, index) => {
+    result[uniqueNumbers[index]] = buildSnoozeInfo(snapshot.exists ? snapshot.data() : undefined, now);
+  });
+
+  return result;
+}
+
+/**
+ * Mengambil status snooze untuk banyak sender sekaligus dengan satu `getAll`,
+ * sehingga daftar percakapan tidak perlu satu read per percakapan.
+ * Hasilnya dikunci dengan `senderNumber` yang diberikan (apa adanya).
+ */
+export async function getSnoozeInfoBulk(
+  db: Firestore,
+  senderNumbers: string[],
+  options: { cleanExpired?: boolean; schedules?: HandoverSchedule[] } = {}
+): Promise<Record<string, SnoozeInfo>> {
+  const { cleanExpired = false } = options;
+  const uniqueNumbers = Array.from(new Set(senderNumbers.filter(Boolean)));
+  const result: Record<string, SnoozeInfo> = {};
+
+  if (!uniqueNumbers.length) {
+    return result;
+  }
+
+  const collection = db.collection('handoverSnoozes');
+  const [snapshots, schedules, globalPause] = await Promise.all([
+    db.getAll(...uniqueNumbers.map((senderNumber) => collection.doc(senderNumber))),
+    options.schedules ?? listHandoverSchedules(db),
+    getGlobalAiPause(db),
+  ]);
+  const now = new Date();
+  const expiredRefs: DocumentReference[] = [];
+
+  snapshots.forEach((snapshot, index) => {
+    const senderNumber = uniqueNumbers[index];
+    const info = buildSnoozeInfo(snapshot.exists ? snapshot.data() : undefined, now);
+    if (snapshot.exists && !info.active) {
+      expiredRefs.push(snapshot.ref);
+    }
+    result[senderNumber] = applyGlobalAiPause(
+      applyHandoverSchedules(info, schedules, parseSenderIdentity(senderNumber).channel, now),
+      globalPause
+    );
+  });
+
+  if (cleanExpired && expiredRefs.length) {
+    const batch = db.batch();
+    expiredRefs.forEach((ref) => batch.delete(ref));
+    await batch.commit().catch(() => undefined);
+  }
+
+  return result;
+}
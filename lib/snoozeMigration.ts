@@ -0,0 +1,90 @@
+import type { DocumentData, Firestore, WriteBatch } from 'firebase-admin/firestore';
+import { getLegacyDigitsSenderKey, getSenderKey, parseSenderIdentity } from './identity';
+
+export interface SnoozeKeyMigrationResult {
+  scannedConversations: number;
+  moved: { from: string; to: string }[];
+  skipped: { key: string; reason: string }[];
+  dryRun: boolean;
+}
+
+/**
+ * Memindahkan dokumen `handoverSnoozes` yang dulu disimpan dengan kunci digit-saja
+ * (mis. `instagram:abc123` → `123@c.us`) ke kunci kanonik kanalnya.
+ * Kunci lama yang juga cocok dengan percakapan WhatsApp asli, atau dengan lebih dari satu
+ * percakapan non-WhatsApp, dibiarkan karena pemiliknya tidak bisa dipastikan.
+ */
+export async function migrateMisKeyedSnoozes(
+  db: Firestore,
+  options: { dryRun?: boolean } = {}
+): Promise<SnoozeKeyMigrationResult> {
+  const { dryRun = false } = options;
+  const conversations = await db.collection('directMessages').select().get();
+  const conversationIds = new Set(conversations.docs.map((doc) => doc.id));
+
+  const canonicalByLegacyKey = new Map<string, string[]>();
+  conversations.docs.forEach((doc) => {
+    const identity = parseSenderIdentity(doc.id);
+    if (identity.channel === 'whatsapp') return;
+
+    const legacyKey = getLegacyDigitsSenderKey(doc.id);
+    if (!legacyKey) return;
+
+    canonicalByLegacyKey.set(legacyKey, [...(canonicalByLegacyKey.get(legacyKey) ?? []), getSenderKey(identity)]);
+  });
+
+  const result: SnoozeKeyMigrationResult = {
+    scannedConversations: conversations.size,
+    moved: [],
+    skipped: [],
+    dryRun,
+  };
+
+  const legacyKeys = Array.from(canonicalByLegacyKey.keys());
+  if (!legacyKeys.length) {
+    return result;
+  }
+
+  const collection = db.collection('handoverSnoozes');
+  const legacySnapshots = await db.getAll(...legacyKeys.map((key) => collection.doc(key)));
+  // Batch Firestore dibatasi 500 operasi, jadi tulisan dikumpulkan lalu dikomit per potongan.
+  const writes: ((batch: WriteBatch) => void)[] = [];
+
+  for (const snapshot of legacySnapshots) {
+    if (!snapshot.exists) continue;
+
+    const legacyKey = snapshot.id;
+    const candidates = canonicalByLegacyKey.get(legacyKey) ?? [];
+    if (conversationIds.has(legacyKey.replace(/@c\.us$/, ''))) {
+      result.skipped.push({ key: legacyKey, reason: 'Kunci juga milik percakapan WhatsApp.' });
+      continue;
+    }
+    if (candidates.length !== 1) {
+      result.skipped.push({ key: legacyKey, reason: `Cocok dengan ${candidates.length} percakapan.` });
+      continue;
+    }
+
+    const canonicalKey = candidates[0];
+    const canonicalSnapshot = await collection.doc(canonicalKey).get();
+    if (canonicalSnapshot.exists) {
+      // Status yang sudah tersimpan di kunci benar lebih baru daripada salinan lama.
+      result.skipped.push({ key: legacyKey, reason: `Dokumen ${canonicalKey} sudah ada; salinan lama dihapus.` });
+      writes.push((batch) => batch.delete(snapshot.ref));
+      continue;
+    }
+
+    const data: DocumentData = { ...snapshot.data(), senderNumber: canonicalKey };
+    writes.push((batch) => batch.set(collection.doc(canonicalKey), data).delete(snapshot.ref));
+    result.moved.push({ from: legacyKey, to: canonicalKey });
+  }
+
+  if (!dryRun) {
+    for (let index = 0; index < writes.length; index += 200) {
+      const batch = db.batch();
+      writes.slice(index, index + 200).forEach((write) => write(batch));
+      await batch.commit();
+    }
+  }
+
+  return result;
+}
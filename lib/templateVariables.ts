@@ -0,0 +1,38 @@
+// Dipakai bersama oleh route template dan AdminConsole (pengisian variabel di composer),
+// jadi modul ini tidak boleh mengimpor apa pun yang khusus server.
+
+export const TEMPLATE_VARIABLES = ['name', 'bookingDate', 'bookingTime', 'serviceName'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export function extractTemplateVariables(body: string) {
+  const found = new Set<string>();
+  body.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    found.add(name);
+    return '';
+  });
+  return Array.from(found);
+}
+
+export function findUnknownTemplateVariables(body: string) {
+  return extractTemplateVariables(body).filter((name) => !TEMPLATE_VARIABLES.includes(name as TemplateVariable));
+}
+
+/**
+ * Mengganti `{{variabel}}` dengan nilai yang tersedia. Variabel tanpa nilai dibiarkan apa adanya
+ * supaya admin melihatnya di composer dan mengisinya sendiri sebelum mengirim.
+ */
+export function fillTemplate(body: string, values: TemplateValues) {
+  const missing = new Set<string>();
+  const text = body.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const value = values[name as TemplateVariable];
+    if (value) return value;
+    missing.add(name);
+    return match;
+  });
+  return { text, missing: Array.from(missing) };
+}
@@ -0,0 +1,12 @@
+// Pembaca nilai mentah dari body request, respons backend, dan dokumen Firestore.
+// Dipakai juga oleh AdminConsole di browser, jadi modul ini tidak boleh mengimpor apa pun yang khusus server.
+
+/** Nilai objek sebagai record; selain objek menjadi record kosong supaya field-nya aman dibaca. */
+export function readRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+/** String yang tidak kosong, atau `null` untuk nilai lain. */
+export function readString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
@@ -0,0 +1,72 @@
+import type { DocumentSnapshot, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { callBackend } from './backend';
+import { serializeIsoTimestamp } from './conversations';
+import { normalizeWhatsappTemplates } from './whatsappTemplates';
+import type { WhatsappTemplate } from './whatsappTemplates';
+
+// Template disetujui Meta jarang berubah, jadi daftar dari backend disimpan sebentar di memori.
+const CATALOG_TTL_MS = 5 * 60 * 1000;
+
+let cached: { templates: WhatsappTemplate[]; fetchedAt: number } | null = null;
+
+export async function listApprovedWhatsappTemplates(options: { force?: boolean } = {}) {
+  if (!options.force && cached && Date.now() - cached.fetchedAt < CATALOG_TTL_MS) {
+    return { templates: cached.templates, error: null };
+  }
+
+  const result = await callBackend('/whatsapp-templates', { method: 'GET' });
+  if (!result.ok) {
+    return { templates: cached?.templates ?? [], error: result.error || `Backend merespons ${result.status}.` };
+  }
+
+  const templates = normalizeWhatsappTemplates(result.data);
+  cached = { templates, fetchedAt: Date.now() };
+  return { templates, error: null };
+}
+
+export async function findApprovedWhatsappTemplate(name: string, language: string) {
+  const { templates, error } = await listApprovedWhatsappTemplates();
+  const template = templates.find((item) => item.name === name && item.language === language) || null;
+  return { template, error };
+}
+
+// Riwayat dipindai dari yang terbaru tanpa filter `sender`, supaya tidak butuh composite index.
+const SESSION_SCAN_LIMIT = 200;
+
+/**
+ * Pesan terakhir dari pelanggan, diambil dari ringkasan percakapan bila pesan terakhirnya memang
+ * dari pelanggan, atau dari `scanLimit` pesan terbaru. `null` bila tidak ditemukan di rentang itu.
+ */
+export async function getLastCustomerMessage(
+  conversation: DocumentSnapshot,
+  scanLimit = SESSION_SCAN_LIMIT
+): Promise<{ text: string; at: string | null } | null> {
+  if ((conversation.get('lastMessageSender') || 'user') === 'user' && conversation.get('lastMessageAt')) {
+    return {
+      text: String(conversation.get('lastMessage') || ''),
+      at: serializeIsoTimestamp(conversation.get('lastMessageAt') as Timestamp),
+    };
+  }
+
+  const snapshot = await conversation.ref
+    .collection('messages')
+    .orderBy('timestamp', 'desc')
+    .limit(scanLimit)
+    .get();
+  const lastCustomerMessage = snapshot.docs.find((doc) => (doc.get('sender') || 'user') === 'user');
+  if (!lastCustomerMessage) return null;
+
+  return {
+    text: String(lastCustomerMessage.get('text') || ''),
+    at: serializeIsoTimestamp(lastCustomerMessage.get('timestamp') as Timestamp | undefined),
+  };
+}
+
+/**
+ * Waktu pesan terakhir dari pelanggan. Bila tidak ada di pesan terbaru yang dipindai,
+ * `null` dikembalikan dan sesi dianggap berakhir: template tetap boleh dikirim kapan saja.
+ */
+export async function getLastCustomerMessageAt(db: Firestore, docId: string) {
+  const conversation = await db.collection('directMessages').doc(docId).get();
+  return (await getLastCustomerMessage(conversation))?.at ?? null;
+}
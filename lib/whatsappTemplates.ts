@@ -0,0 +1,104 @@
+// Dipakai bersama oleh route template WhatsApp dan AdminConsole (deteksi sesi 24 jam),
+// jadi modul ini tidak boleh mengimpor apa pun yang khusus server.
+
+import { readRecord, readString } from './values';
+
+// WhatsApp Business API hanya menerima teks bebas dalam 24 jam sejak pesan terakhir pelanggan.
+export const WHATSAPP_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface WhatsappTemplate {
+  name: string;
+  language: string;
+  category: string | null;
+  header: string | null;
+  body: string;
+  footer: string | null;
+  headerParameterCount: number;
+  bodyParameterCount: number;
+}
+
+export interface WhatsappTemplateParameters {
+  header: string[];
+  body: string[];
+}
+
+export function getWhatsappSessionState(lastCustomerMessageAt: string | null | undefined, now = Date.now()) {
+  const lastMillis = lastCustomerMessageAt ? Date.parse(lastCustomerMessageAt) : NaN;
+  if (Number.isNaN(lastMillis)) {
+    return { expired: true, expiresAt: null as string | null };
+  }
+
+  const expiresAt = lastMillis + WHATSAPP_SESSION_WINDOW_MS;
+  return { expired: expiresAt <= now, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/** Placeholder WhatsApp bernomor urut (`{{1}}`, `{{2}}`, ...), jadi jumlahnya = nomor terbesar. */
+export function countTemplateParameters(text: string | null) {
+  let max = 0;
+  (text || '').replace(/\{\{\s*(\d+)\s*\}\}/g, (match, index: string) => {
+    max = Math.max(max, parseInt(index, 10));
+    return match;
+  });
+  return max;
+}
+
+function fillPlaceholders(text: string, values: string[]) {
+  return text.replace(/\{\{\s*(\d+)\s*\}\}/g, (match, index: string) => values[parseInt(index, 10) - 1] || match);
+}
+
+/** Teks template setelah parameter diisi, untuk pratinjau dan salinan di outbox. */
+export function renderWhatsappTemplate(template: WhatsappTemplate, parameters: WhatsappTemplateParameters) {
+  return [
+    template.header ? `*${fillPlaceholders(template.header, parameters.header)}*` : null,
+    fillPlaceholders(template.body, parameters.body),
+    template.footer ? `_${template.footer}_` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Menyeragamkan daftar template dari backend (format Graph API `message_templates`).
+ * Hanya template berstatus APPROVED dengan header teks atau tanpa header yang dikembalikan,
+ * karena header media butuh unggahan yang belum didukung console.
+ */
+export function normalizeWhatsappTemplates(raw: unknown): WhatsappTemplate[] {
+  const container = readRecord(raw);
+  const list: unknown[] = Array.isArray(raw)
+    ? raw
+    : Array.isArray(container.data)
+      ? container.data
+      : Array.isArray(container.templates)
+        ? container.templates
+        : [];
+
+  return list
+    .map(readRecord)
+    .filter((item) => item.name && String(item.status || 'APPROVED').toUpperCase() === 'APPROVED')
+    .map((item): WhatsappTemplate | null => {
+      const components = Array.isArray(item.components) ? item.components.map(readRecord) : [];
+      const findComponent = (type: string) =>
+        components.find((component) => String(component.type || '').toUpperCase() === type);
+      const header = findComponent('HEADER');
+      const body = findComponent('BODY');
+      const footer = findComponent('FOOTER');
+
+      if (header && String(header.format || 'TEXT').toUpperCase() !== 'TEXT') return null;
+
+      const headerText = readString(header?.text);
+      const bodyText = readString(body?.text) ?? readString(item.body) ?? '';
+
+      return {
+        name: String(item.name),
+        language: String(item.language || 'id'),
+        category: item.category ? String(item.category) : null,
+        header: headerText,
+        body: bodyText,
+        footer: readString(footer?.text),
+        headerParameterCount: countTemplateParameters(headerText),
+        bodyParameterCount: countTemplateParameters(bodyText),
+      };
+    })
+    .filter((template): template is WhatsappTemplate => Boolean(template?.body))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.language.localeCompare(b.language));
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/session';
+import { hasPermission } from '@/lib/permissions';
+import { CRON_PATHS, isCronRequest } from '@/lib/cron';
+
+const PUBLIC_API_PATHS = ['/api/auth/login', '/api/auth/logout'];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_API_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  if (CRON_PATHS.includes(pathname) && isCronRequest(request)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session) {
+    if (pathname.startsWith('/playground') && !hasPermission(session.role, 'playground:use')) {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Sesi admin tidak valid. Silakan login ulang.' },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/', '/playground/:path*', '/api/:path*'],
+};